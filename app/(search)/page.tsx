@@ -0,0 +1,29 @@
+import Header from '@/components/Header';
+import UsernameInput from '@/components/UsernameInput';
+import SearchSection from '@/components/SearchSection';
+import { SongProvider } from '@/contexts';
+import { parseSearchUrlState } from '@/utils/urlState';
+
+interface HomeProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function Home({ searchParams }: HomeProps) {
+  // ?user=...&q=... links open with those artists loaded and that search running
+  const { usernames, query } = parseSearchUrlState(await searchParams);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900">
+      <div className="container mx-auto px-4 py-8">
+        <Header />
+
+        <main id="main-content" className="max-w-2xl mx-auto">
+          <SongProvider initialUsernames={usernames} initialQuery={query}>
+            <UsernameInput />
+            <SearchSection />
+          </SongProvider>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildSunoAudioUrl, isValidSunoClipId } from '@/lib/suno';
+import { checkRateLimit, createByteLimitStream, getAudioUpstreamBaseUrl, getClientIp } from '@/lib/sunoProxy';
+import { FINGERPRINT_MAX_AUDIO_BYTES } from '@/constants';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/audio/[id]
+ * Streams a clip's audio from the Suno CDN so the browser can decode it for fingerprinting
+ * Bodies are too large for the proxy's page cache, so repeat downloads rely on HTTP caching
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!isValidSunoClipId(id)) {
+    return NextResponse.json({ error: 'Invalid clip id' }, { status: 400 });
+  }
+
+  const rateLimit = checkRateLimit(getClientIp(request.headers));
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      { error: 'Too many requests' },
+      {
+        status: 429,
+        headers: {
+          'Retry-After': String(rateLimit.retryAfterSeconds),
+          'X-RateLimit-Remaining': '0',
+        },
+      }
+    );
+  }
+
+  try {
+    const upstream = await fetch(buildSunoAudioUrl(id, getAudioUpstreamBaseUrl()), { cache: 'no-store' });
+
+    if (!upstream.ok || !upstream.body) {
+      return NextResponse.json({ error: 'Audio not available' }, { status: upstream.status === 404 ? 404 : 502 });
+    }
+    const contentLength = upstream.headers.get('Content-Length');
+    if (Number(contentLength) > FINGERPRINT_MAX_AUDIO_BYTES) {
+      return NextResponse.json({ error: 'Audio file too large' }, { status: 413 });
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': upstream.headers.get('Content-Type') || 'audio/mpeg',
+      // Finished clips never change
+      'Cache-Control': 'public, max-age=86400, immutable',
+      'X-RateLimit-Remaining': String(rateLimit.remaining),
+    };
+    if (contentLength) {
+      headers['Content-Length'] = contentLength;
+    }
+
+    // The declared length is only a hint; the cap holds for chunked or mislabelled bodies too
+    const body = upstream.body.pipeThrough(createByteLimitStream(FINGERPRINT_MAX_AUDIO_BYTES));
+    return new NextResponse(body, { status: 200, headers });
+  } catch (error) {
+    console.error('Suno audio proxy upstream error:', error);
+    return NextResponse.json({ error: 'Upstream request failed' }, { status: 502 });
+  }
+}
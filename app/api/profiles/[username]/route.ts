@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidSunoUsername } from '@/lib/suno';
+import { checkRateLimit, fetchProfilePageCached, getClientIp, isUpstreamTimeout } from '@/lib/sunoProxy';
+import { MAX_SUNO_PAGE, PROXY_CACHE_TTL_MS } from '@/constants';
+
+export const dynamic = 'force-dynamic';
+
+// Errors must not be cached by a CDN, or one rate limited or failed request would be replayed to everyone
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+/**
+ * GET /api/profiles/[username]?page=N
+ * Proxies a Suno profile page with validation, caching and per-IP rate limiting
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ username: string }> }
+) {
+  const { username: rawUsername } = await params;
+  const username = rawUsername.trim().toLowerCase();
+
+  if (!isValidSunoUsername(username)) {
+    return NextResponse.json({ error: 'Invalid username' }, { status: 400, headers: NO_STORE });
+  }
+
+  const pageParam = request.nextUrl.searchParams.get('page') ?? '0';
+  const page = Number(pageParam);
+  if (!/^\d+$/.test(pageParam) || page > MAX_SUNO_PAGE) {
+    return NextResponse.json({ error: 'Invalid page' }, { status: 400, headers: NO_STORE });
+  }
+
+  const rateLimit = checkRateLimit(getClientIp(request.headers));
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      { error: 'Too many requests' },
+      {
+        status: 429,
+        headers: {
+          ...NO_STORE,
+          'Retry-After': String(rateLimit.retryAfterSeconds),
+          'X-RateLimit-Remaining': '0',
+        },
+      }
+    );
+  }
+
+  try {
+    const { status, body, retryAfter, cached } = await fetchProfilePageCached(username, page);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      // Only successful pages are worth sharing; upstream errors and rate limits pass through uncached
+      'Cache-Control':
+        status >= 200 && status < 300
+          ? `public, max-age=0, s-maxage=${Math.floor(PROXY_CACHE_TTL_MS / 1000)}`
+          : NO_STORE['Cache-Control'],
+      'X-Cache': cached ? 'HIT' : 'MISS',
+      'X-RateLimit-Remaining': String(rateLimit.remaining),
+    };
+    if (retryAfter) {
+      headers['Retry-After'] = retryAfter;
+    }
+
+    return new NextResponse(body, { status, headers });
+  } catch (error) {
+    console.error('Suno proxy upstream error:', error);
+    if (isUpstreamTimeout(error)) {
+      return NextResponse.json({ error: 'Upstream request timed out' }, { status: 504, headers: NO_STORE });
+    }
+    return NextResponse.json({ error: 'Upstream request failed' }, { status: 502, headers: NO_STORE });
+  }
+}
@@ -1,7 +1,10 @@
 import type { Metadata, Viewport } from "next";
+import { getSiteUrl } from "@/lib/siteUrl";
 import "./globals.css";
 
 export const metadata: Metadata = {
+  // Resolves relative OpenGraph URLs; song pages resolve theirs against the requested host
+  metadataBase: getSiteUrl(),
   title: "Shazuno - Song Recognition for Suno",
   description: "Shazam-like application for Suno.com songs. Search through Suno artist libraries using text or voice input with smart matching.",
   keywords: ["suno", "song recognition", "music search", "lyrics search", "voice search", "shazam"],
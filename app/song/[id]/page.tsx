@@ -0,0 +1,177 @@
+import type { Metadata } from 'next';
+import { cache } from 'react';
+import { headers } from 'next/headers';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import Header from '@/components/Header';
+import LyricsSections from '@/components/LyricsSections';
+import { fetchClipCached } from '@/lib/sunoProxy';
+import { getSiteUrl } from '@/lib/siteUrl';
+import { isValidSunoClipId, validateClip, mapClipToSong, getClipOwner } from '@/lib/suno';
+import { parseLyrics } from '@/utils/lyrics';
+import { buildSearchUrl } from '@/utils/urlState';
+import type { Song } from '@/types/speech';
+
+export const dynamic = 'force-dynamic';
+
+interface SongPageProps {
+  params: Promise<{ id: string }>;
+}
+
+/** Longest OpenGraph description, in characters */
+const DESCRIPTION_LENGTH = 160;
+
+/**
+ * Loads a song by clip id; deduplicated between generateMetadata and the page
+ * @returns The song, or null if Suno doesn't know the id
+ * @throws Error when Suno can't be reached, so the error boundary shows
+ */
+const getSong = cache(async (id: string): Promise<Song | null> => {
+  if (!isValidSunoClipId(id)) {
+    return null;
+  }
+
+  const { status, body } = await fetchClipCached(id);
+  if (status === 404) {
+    return null;
+  }
+  if (status < 200 || status >= 300) {
+    throw new Error(`Suno returned ${status} for clip ${id}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(body);
+  } catch {
+    throw new Error(`Suno returned malformed data for clip ${id}`);
+  }
+
+  const { clip, issue } = validateClip(raw);
+  if (!clip) {
+    return null;
+  }
+  if (issue) {
+    console.warn(`Clip ${id} has malformed fields:`, issue.problems);
+  }
+  return mapClipToSong(clip, getClipOwner(clip));
+});
+
+// A short plain-text summary: the first lyric lines, or the description prompt for songs without lyrics
+function describeSong(song: Song): string {
+  const lyricLines = parseLyrics(song.lyrics).flatMap((section) => section.lines);
+  const text = lyricLines.length > 0 ? lyricLines.join(' / ') : song.descriptionPrompt || song.stylePrompt || '';
+  return text.length > DESCRIPTION_LENGTH ? `${text.slice(0, DESCRIPTION_LENGTH - 1).trimEnd()}…` : text;
+}
+
+export async function generateMetadata({ params }: SongPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const song = await getSong(id);
+
+  if (!song) {
+    return { title: 'Song not found - Shazuno' };
+  }
+
+  const artist = song.artistDisplayName || song.artist;
+  const title = artist ? `${song.title} by ${artist}` : song.title;
+  const description = describeSong(song) || `Listen to ${title} on Shazuno`;
+
+  return {
+    // Share links point back at the host the page was requested from
+    metadataBase: getSiteUrl(await headers()),
+    title: `${title} - Shazuno`,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: 'music.song',
+      siteName: 'Shazuno',
+      url: `/song/${encodeURIComponent(song.id)}`,
+      images: song.imageUrl ? [{ url: song.imageUrl, alt: `Artwork for ${song.title}` }] : undefined,
+      audio: song.audioUrl ? [{ url: song.audioUrl, type: 'audio/mpeg' }] : undefined,
+      videos: song.videoUrl ? [{ url: song.videoUrl }] : undefined,
+      duration: song.duration !== undefined ? Math.round(song.duration) : undefined,
+    },
+    twitter: {
+      card: song.imageUrl ? 'summary_large_image' : 'summary',
+      title,
+      description,
+      images: song.imageUrl ? [song.imageUrl] : undefined,
+    },
+  };
+}
+
+export default async function SongPage({ params }: SongPageProps) {
+  const { id } = await params;
+  const song = await getSong(id);
+
+  if (!song) {
+    notFound();
+  }
+
+  const artist = song.artistDisplayName || song.artist;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900">
+      <div className="container mx-auto px-4 py-8">
+        <Header />
+
+        <main id="main-content" className="max-w-2xl mx-auto">
+          <Link href="/" className="inline-block text-sm text-purple-200 hover:text-white mb-4 focus:outline-none focus:ring-2 focus:ring-purple-300 rounded">
+            <span aria-hidden="true">←</span> Back to search
+          </Link>
+
+          <article className="bg-white/10 backdrop-blur-lg rounded-lg p-6 shadow-xl space-y-4" aria-labelledby="song-title">
+            <div className="flex gap-4">
+              {song.imageUrl && (
+                <Image
+                  src={song.imageUrl}
+                  alt={`Album artwork for ${song.title}`}
+                  width={160}
+                  height={160}
+                  className="w-40 h-40 rounded-lg object-cover flex-shrink-0"
+                  sizes="160px"
+                  priority
+                />
+              )}
+              <div className="min-w-0">
+                <h2 id="song-title" className="text-3xl font-bold text-white mb-1">{song.title}</h2>
+                {song.artist && (
+                  <p className="text-purple-200 mb-2">
+                    by{' '}
+                    <Link
+                      href={buildSearchUrl({ usernames: [song.artist], query: '' })}
+                      className="underline hover:text-white focus:outline-none focus:ring-2 focus:ring-purple-300 rounded"
+                    >
+                      {artist}
+                    </Link>
+                  </p>
+                )}
+                {song.stylePrompt && <p className="text-sm text-gray-300">{song.stylePrompt}</p>}
+              </div>
+            </div>
+
+            {song.audioUrl && (
+              <audio controls className="w-full" aria-label={`Audio player for ${song.title}`}>
+                <source src={song.audioUrl} type="audio/mpeg" />
+                Your browser does not support the audio element.
+              </audio>
+            )}
+
+            {song.lyrics ? (
+              <section className="bg-black/40 rounded-lg p-4 text-sm text-gray-200" aria-labelledby="song-lyrics-heading">
+                <h3 id="song-lyrics-heading" className="text-xs font-semibold uppercase tracking-wide text-purple-200 mb-2">Lyrics</h3>
+                <LyricsSections lyrics={song.lyrics} />
+              </section>
+            ) : song.descriptionPrompt && (
+              <section className="bg-black/40 rounded-lg p-4 text-sm text-gray-200" aria-labelledby="song-description-heading">
+                <h3 id="song-description-heading" className="text-xs font-semibold uppercase tracking-wide text-purple-200 mb-2">Description prompt</h3>
+                <p className="whitespace-pre-wrap">{song.descriptionPrompt}</p>
+              </section>
+            )}
+          </article>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import { useCallback, useRef, useState } from 'react';
+import type { AudioMatch, UseAudioFingerprintReturn } from '@/hooks/useAudioFingerprint';
+import type { Song } from '@/types/speech';
+import { AudioInputError } from '@/lib/audioErrors';
+import { getFingerprintScore } from '@/utils/fingerprint';
+import { FINGERPRINT_MIN_ALIGNED_HASHES } from '@/constants';
+
+const ACCEPTED_EXTENSIONS = ['mp3', 'wav', 'webm'];
+const ACCEPTED_TYPES = ['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/x-wav', 'audio/wave', 'audio/webm', 'video/webm'];
+
+/** Songs identified from an uploaded file */
+export interface AudioFileResults {
+  fileName: string;
+  songs: Song[];
+}
+
+interface AudioFileSearchProps {
+  /** Fingerprint state, shared with playback identification */
+  fingerprint: UseAudioFingerprintReturn;
+  onResults: (results: AudioFileResults) => void;
+  songsLoaded: number;
+}
+
+function isAcceptedFile(file: File): boolean {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return ACCEPTED_TYPES.includes(file.type) || ACCEPTED_EXTENSIONS.includes(extension);
+}
+
+// Ranked songs for the results list; matches too weak to mean anything are left out
+function toRankedSongs(matches: AudioMatch[]): Song[] {
+  return matches
+    .filter(({ match }) => match.alignedHashes >= FINGERPRINT_MIN_ALIGNED_HASHES / 2)
+    .map(({ song, match }) => ({
+      ...song,
+      matchScore: getFingerprintScore(match),
+      matchSpan: null,
+      matchField: undefined,
+      matchSection: undefined,
+    }));
+}
+
+export default function AudioFileSearch({ fingerprint, onResults, songsLoaded }: AudioFileSearchProps) {
+  const { fingerprintableCount, fingerprintedCount, isIndexing, indexProgress, buildIndex, identifyAudio } = fingerprint;
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [status, setStatus] = useState('');
+  const [error, setError] = useState('');
+  // A file that matched nothing, kept so it can be retried once more songs are fingerprinted
+  const [unmatchedFile, setUnmatchedFile] = useState<File | null>(null);
+  const isDisabled = songsLoaded === 0 || isProcessing || isIndexing;
+  const remaining = fingerprintableCount - fingerprintedCount;
+
+  // Fingerprints saved in earlier visits are restored on the way, so no index has to be built first
+  const identifyFile = useCallback(async (file: File) => {
+    setError('');
+    setStatus('');
+    setUnmatchedFile(null);
+    setIsProcessing(true);
+    try {
+      const songs = toRankedSongs(await identifyAudio(await file.arrayBuffer()));
+      if (songs.length === 0) {
+        setStatus(`No fingerprinted song matches "${file.name}".`);
+        setUnmatchedFile(file);
+      } else {
+        onResults({ fileName: file.name, songs });
+      }
+    } catch (err) {
+      console.error('Error identifying file:', err);
+      setError(err instanceof AudioInputError ? err.message : `Couldn't identify "${file.name}".`);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [identifyAudio, onResults]);
+
+  const handleChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so picking the same file again still fires a change
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    if (!isAcceptedFile(file)) {
+      setStatus('');
+      setUnmatchedFile(null);
+      setError(new AudioInputError('unsupported').message);
+      return;
+    }
+    identifyFile(file);
+  }, [identifyFile]);
+
+  const fingerprintAndRetry = useCallback(async () => {
+    if (!unmatchedFile) {
+      return;
+    }
+    setStatus('');
+    await buildIndex();
+    identifyFile(unmatchedFile);
+  }, [unmatchedFile, buildIndex, identifyFile]);
+
+  return (
+    <div className="mt-4">
+      <input
+        ref={inputRef}
+        id="audio-file-input"
+        type="file"
+        accept={[...ACCEPTED_EXTENSIONS.map((extension) => `.${extension}`), ...ACCEPTED_TYPES].join(',')}
+        onChange={handleChange}
+        disabled={isDisabled}
+        className="sr-only"
+        aria-describedby="audio-file-hint"
+      />
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={isDisabled}
+          className="px-4 py-2 rounded-lg bg-white/20 text-white text-sm font-semibold hover:bg-white/30 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-purple-300"
+        >
+          <span role="img" aria-label="Folder">📁</span> {isProcessing ? 'Identifying...' : 'Identify from audio file'}
+        </button>
+        <p id="audio-file-hint" className="text-xs text-gray-400">
+          An MP3, WAV or WebM of the song itself playing, such as a screen recording. Singing or humming into a
+          voice memo won&apos;t match; use voice search or &quot;Hum a tune&quot; for that
+        </p>
+      </div>
+      <div aria-live="polite">
+        {error && <p className="text-sm text-red-300 mt-2" role="alert">{error}</p>}
+        {status && <p className="text-sm text-gray-300 mt-2" role="status">{status}</p>}
+        {isIndexing && indexProgress ? (
+          <p className="text-sm text-gray-300 mt-2">
+            Fingerprinting {indexProgress.done} of {indexProgress.total}...
+          </p>
+        ) : (
+          unmatchedFile && remaining > 0 && (
+            <p className="text-sm text-gray-300 mt-2">
+              {remaining === 1 ? "1 song isn't" : `${remaining} songs aren't`} fingerprinted yet.{' '}
+              <button
+                type="button"
+                onClick={fingerprintAndRetry}
+                className="underline text-white hover:text-purple-200 focus:outline-none focus:ring-2 focus:ring-purple-300 rounded"
+              >
+                Fingerprint {remaining !== 1 ? 'them' : 'it'} and try again
+              </button>
+            </p>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
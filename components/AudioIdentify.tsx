@@ -0,0 +1,169 @@
+'use client';
+
+import { useEffect } from 'react';
+import type { UseAudioFingerprintReturn } from '@/hooks/useAudioFingerprint';
+import type { Song } from '@/types/speech';
+import { FINGERPRINT_CAPTURE_MS } from '@/constants';
+
+interface AudioIdentifyProps {
+  /** Fingerprint state, shared with file identification */
+  fingerprint: UseAudioFingerprintReturn;
+  onSongClick: (song: Song) => void;
+}
+
+function formatOffset(seconds: number): string {
+  const total = Math.floor(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+export default function AudioIdentify({ fingerprint, onSongClick }: AudioIdentifyProps) {
+  const {
+    fingerprintableCount,
+    fingerprintedCount,
+    isIndexing,
+    indexProgress,
+    failedCount,
+    prepare,
+    buildIndex,
+    cancelIndexing,
+    isRecording,
+    isMatching,
+    identify,
+    stopRecording,
+    matches,
+    winner,
+    hasIdentified,
+    error,
+    isSupported,
+  } = fingerprint;
+
+  // Opening this tab is the first sign fingerprints will be needed
+  useEffect(() => {
+    prepare();
+  }, [prepare]);
+
+  const remaining = fingerprintableCount - fingerprintedCount;
+  const canIdentify = isSupported && fingerprintedCount > 0 && !isMatching;
+
+  return (
+    <div className="space-y-4">
+      {/* Fingerprint index */}
+      <div className="bg-white/20 rounded-lg p-4" aria-live="polite">
+        <p className="text-sm text-white">
+          {fingerprintedCount} of {fingerprintableCount} song{fingerprintableCount !== 1 ? 's' : ''} ready for audio identification
+        </p>
+        {isIndexing && indexProgress && (
+          <div className="mt-2">
+            <progress
+              className="w-full h-2"
+              value={indexProgress.done}
+              max={Math.max(1, indexProgress.total)}
+              aria-label="Fingerprinting progress"
+            />
+            <p className="text-xs text-gray-300 mt-1">
+              Fingerprinting {indexProgress.done} of {indexProgress.total}...
+            </p>
+          </div>
+        )}
+        {!isIndexing && failedCount > 0 && (
+          <p className="text-xs text-yellow-300 mt-1">
+            {failedCount} song{failedCount !== 1 ? 's' : ''} couldn&apos;t be downloaded or decoded
+          </p>
+        )}
+        {isIndexing ? (
+          <button
+            type="button"
+            onClick={cancelIndexing}
+            className="mt-3 px-3 py-1 rounded bg-white/20 text-white text-sm hover:bg-white/30 focus:outline-none focus:ring-2 focus:ring-purple-300"
+          >
+            Stop fingerprinting
+          </button>
+        ) : (
+          remaining > 0 && (
+            <button
+              type="button"
+              onClick={buildIndex}
+              className="mt-3 px-3 py-1 rounded bg-purple-600 text-white text-sm hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-300"
+            >
+              Fingerprint {remaining} song{remaining !== 1 ? 's' : ''}
+            </button>
+          )
+        )}
+      </div>
+
+      <div className="text-center">
+        {isRecording ? (
+          <button
+            type="button"
+            onClick={stopRecording}
+            className="w-32 h-32 rounded-full bg-red-500 hover:bg-red-600 text-white font-bold shadow-lg transform transition-all hover:scale-105 animate-pulse focus:outline-none focus:ring-4 focus:ring-red-300"
+            aria-pressed="true"
+          >
+            <div className="flex flex-col items-center">
+              <span className="text-4xl mb-2" role="img" aria-label="Pause button">⏸️</span>
+              <span className="text-sm">Stop</span>
+            </div>
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={identify}
+            disabled={!canIdentify}
+            className="w-32 h-32 rounded-full bg-gradient-to-br from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white font-bold shadow-lg transform transition-all hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-4 focus:ring-purple-300"
+            aria-pressed="false"
+            aria-disabled={!canIdentify}
+          >
+            <div className="flex flex-col items-center">
+              <span className="text-4xl mb-2" role="img" aria-label="Speaker">🔊</span>
+              <span className="text-sm">{isMatching ? 'Matching...' : 'Identify'}</span>
+            </div>
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/20 border border-red-500 text-red-200 px-4 py-3 rounded-lg" role="alert">
+          <span className="sr-only">Error:</span>
+          {error}
+        </div>
+      )}
+
+      <div aria-live="polite" aria-atomic="true">
+        {winner && (
+          <div className="bg-green-500/20 border border-green-400 rounded-lg p-4">
+            <p className="text-sm text-green-200">
+              Identified from {winner.match.alignedHashes} matching landmarks, {formatOffset(winner.match.offsetSeconds)} into the song
+            </p>
+            <button
+              type="button"
+              onClick={() => onSongClick(winner.song)}
+              className="text-xl font-bold text-white underline hover:text-green-100 focus:outline-none focus:ring-2 focus:ring-green-300 rounded"
+            >
+              {winner.song.title}
+            </button>
+            {winner.song.artist && (
+              <p className="text-sm text-purple-200">by {winner.song.artistDisplayName || winner.song.artist}</p>
+            )}
+          </div>
+        )}
+        {hasIdentified && !winner && (
+          <p className="text-center text-gray-300 text-sm" role="status">
+            {matches.length > 0
+              ? `No clear match. Closest: ${matches[0].song.title}. Try again closer to the speaker.`
+              : 'No match. Only fingerprinted songs can be identified.'}
+          </p>
+        )}
+      </div>
+
+      {!error && !isRecording && !hasIdentified && (
+        <p className="text-center text-gray-300 text-sm">
+          {!isSupported
+            ? 'Audio recording is not supported in your browser.'
+            : fingerprintedCount === 0
+              ? 'Fingerprint your library first, then play a song near your microphone'
+              : `Play a song near your microphone and click Identify to listen for ${FINGERPRINT_CAPTURE_MS / 1000} seconds`}
+        </p>
+      )}
+    </div>
+  );
+}
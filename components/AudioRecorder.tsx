@@ -1,26 +1,30 @@
 'use client';
 
 import { useSpeechRecognition } from '@/hooks';
+import type { SpeechRecognitionAlternative } from '@/types/speech';
 
 interface AudioRecorderProps {
-  onSearch: (lyrics: string) => void;
+  onSearch: (lyrics: string, alternatives?: SpeechRecognitionAlternative[]) => void;
   isSearching: boolean;
   songsLoaded?: number;
+  /** BCP 47 language to recognize */
+  lang?: string;
 }
 
-export default function AudioRecorder({ onSearch, isSearching, songsLoaded = 0 }: AudioRecorderProps) {
+export default function AudioRecorder({ onSearch, isSearching, songsLoaded = 0, lang }: AudioRecorderProps) {
   const { 
     isRecording, 
     transcript, 
+    alternatives,
     error, 
     isSupported,
     startRecording, 
     stopRecording 
-  } = useSpeechRecognition();
+  } = useSpeechRecognition({ lang });
 
   const handleSearch = () => {
     if (transcript.trim()) {
-      onSearch(transcript.trim());
+      onSearch(transcript.trim(), alternatives);
     }
   };
 
@@ -69,6 +73,21 @@ export default function AudioRecorder({ onSearch, isSearching, songsLoaded = 0 }
           <div id="detected-lyrics" className="bg-black/30 text-white p-3 rounded min-h-[100px] whitespace-pre-wrap" role="log">
             {transcript}
           </div>
+          {alternatives.length > 1 && (
+            <div className="mt-3">
+              <p id="other-readings" className="text-gray-300 text-xs font-semibold mb-1">Also searching what it might have heard:</p>
+              <ul className="space-y-1" aria-labelledby="other-readings">
+                {alternatives.slice(1).map((alternative) => (
+                  <li key={alternative.transcript} className="flex gap-2 text-sm text-gray-300">
+                    <span className="flex-1 min-w-0 truncate">{alternative.transcript}</span>
+                    {alternative.confidence > 0 && (
+                      <span className="text-gray-400">{Math.round(alternative.confidence * 100)}%</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           <button
             onClick={handleSearch}
             disabled={isSearching}
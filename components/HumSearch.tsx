@@ -0,0 +1,162 @@
+'use client';
+
+import { useMelodySearch } from '@/hooks';
+import type { Song } from '@/types/speech';
+import { MELODY_CAPTURE_MS } from '@/constants';
+
+interface HumSearchProps {
+  songs: Song[];
+  onSongClick: (song: Song) => void;
+}
+
+function formatOffset(seconds: number): string {
+  const total = Math.floor(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+export default function HumSearch({ songs, onSongClick }: HumSearchProps) {
+  const {
+    extractableCount,
+    extractedCount,
+    isIndexing,
+    indexProgress,
+    failedCount,
+    buildIndex,
+    cancelIndexing,
+    isRecording,
+    isMatching,
+    search,
+    stopRecording,
+    matches,
+    hasSearched,
+    error,
+    isSupported,
+  } = useMelodySearch({ songs });
+  const remaining = extractableCount - extractedCount;
+  const canSearch = isSupported && extractedCount > 0 && !isMatching;
+
+  return (
+    <div className="space-y-4">
+      {/* Melody index */}
+      <div className="bg-white/20 rounded-lg p-4" aria-live="polite">
+        <p className="text-sm text-white">
+          {extractedCount} of {extractableCount} song{extractableCount !== 1 ? 's' : ''} ready for humming search
+        </p>
+        {isIndexing && indexProgress && (
+          <div className="mt-2">
+            <progress
+              className="w-full h-2"
+              value={indexProgress.done}
+              max={Math.max(1, indexProgress.total)}
+              aria-label="Melody extraction progress"
+            />
+            <p className="text-xs text-gray-300 mt-1">
+              Extracting melodies {indexProgress.done} of {indexProgress.total}...
+            </p>
+          </div>
+        )}
+        {!isIndexing && failedCount > 0 && (
+          <p className="text-xs text-yellow-300 mt-1">
+            {failedCount} song{failedCount !== 1 ? 's' : ''} couldn&apos;t be downloaded or decoded
+          </p>
+        )}
+        {isIndexing ? (
+          <button
+            type="button"
+            onClick={cancelIndexing}
+            className="mt-3 px-3 py-1 rounded bg-white/20 text-white text-sm hover:bg-white/30 focus:outline-none focus:ring-2 focus:ring-purple-300"
+          >
+            Stop extracting
+          </button>
+        ) : (
+          remaining > 0 && (
+            <button
+              type="button"
+              onClick={buildIndex}
+              className="mt-3 px-3 py-1 rounded bg-purple-600 text-white text-sm hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-300"
+            >
+              Extract {remaining} melod{remaining !== 1 ? 'ies' : 'y'}
+            </button>
+          )
+        )}
+      </div>
+
+      <div className="text-center">
+        {isRecording ? (
+          <button
+            type="button"
+            onClick={stopRecording}
+            className="w-32 h-32 rounded-full bg-red-500 hover:bg-red-600 text-white font-bold shadow-lg transform transition-all hover:scale-105 animate-pulse focus:outline-none focus:ring-4 focus:ring-red-300"
+            aria-pressed="true"
+          >
+            <div className="flex flex-col items-center">
+              <span className="text-4xl mb-2" role="img" aria-label="Pause button">⏸️</span>
+              <span className="text-sm">Done</span>
+            </div>
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={search}
+            disabled={!canSearch}
+            className="w-32 h-32 rounded-full bg-gradient-to-br from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white font-bold shadow-lg transform transition-all hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-4 focus:ring-purple-300"
+            aria-pressed="false"
+            aria-disabled={!canSearch}
+          >
+            <div className="flex flex-col items-center">
+              <span className="text-4xl mb-2" role="img" aria-label="Musical note">🎵</span>
+              <span className="text-sm">{isMatching ? 'Matching...' : 'Hum'}</span>
+            </div>
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/20 border border-red-500 text-red-200 px-4 py-3 rounded-lg" role="alert">
+          <span className="sr-only">Error:</span>
+          {error}
+        </div>
+      )}
+
+      <div aria-live="polite" aria-atomic="true">
+        {matches.length > 0 && (
+          <ol className="space-y-2" aria-label="Songs with a similar tune">
+            {matches.map(({ song, match }) => (
+              <li key={song.id} className="flex items-center justify-between gap-3 bg-white/10 rounded-lg px-4 py-2">
+                <div className="min-w-0">
+                  <button
+                    type="button"
+                    onClick={() => onSongClick(song)}
+                    className="font-semibold text-white underline truncate hover:text-purple-200 focus:outline-none focus:ring-2 focus:ring-purple-300 rounded"
+                  >
+                    {song.title}
+                  </button>
+                  <p className="text-xs text-gray-300">
+                    {song.artist && <>by {song.artistDisplayName || song.artist} &middot; </>}
+                    from {formatOffset(match.offsetSeconds)}
+                  </p>
+                </div>
+                <span className="text-sm text-green-300">{Math.round(match.score * 100)}%</span>
+              </li>
+            ))}
+          </ol>
+        )}
+        {hasSearched && matches.length === 0 && (
+          <p className="text-center text-gray-300 text-sm" role="status">
+            No song has a tune like that. Try humming a catchier part, such as the chorus.
+          </p>
+        )}
+      </div>
+
+      {!error && !isRecording && !hasSearched && (
+        <p className="text-center text-gray-300 text-sm">
+          {!isSupported
+            ? 'Audio recording is not supported in your browser.'
+            : extractedCount === 0
+              ? "Extract your library's melodies first, then hum a tune"
+              : `Click Hum and hum or sing the tune for up to ${MELODY_CAPTURE_MS / 1000} seconds, in any key`}
+        </p>
+      )}
+    </div>
+  );
+}
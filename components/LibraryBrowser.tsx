@@ -0,0 +1,169 @@
+'use client';
+
+import { memo, useEffect, useMemo } from 'react';
+import type { Song } from '@/types/speech';
+import { useVirtualList } from '@/hooks';
+import { getLibraryStats } from '@/utils/libraryStats';
+import { BROWSE_ROW_HEIGHT, BROWSE_TOP_TAGS, BROWSE_MONTHS_SHOWN } from '@/constants';
+
+interface LibraryBrowserProps {
+  /** Songs to list, already filtered and sorted */
+  songs: Song[];
+  /** The whole searchable library, which the stats and tag cloud describe */
+  librarySongs: Song[];
+  selectedTags: string[];
+  onTagToggle: (tag: string) => void;
+  onSongClick: (song: Song) => void;
+  /** Changing this (e.g. on a new filter or sort order) scrolls the list back to the top */
+  scrollResetKey?: string;
+}
+
+function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1).toLocaleDateString(undefined, { month: 'short', year: '2-digit' });
+}
+
+function formatHours(seconds: number): string {
+  const hours = seconds / 3600;
+  return hours >= 10 ? `${Math.round(hours)}h` : `${Math.round(hours * 10) / 10}h`;
+}
+
+interface LibraryStatsPanelProps {
+  librarySongs: Song[];
+  selectedTags: string[];
+  onTagToggle: (tag: string) => void;
+}
+
+const LibraryStatsPanel = memo(function LibraryStatsPanel({ librarySongs, selectedTags, onTagToggle }: LibraryStatsPanelProps) {
+  const stats = useMemo(() => getLibraryStats(librarySongs, BROWSE_TOP_TAGS), [librarySongs]);
+  const recentMonths = stats.songsPerMonth.slice(-BROWSE_MONTHS_SHOWN);
+  const busiestMonth = Math.max(1, ...recentMonths.map((m) => m.count));
+  const topTagCount = stats.topTags[0]?.count ?? 1;
+
+  return (
+    <div className="space-y-4">
+      <dl className="grid grid-cols-3 gap-3 text-center">
+        <div className="bg-black/20 rounded-lg p-3">
+          <dt className="text-xs text-gray-400">Songs</dt>
+          <dd className="text-2xl font-bold text-white">{stats.totalSongs.toLocaleString()}</dd>
+        </div>
+        <div className="bg-black/20 rounded-lg p-3">
+          <dt className="text-xs text-gray-400">Total length</dt>
+          <dd className="text-2xl font-bold text-white">{formatHours(stats.totalDuration)}</dd>
+        </div>
+        <div className="bg-black/20 rounded-lg p-3">
+          <dt className="text-xs text-gray-400">Top tag</dt>
+          <dd className="text-lg font-bold text-white truncate">{stats.topTags[0]?.tag ?? '—'}</dd>
+        </div>
+      </dl>
+
+      {recentMonths.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-200 mb-2">Songs per month</h3>
+          <ol className="flex items-end gap-1 h-24" aria-label="Songs created per month">
+            {recentMonths.map(({ month, count }) => (
+              <li key={month} className="flex-1 flex flex-col items-center justify-end h-full" aria-label={`${formatMonth(month)}: ${count} songs`}>
+                <span
+                  className="w-full bg-purple-400/70 rounded-t"
+                  style={{ height: `${(count / busiestMonth) * 100}%` }}
+                  aria-hidden="true"
+                />
+                <span className="text-[10px] text-gray-400 mt-1" aria-hidden="true">{formatMonth(month)}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {stats.topTags.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-200 mb-2">Tags</h3>
+          <ul className="flex flex-wrap gap-x-3 gap-y-1 items-baseline" aria-label="Tag cloud">
+            {stats.topTags.map(({ tag, count }) => {
+              const isSelected = selectedTags.includes(tag);
+              // Scale from 0.75rem for rare tags to 1.5rem for the most common one
+              const size = 0.75 + 0.75 * (count / topTagCount);
+              return (
+                <li key={tag}>
+                  <button
+                    type="button"
+                    onClick={() => onTagToggle(tag)}
+                    aria-pressed={isSelected}
+                    aria-label={`${tag}, ${count} songs`}
+                    style={{ fontSize: `${size}rem` }}
+                    className={`leading-tight rounded focus:outline-none focus:ring-2 focus:ring-purple-300 ${isSelected ? 'text-yellow-200 underline' : 'text-purple-200 hover:text-white'}`}
+                  >
+                    {tag}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default function LibraryBrowser({
+  songs,
+  librarySongs,
+  selectedTags,
+  onTagToggle,
+  onSongClick,
+  scrollResetKey,
+}: LibraryBrowserProps) {
+  const { containerRef, onScroll, totalHeight, startIndex, endIndex, offsetTop, scrollToTop } = useVirtualList({
+    count: songs.length,
+    rowHeight: BROWSE_ROW_HEIGHT,
+  });
+
+  useEffect(() => {
+    scrollToTop();
+  }, [scrollResetKey, scrollToTop]);
+
+  return (
+    <section className="bg-white/10 backdrop-blur-lg rounded-lg p-6 shadow-xl space-y-4" aria-labelledby="browse-heading">
+      <h2 id="browse-heading" className="text-2xl font-bold text-white">
+        <span role="img" aria-label="Books">📚</span> Browse Library
+      </h2>
+
+      <LibraryStatsPanel librarySongs={librarySongs} selectedTags={selectedTags} onTagToggle={onTagToggle} />
+
+      <p className="text-sm text-gray-300" role="status">
+        Showing {songs.length.toLocaleString()} of {librarySongs.length.toLocaleString()} songs
+      </p>
+
+      <div
+        ref={containerRef}
+        onScroll={onScroll}
+        className="h-96 overflow-y-auto rounded-lg bg-black/20"
+        tabIndex={0}
+        aria-label="Songs in library"
+      >
+        <div style={{ height: totalHeight, position: 'relative' }}>
+          <ul style={{ transform: `translateY(${offsetTop}px)` }}>
+            {songs.slice(startIndex, endIndex).map((song, index) => (
+              <li key={song.id} style={{ height: BROWSE_ROW_HEIGHT }} aria-posinset={startIndex + index + 1} aria-setsize={songs.length}>
+                <button
+                  type="button"
+                  onClick={() => onSongClick(song)}
+                  className="w-full h-full px-4 flex flex-col justify-center text-left border-b border-white/10 hover:bg-white/10 focus:outline-none focus:bg-white/10"
+                >
+                  <span className="text-white font-semibold truncate w-full">{song.title}</span>
+                  <span className="text-xs text-gray-400 truncate w-full">
+                    {[
+                      song.artistDisplayName || song.artist,
+                      song.createdAt && new Date(song.createdAt).toLocaleDateString(),
+                      song.tags,
+                    ].filter(Boolean).join(' • ')}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </section>
+  );
+}
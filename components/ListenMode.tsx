@@ -0,0 +1,131 @@
+'use client';
+
+import { useListenMode } from '@/hooks';
+import type { Song, SpeechRecognitionConstructor } from '@/types/speech';
+
+interface ListenModeProps {
+  songs: Song[];
+  onSongClick: (song: Song) => void;
+  /** Speech recognition implementation to use instead of the browser's */
+  recognitionConstructor?: SpeechRecognitionConstructor;
+  /** BCP 47 language to recognize */
+  lang?: string;
+}
+
+function formatConfidence(confidence: number): string {
+  return `${Math.round(confidence * 100)}%`;
+}
+
+export default function ListenMode({ songs, onSongClick, recognitionConstructor, lang }: ListenModeProps) {
+  const {
+    isListening,
+    transcript,
+    candidates,
+    winner,
+    error,
+    startListening,
+    stopListening,
+  } = useListenMode({ songs, recognitionConstructor, lang });
+  const isDisabled = !!error || songs.length === 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="text-center">
+        {isListening ? (
+          <button
+            type="button"
+            onClick={stopListening}
+            className="w-32 h-32 rounded-full bg-red-500 hover:bg-red-600 text-white font-bold shadow-lg transform transition-all hover:scale-105 animate-pulse focus:outline-none focus:ring-4 focus:ring-red-300"
+            aria-pressed="true"
+          >
+            <div className="flex flex-col items-center">
+              <span className="text-4xl mb-2" role="img" aria-label="Pause button">⏸️</span>
+              <span className="text-sm">Stop</span>
+            </div>
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={startListening}
+            disabled={isDisabled}
+            className="w-32 h-32 rounded-full bg-gradient-to-br from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white font-bold shadow-lg transform transition-all hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-4 focus:ring-purple-300"
+            aria-pressed="false"
+            aria-disabled={isDisabled}
+          >
+            <div className="flex flex-col items-center">
+              <span className="text-4xl mb-2" role="img" aria-label="Ear">👂</span>
+              <span className="text-sm">{winner ? 'Listen again' : 'Listen'}</span>
+            </div>
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/20 border border-red-500 text-red-200 px-4 py-3 rounded-lg" role="alert">
+          <span className="sr-only">Error:</span>
+          {error}
+        </div>
+      )}
+
+      <div aria-live="polite" aria-atomic="true">
+        {winner && (
+          <div className="bg-green-500/20 border border-green-400 rounded-lg p-4">
+            <p className="text-sm text-green-200">Identified with {formatConfidence(winner.confidence)} confidence</p>
+            <button
+              type="button"
+              onClick={() => onSongClick(winner.song)}
+              className="text-xl font-bold text-white underline hover:text-green-100 focus:outline-none focus:ring-2 focus:ring-green-300 rounded"
+            >
+              {winner.song.title}
+            </button>
+            {winner.song.artist && (
+              <p className="text-sm text-purple-200">by {winner.song.artistDisplayName || winner.song.artist}</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {transcript && (
+        <div className="bg-white/20 rounded-lg p-4">
+          <p className="text-white text-sm font-bold mb-2">Hearing:</p>
+          <div className="bg-black/30 text-white p-3 rounded whitespace-pre-wrap" role="log">
+            {transcript}
+          </div>
+        </div>
+      )}
+
+      {candidates.length > 0 && !winner && (
+        <div className="bg-white/20 rounded-lg p-4">
+          <p id="listen-candidates-heading" className="text-white text-sm font-bold mb-2">
+            {isListening ? 'Could be...' : 'Best guesses'}
+          </p>
+          <ol className="space-y-2" aria-labelledby="listen-candidates-heading">
+            {candidates.map(({ song, confidence }) => (
+              <li key={song.id}>
+                <button
+                  type="button"
+                  onClick={() => onSongClick(song)}
+                  className="w-full flex items-center gap-3 text-left rounded hover:bg-white/10 focus:outline-none focus:ring-2 focus:ring-purple-300 px-2 py-1"
+                >
+                  <span className="flex-1 min-w-0 truncate text-white">{song.title}</span>
+                  <span className="w-24 h-2 bg-black/30 rounded-full overflow-hidden" aria-hidden="true">
+                    <span className="block h-full bg-green-400 transition-all" style={{ width: formatConfidence(confidence) }} />
+                  </span>
+                  <span className="w-10 text-right text-sm text-green-300">{formatConfidence(confidence)}</span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {!error && !isListening && !transcript && (
+        <p className="text-center text-gray-300 text-sm">
+          {songs.length === 0
+            ? 'Waiting for songs to load...'
+            : 'Start singing and matches will narrow down as you go; listening stops once one song clearly wins'}
+        </p>
+      )}
+    </div>
+  );
+}
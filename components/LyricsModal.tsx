@@ -1,13 +1,40 @@
 'use client';
 
-import type { Song } from '@/types/speech';
+import Link from 'next/link';
+import type { Song, SongTextField } from '@/types/speech';
+import { normalizeLineBreaks } from '@/utils/lyrics';
+import LyricsSections from '@/components/LyricsSections';
 
 interface LyricsModalProps {
   song: Song;
   onClose: () => void;
 }
 
+interface SongTextSection {
+  field: SongTextField | 'style';
+  label: string;
+  text: string;
+}
+
+// Lyrics, description and style as separate labelled sections, the matched text first
+function getSections(song: Song): SongTextSection[] {
+  const sections: SongTextSection[] = [];
+  if (song.lyrics) {
+    sections.push({ field: 'lyrics', label: 'Lyrics', text: song.lyrics });
+  }
+  if (song.descriptionPrompt) {
+    sections.push({ field: 'description', label: 'Description prompt', text: song.descriptionPrompt });
+  }
+  if (song.stylePrompt) {
+    sections.push({ field: 'style', label: 'Style', text: song.stylePrompt });
+  }
+  return sections.sort((a, b) => Number(b.field === song.matchField) - Number(a.field === song.matchField));
+}
+
 export default function LyricsModal({ song, onClose }: LyricsModalProps) {
+  const sections = getSections(song);
+  const subtitle = song.lyrics ? 'Full lyrics' : song.descriptionPrompt ? 'No lyrics — showing the description prompt' : 'No lyrics';
+
   return (
     <div
       className="fixed top-0 left-0 w-screen h-screen bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4"
@@ -23,7 +50,12 @@ export default function LyricsModal({ song, onClose }: LyricsModalProps) {
         <div className="flex items-start justify-between gap-4 mb-4">
           <div>
             <h3 id="modal-title" className="text-2xl font-bold">{song.title}</h3>
-            <p className="text-sm text-gray-400">Full lyrics</p>
+            <p className="text-sm text-gray-400">
+              {subtitle} •{' '}
+              <Link href={`/song/${encodeURIComponent(song.id)}`} className="underline hover:text-white focus:outline-none focus:ring-2 focus:ring-purple-300 rounded">
+                Open song page
+              </Link>
+            </p>
           </div>
           <button
             type="button"
@@ -33,10 +65,20 @@ export default function LyricsModal({ song, onClose }: LyricsModalProps) {
             <span aria-hidden="true">✕</span> Close
           </button>
         </div>
-        <div className="bg-black/40 rounded-lg p-4 overflow-y-auto whitespace-pre-wrap text-sm text-gray-200" role="document">
-          {(song.lyrics || '')
-            .replace(/\r\n/g, '\n')
-            .replace(/\/n/g, '\n')}
+        <div className="bg-black/40 rounded-lg p-4 overflow-y-auto text-sm text-gray-200 space-y-4" role="document">
+          {sections.map((section) => (
+            <section key={section.field} aria-label={section.label}>
+              <h4 className="text-xs font-semibold uppercase tracking-wide text-purple-200 mb-1">
+                {section.label}
+                {section.field === song.matchField && <span className="text-green-300 normal-case"> (matched)</span>}
+              </h4>
+              {section.field === 'lyrics' ? (
+                <LyricsSections lyrics={section.text} matchSection={song.matchSection} />
+              ) : (
+                <p className="whitespace-pre-wrap">{normalizeLineBreaks(section.text)}</p>
+              )}
+            </section>
+          ))}
         </div>
       </div>
     </div>
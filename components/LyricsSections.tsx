@@ -0,0 +1,30 @@
+import { parseLyrics } from '@/utils/lyrics';
+
+interface LyricsSectionsProps {
+  lyrics: string;
+  /** Label of the section a search matched, marked in its heading */
+  matchSection?: string;
+}
+
+/**
+ * Lyrics split at their [Verse]/[Chorus] markers, each under its own heading
+ */
+export default function LyricsSections({ lyrics, matchSection }: LyricsSectionsProps) {
+  return (
+    <div className="space-y-3">
+      {parseLyrics(lyrics).map((section, index) => (
+        <div key={index}>
+          {section.label && (
+            <h5 className="text-xs font-semibold text-gray-400">
+              {section.label}
+              {section.label === matchSection && <span className="text-green-300"> (matched)</span>}
+            </h5>
+          )}
+          {section.lines.map((line, lineIndex) => (
+            <p key={lineIndex}>{line}</p>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
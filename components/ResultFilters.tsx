@@ -0,0 +1,160 @@
+'use client';
+
+import { useCallback } from 'react';
+import type { SongFilters, SongSortOrder } from '@/types/search';
+import { hasActiveFilters } from '@/utils/songFilters';
+
+interface ResultFiltersProps {
+  filters: SongFilters;
+  onFiltersChange: (filters: SongFilters) => void;
+  sortOrder: SongSortOrder;
+  onSortOrderChange: (order: SongSortOrder) => void;
+  availableTags: string[];
+  /** Browsing without a query: there is no match score, and tags are picked from the tag cloud instead */
+  isBrowsing?: boolean;
+}
+
+const SORT_OPTIONS: Array<{ value: SongSortOrder; label: string }> = [
+  { value: 'score', label: 'Best match' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'title', label: 'Title' },
+];
+
+// Minutes typed by the user to seconds, or undefined when the field is cleared
+function parseMinutes(value: string): number | undefined {
+  const minutes = parseFloat(value);
+  return Number.isFinite(minutes) && minutes >= 0 ? Math.round(minutes * 60) : undefined;
+}
+
+function formatMinutes(seconds: number | undefined): string {
+  return seconds === undefined ? '' : String(Math.round(seconds / 60));
+}
+
+const inputClass =
+  'px-2 py-1 rounded bg-white/20 text-white text-sm border border-white/30 focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+export default function ResultFilters({
+  filters,
+  onFiltersChange,
+  sortOrder,
+  onSortOrderChange,
+  availableTags,
+  isBrowsing = false,
+}: ResultFiltersProps) {
+  const selectedTags = filters.tags ?? [];
+
+  const update = useCallback((changes: Partial<SongFilters>) => {
+    onFiltersChange({ ...filters, ...changes });
+  }, [filters, onFiltersChange]);
+
+  const toggleTag = useCallback((tag: string) => {
+    update({ tags: selectedTags.includes(tag) ? selectedTags.filter((t) => t !== tag) : [...selectedTags, tag] });
+  }, [selectedTags, update]);
+
+  return (
+    <section className="bg-white/10 backdrop-blur-lg rounded-lg p-4 mb-6 shadow-xl space-y-3" aria-labelledby="filters-heading">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 id="filters-heading" className="text-white text-sm font-bold">
+          {isBrowsing ? 'Filter & Sort Library' : 'Filter & Sort Results'}
+        </h2>
+        <div className="flex items-center gap-2">
+          <label htmlFor="sort-order" className="text-sm text-gray-200">Sort by</label>
+          <select
+            id="sort-order"
+            value={sortOrder}
+            onChange={(e) => onSortOrderChange(e.target.value as SongSortOrder)}
+            className={inputClass}
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value} className="text-black">
+                {isBrowsing && option.value === 'score' ? 'Library order' : option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {!isBrowsing && availableTags.length > 0 && (
+        <ul className="flex flex-wrap gap-2" aria-label="Filter by tag">
+          {availableTags.map((tag) => {
+            const isSelected = selectedTags.includes(tag);
+            return (
+              <li key={tag}>
+                <button
+                  type="button"
+                  onClick={() => toggleTag(tag)}
+                  aria-pressed={isSelected}
+                  className={`text-xs px-2 py-1 rounded-full border focus:outline-none focus:ring-2 focus:ring-purple-300 ${isSelected ? 'bg-purple-500 border-purple-400 text-white' : 'border-white/30 text-gray-200 hover:bg-white/10'}`}
+                >
+                  {tag}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-4 text-sm text-gray-200">
+        <fieldset className="flex items-center gap-2">
+          <legend className="sr-only">Creation date range</legend>
+          <label htmlFor="filter-created-from">Created from</label>
+          <input
+            id="filter-created-from"
+            type="date"
+            value={filters.createdFrom ?? ''}
+            max={filters.createdTo}
+            onChange={(e) => update({ createdFrom: e.target.value || undefined })}
+            className={inputClass}
+          />
+          <label htmlFor="filter-created-to">to</label>
+          <input
+            id="filter-created-to"
+            type="date"
+            value={filters.createdTo ?? ''}
+            min={filters.createdFrom}
+            onChange={(e) => update({ createdTo: e.target.value || undefined })}
+            className={inputClass}
+          />
+        </fieldset>
+        <fieldset className="flex items-center gap-2">
+          <legend className="sr-only">Duration range in minutes</legend>
+          <label htmlFor="filter-min-duration">Length</label>
+          <input
+            id="filter-min-duration"
+            type="number"
+            min={0}
+            step={1}
+            placeholder="min"
+            value={formatMinutes(filters.minDuration)}
+            onChange={(e) => update({ minDuration: parseMinutes(e.target.value) })}
+            className={`${inputClass} w-20`}
+            aria-label="Minimum length in minutes"
+          />
+          <span aria-hidden="true">–</span>
+          <input
+            id="filter-max-duration"
+            type="number"
+            min={0}
+            step={1}
+            placeholder="max"
+            value={formatMinutes(filters.maxDuration)}
+            onChange={(e) => update({ maxDuration: parseMinutes(e.target.value) })}
+            className={`${inputClass} w-20`}
+            aria-label="Maximum length in minutes"
+          />
+          <span>min</span>
+        </fieldset>
+        {hasActiveFilters(filters) && (
+          <button
+            type="button"
+            onClick={() => onFiltersChange({})}
+            className="text-purple-200 hover:text-white underline focus:outline-none focus:ring-2 focus:ring-purple-300 rounded"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+    </section>
+  );
+}
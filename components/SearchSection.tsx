@@ -1,28 +1,200 @@
 'use client';
 
+import { useCallback, useEffect, useState } from 'react';
 import TextSearch from '@/components/TextSearch';
+import AudioRecorder from '@/components/AudioRecorder';
+import ListenMode from '@/components/ListenMode';
+import AudioIdentify from '@/components/AudioIdentify';
+import HumSearch from '@/components/HumSearch';
+import AudioFileSearch, { type AudioFileResults } from '@/components/AudioFileSearch';
+import SpeechLanguageSelect from '@/components/SpeechLanguageSelect';
 import SongResults from '@/components/SongResults';
 import type { Song } from '@/types/speech';
-import { useSunoSongs, useSongSearch, useModal } from '@/hooks';
-import { DEFAULT_SUNO_USERNAME } from '@/constants';
+import { useModal, useAudioFingerprint } from '@/hooks';
+import { useSongContext } from '@/contexts';
 import LyricsModal from '@/components/LyricsModal';
+import ResultFilters from '@/components/ResultFilters';
+import LibraryBrowser from '@/components/LibraryBrowser';
+import { hasActiveFilters } from '@/utils/songFilters';
+import { SPEECH_RECOGNITION_LANG, SPEECH_RECOGNITION_LANGUAGES } from '@/constants';
+
+const VOICE_MODE_LABELS = {
+  record: 'Record then search',
+  listen: 'Listen mode',
+  identify: 'Identify playback',
+  hum: 'Hum a tune',
+} as const;
+
+// The listed language closest to the browser's, matching the region first and then just the language
+function getPreferredSpeechLanguage(): string {
+  const preferred = navigator.language.toLowerCase();
+  const exact = SPEECH_RECOGNITION_LANGUAGES.find(({ code }) => code.toLowerCase() === preferred);
+  const sameLanguage = SPEECH_RECOGNITION_LANGUAGES.find(({ code }) => code.split('-')[0] === preferred.split('-')[0]);
+  return (exact ?? sameLanguage)?.code ?? SPEECH_RECOGNITION_LANG;
+}
 
 export default function SearchSection() {
-  const { songs: allSongs } = useSunoSongs(DEFAULT_SUNO_USERNAME);
-  const { searchQuery, searchResults, isPending, setSearchQuery } = useSongSearch(allSongs);
+  const {
+    songs: allSongs,
+    searchableSongs,
+    browseSongs,
+    searchQuery,
+    searchResults,
+    isSearching,
+    setSearchQuery,
+    searchDescriptions,
+    setSearchDescriptions,
+    filters,
+    setFilters,
+    sortOrder,
+    setSortOrder,
+    availableTags,
+    totalResults,
+    page,
+    pageCount,
+    setPage,
+  } = useSongContext();
   const lyricsModal = useModal<Song>();
+  const [voiceMode, setVoiceMode] = useState<keyof typeof VOICE_MODE_LABELS>('record');
+  const [speechLang, setSpeechLang] = useState(SPEECH_RECOGNITION_LANG);
+  const [fileResults, setFileResults] = useState<AudioFileResults | null>(null);
+  // Shared by playback and file identification so both use one worker and index, started on first use
+  const fingerprint = useAudioFingerprint({ songs: searchableSongs });
+
+  // A new query replaces results identified from a file
+  useEffect(() => {
+    setFileResults(null);
+  }, [searchQuery]);
+
+  // navigator is only available after hydration
+  useEffect(() => {
+    setSpeechLang(getPreferredSpeechLanguage());
+  }, []);
+  const isBrowsing = !searchQuery.trim();
+
+  const toggleTagFilter = useCallback((tag: string) => {
+    const tags = filters.tags ?? [];
+    setFilters({ ...filters, tags: tags.includes(tag) ? tags.filter((t) => t !== tag) : [...tags, tag] });
+  }, [filters, setFilters]);
 
   return (
     <>
       {/* Search */}
       <section className="bg-white/10 backdrop-blur-lg rounded-lg p-6 mb-6 shadow-xl" aria-labelledby="search-heading">
         <h2 id="search-heading" className="sr-only">Search Songs by Lyrics</h2>
-        <TextSearch onSearch={setSearchQuery} isSearching={isPending} songsLoaded={allSongs.length} />
+        <TextSearch
+          query={searchQuery}
+          onSearch={setSearchQuery}
+          isSearching={isSearching}
+          songsLoaded={allSongs.length}
+          searchDescriptions={searchDescriptions}
+          onSearchDescriptionsChange={setSearchDescriptions}
+        />
+        <AudioFileSearch
+          fingerprint={fingerprint}
+          onResults={setFileResults}
+          songsLoaded={searchableSongs.length}
+        />
+      </section>
+
+      {/* Voice Search */}
+      <section className="bg-white/10 backdrop-blur-lg rounded-lg p-6 mb-6 shadow-xl" aria-labelledby="voice-search-heading">
+        <h2 id="voice-search-heading" className="sr-only">Search Songs by Singing</h2>
+        <div className="flex justify-center gap-2 mb-4" role="group" aria-label="Voice search mode">
+          {(['record', 'listen', 'identify', 'hum'] as const).map((mode) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => setVoiceMode(mode)}
+              aria-pressed={voiceMode === mode}
+              className={`px-3 py-1 rounded-full text-sm focus:outline-none focus:ring-2 focus:ring-purple-300 ${voiceMode === mode ? 'bg-purple-600 text-white' : 'bg-white/20 text-gray-200 hover:bg-white/30'}`}
+            >
+              {VOICE_MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+        {(voiceMode === 'record' || voiceMode === 'listen') && (
+          <div className="mb-4">
+            <SpeechLanguageSelect value={speechLang} onChange={setSpeechLang} />
+          </div>
+        )}
+        {voiceMode === 'record' && (
+          <AudioRecorder onSearch={setSearchQuery} isSearching={isSearching} songsLoaded={allSongs.length} lang={speechLang} />
+        )}
+        {voiceMode === 'listen' && (
+          <ListenMode songs={searchableSongs} onSongClick={lyricsModal.open} lang={speechLang} />
+        )}
+        {voiceMode === 'identify' && (
+          <AudioIdentify fingerprint={fingerprint} onSongClick={lyricsModal.open} />
+        )}
+        {voiceMode === 'hum' && (
+          <HumSearch songs={searchableSongs} onSongClick={lyricsModal.open} />
+        )}
       </section>
 
+      {/* Filters stay up even when they hide everything, so they can be undone */}
+      {searchableSongs.length > 0 && (
+        <ResultFilters
+          filters={filters}
+          onFiltersChange={setFilters}
+          sortOrder={sortOrder}
+          onSortOrderChange={setSortOrder}
+          availableTags={availableTags}
+          isBrowsing={isBrowsing}
+        />
+      )}
+
+      {/* Browse the library until there is a query */}
+      {isBrowsing && !fileResults && searchableSongs.length > 0 && (
+        <LibraryBrowser
+          songs={browseSongs}
+          librarySongs={searchableSongs}
+          selectedTags={filters.tags ?? []}
+          onTagToggle={toggleTagFilter}
+          onSongClick={lyricsModal.open}
+          scrollResetKey={JSON.stringify([filters, sortOrder])}
+        />
+      )}
+
+      {/* Results identified from an uploaded file stand in for query results until the query changes */}
+      {fileResults && (
+        <>
+          <div className="flex items-center justify-between gap-2 mb-2 text-sm text-gray-300">
+            <p role="status">Identified from {fileResults.fileName}</p>
+            <button
+              type="button"
+              onClick={() => setFileResults(null)}
+              className="underline hover:text-white focus:outline-none focus:ring-2 focus:ring-purple-300 rounded"
+            >
+              Clear
+            </button>
+          </div>
+          <SongResults
+            results={fileResults.songs}
+            query=""
+            onLyricsClick={lyricsModal.open}
+            total={fileResults.songs.length}
+            page={0}
+            pageCount={1}
+            onPageChange={() => undefined}
+          />
+        </>
+      )}
+
       {/* Results */}
-      {searchResults.length > 0 && (
-        <SongResults results={searchResults} query={searchQuery} onLyricsClick={lyricsModal.open} />
+      {!fileResults && searchResults.length > 0 && (
+        <SongResults
+          results={searchResults}
+          query={searchQuery}
+          onLyricsClick={lyricsModal.open}
+          total={totalResults}
+          page={page}
+          pageCount={pageCount}
+          onPageChange={setPage}
+        />
+      )}
+      {searchQuery.trim() && !isSearching && searchResults.length === 0 && hasActiveFilters(filters) && (
+        <p className="text-center text-gray-300 mb-6" role="status">No matches pass the current filters.</p>
       )}
 
       {/* Modal */}
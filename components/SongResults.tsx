@@ -1,31 +1,40 @@
 'use client';
 
 import Image from 'next/image';
+import Link from 'next/link';
 import { memo, useCallback, useMemo } from 'react';
-import type { Song } from '@/types/speech';
+import type { Song, MatchSpan } from '@/types/speech';
 import { LYRICS_SNIPPET_WINDOW_SIZE } from '@/constants';
+import { normalizeLineBreaks } from '@/utils/lyrics';
+import { normalizeWord, segmentWord } from '@/utils/normalize';
 
-function normalizeWord(word: string): string {
-  return word.toLowerCase().replace(/[^\w]/g, '');
+// Normalized words of a text, with unspaced scripts split into words as the search does
+function getNormalizedWords(text: string): string[] {
+  return text
+    .split(/\s+/)
+    .flatMap((word) => segmentWord(word))
+    .map((word) => normalizeWord(word))
+    .filter(Boolean);
 }
 
 function renderHighlightedToken(
   word: string,
   index: number,
-  querySet: Set<string>
+  querySet: Set<string>,
+  inSpan: boolean
 ) {
-  const match = word.match(/^(\W*)(\w+)(\W*)$/);
+  const match = word.match(/^([^\p{L}\p{N}]*)([\p{L}\p{N}].*?)([^\p{L}\p{N}]*)$/u);
+  const spanClass = inSpan ? 'text-white underline decoration-green-400/70 underline-offset-4' : undefined;
 
   if (!match) {
-    return <span key={`${word}-${index}`}>{word} </span>;
+    return <span key={`${word}-${index}`} className={spanClass}>{word} </span>;
   }
 
   const [, leading, core, trailing] = match;
-  const normalized = normalizeWord(core);
-  const isMatch = normalized && querySet.has(normalized);
+  const isMatch = getNormalizedWords(core).some((normalized) => querySet.has(normalized));
 
   return (
-    <span key={`${word}-${index}`}>
+    <span key={`${word}-${index}`} className={spanClass}>
       {leading}
       <span className={isMatch ? 'bg-yellow-400/40 text-yellow-100 px-1 rounded' : undefined}>
         {core}
@@ -35,16 +44,47 @@ function renderHighlightedToken(
   );
 }
 
-function getSnippetWords(lyrics: string, query: string, windowSize: number) {
-  const words = lyrics.split(/\s+/).filter(Boolean);
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+// Date, length, play stats and model, skipping whatever the clip didn't provide
+function getSongDetails(song: Song): string[] {
+  const details: string[] = [];
+  if (song.createdAt) {
+    details.push(new Date(song.createdAt).toLocaleDateString());
+  }
+  if (song.duration !== undefined) {
+    details.push(formatDuration(song.duration));
+  }
+  if (song.playCount !== undefined) {
+    details.push(`${song.playCount.toLocaleString()} play${song.playCount !== 1 ? 's' : ''}`);
+  }
+  if (song.likeCount !== undefined) {
+    details.push(`${song.likeCount.toLocaleString()} like${song.likeCount !== 1 ? 's' : ''}`);
+  }
+  if (song.modelVersion) {
+    details.push(song.modelVersion);
+  }
+  return details;
+}
+
+function getSnippetWords(lyrics: string, query: string, windowSize: number, span?: MatchSpan | null) {
+  // Split the same way the search does so match spans line up
+  const words = normalizeLineBreaks(lyrics).split(/\s+/).filter(Boolean);
   if (words.length === 0) {
     return { words: [], start: 0, end: 0 };
   }
 
-  const queryWords = query
-    .split(/\s+/)
-    .map((word) => normalizeWord(word))
-    .filter(Boolean);
+  // Center the snippet on the span that produced the score when we have one
+  if (span && span.start < words.length) {
+    const center = Math.floor((span.start + Math.min(span.end, words.length)) / 2);
+    const start = Math.max(0, Math.min(center - Math.floor(windowSize / 2), words.length - windowSize));
+    return { words, start, end: Math.min(start + windowSize, words.length) };
+  }
+
+  const queryWords = getNormalizedWords(query);
 
   if (queryWords.length === 0) {
     return { words, start: 0, end: Math.min(windowSize, words.length) };
@@ -55,7 +95,7 @@ function getSnippetWords(lyrics: string, query: string, windowSize: number) {
 
   for (let i = 0; i <= words.length - windowSize; i++) {
     const windowWords = words.slice(i, i + windowSize);
-    const normalizedWindow = windowWords.map((w) => normalizeWord(w));
+    const normalizedWindow = windowWords.flatMap((w) => getNormalizedWords(w));
     const score = queryWords.reduce((sum, qWord) => {
       return sum + (normalizedWindow.includes(qWord) ? 1 : 0);
     }, 0);
@@ -76,17 +116,18 @@ interface SongResultItemProps {
 }
 
 const SongResultItem = memo(function SongResultItem({ song, query, onLyricsClick }: SongResultItemProps) {
-  const snippetData = useMemo(() => getSnippetWords(song.lyrics, query, LYRICS_SNIPPET_WINDOW_SIZE), [song.lyrics, query]);
-  
-  const querySet = useMemo(() => 
-    new Set(
-      query
-        .split(/\s+/)
-        .map((word) => normalizeWord(word))
-        .filter(Boolean)
-    ), 
-    [query]
+  // Show the text the match came from; a description only stands in when it matched
+  const isDescriptionMatch = song.matchField === 'description';
+  const snippetText = isDescriptionMatch ? song.descriptionPrompt || '' : song.lyrics;
+
+  const snippetData = useMemo(
+    () => getSnippetWords(snippetText, query, LYRICS_SNIPPET_WINDOW_SIZE, song.matchSpan),
+    [snippetText, query, song.matchSpan]
   );
+  
+  const querySet = useMemo(() => new Set(getNormalizedWords(query)), [query]);
+
+  const songDetails = useMemo(() => getSongDetails(song), [song]);
 
   const handleClick = useCallback(() => {
     onLyricsClick(song);
@@ -116,10 +157,31 @@ const SongResultItem = memo(function SongResultItem({ song, query, onLyricsClick
             <span className="text-sm text-green-300 font-semibold">
               {Math.round(song.matchScore * 100)}% Match
             </span>
+            {song.matchSection && (
+              <span className="text-xs text-green-200 bg-green-500/20 rounded-full px-2 py-0.5">
+                matched in {song.matchSection}
+              </span>
+            )}
+            {song.artist && (
+              <>
+                <span className="text-gray-400" aria-hidden="true">•</span>
+                <span className="text-sm text-purple-200">by {song.artistDisplayName || song.artist}</span>
+              </>
+            )}
             <span className="text-gray-400" aria-hidden="true">•</span>
-            <span className="text-sm text-gray-300">ID: {song.id}</span>
+            <Link
+              href={`/song/${encodeURIComponent(song.id)}`}
+              className="text-sm text-gray-300 underline hover:text-white focus:outline-none focus:ring-2 focus:ring-purple-300 rounded"
+              aria-label={`Song page for ${song.title}`}
+            >
+              Song page
+            </Link>
           </div>
 
+          {songDetails.length > 0 && (
+            <p className="text-xs text-gray-400 mb-2">{songDetails.join(' • ')}</p>
+          )}
+
           {song.tags && (
             <ul className="flex flex-wrap gap-2 mb-3" aria-label="Song tags">
               {song.tags.split(',').map((tag, index) => (
@@ -133,29 +195,42 @@ const SongResultItem = memo(function SongResultItem({ song, query, onLyricsClick
             </ul>
           )}
           
-          {song.lyrics && (
+          {snippetText && (
             <button
               type="button"
               onClick={handleClick}
               className="bg-black/30 rounded p-3 mt-2 text-left w-full hover:bg-black/40 transition-colors focus:outline-none focus:ring-2 focus:ring-purple-300"
             >
+              {isDescriptionMatch && (
+                <p className="text-xs font-semibold uppercase tracking-wide text-purple-200 mb-1">Matched description prompt</p>
+              )}
               <p className="text-sm text-gray-300">
                 {(() => {
                   const { words, start, end } = snippetData;
                   const snippet = words.slice(start, end);
                   const hasLeading = start > 0;
                   const hasTrailing = end < words.length;
+                  const span = song.matchSpan;
 
                   return (
                     <>
                       {hasLeading && <span className="text-gray-500" aria-hidden="true">... </span>}
-                      {snippet.map((word, index) => renderHighlightedToken(word, index, querySet))}
+                      {snippet.map((word, index) =>
+                        renderHighlightedToken(word, index, querySet, !!span && start + index >= span.start && start + index < span.end)
+                      )}
                       {hasTrailing && <span className="text-gray-500" aria-hidden="true">...</span>}
                     </>
                   );
                 })()}
               </p>
-              <p className="text-xs text-gray-400 mt-2">Click to view full lyrics</p>
+              {song.matchSpan && (
+                <p className="sr-only">
+                  Best matching passage: {snippetData.words.slice(song.matchSpan.start, song.matchSpan.end).join(' ')}
+                </p>
+              )}
+              <p className="text-xs text-gray-400 mt-2">
+                Click to view full {isDescriptionMatch ? 'description' : 'lyrics'}
+              </p>
             </button>
           )}
           
@@ -171,13 +246,51 @@ const SongResultItem = memo(function SongResultItem({ song, query, onLyricsClick
   );
 });
 
+interface PaginationProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+}
+
+function Pagination({ page, pageCount, onPageChange }: PaginationProps) {
+  const buttonClass =
+    'px-3 py-1 rounded bg-white/20 text-white text-sm hover:bg-white/30 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-purple-300';
+
+  return (
+    <nav className="flex items-center justify-center gap-3 mt-4" aria-label="Search results pages">
+      <button type="button" onClick={() => onPageChange(page - 1)} disabled={page === 0} className={buttonClass}>
+        Previous
+      </button>
+      <span className="text-sm text-gray-300" aria-current="page">
+        Page {page + 1} of {pageCount}
+      </span>
+      <button type="button" onClick={() => onPageChange(page + 1)} disabled={page >= pageCount - 1} className={buttonClass}>
+        Next
+      </button>
+    </nav>
+  );
+}
+
 interface SongResultsProps {
   results: Song[];
   query: string;
   onLyricsClick: (song: Song) => void;
+  /** Matches across all pages */
+  total: number;
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
 }
 
-const SongResults = memo(function SongResults({ results, query, onLyricsClick }: SongResultsProps) {
+const SongResults = memo(function SongResults({
+  results,
+  query,
+  onLyricsClick,
+  total,
+  page,
+  pageCount,
+  onPageChange,
+}: SongResultsProps) {
   if (results.length === 0) {
     return null;
   }
@@ -185,7 +298,7 @@ const SongResults = memo(function SongResults({ results, query, onLyricsClick }:
   return (
     <section className="bg-white/10 backdrop-blur-lg rounded-lg p-6 shadow-xl" aria-labelledby="results-heading">
       <h2 id="results-heading" className="text-2xl font-bold text-white mb-4">
-        <span role="img" aria-label="Musical notes">🎵</span> Found {results.length} {results.length === 1 ? 'Match' : 'Matches'}
+        <span role="img" aria-label="Musical notes">🎵</span> Found {total} {total === 1 ? 'Match' : 'Matches'}
       </h2>
       
       <div className="space-y-4" role="feed" aria-busy="false">
@@ -193,6 +306,8 @@ const SongResults = memo(function SongResults({ results, query, onLyricsClick }:
           <SongResultItem key={song.id} song={song} query={query} onLyricsClick={onLyricsClick} />
         ))}
       </div>
+
+      {pageCount > 1 && <Pagination page={page} pageCount={pageCount} onPageChange={onPageChange} />}
     </section>
   );
 });
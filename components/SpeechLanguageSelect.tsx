@@ -0,0 +1,30 @@
+'use client';
+
+import { SPEECH_RECOGNITION_LANGUAGES } from '@/constants';
+
+interface SpeechLanguageSelectProps {
+  value: string;
+  onChange: (lang: string) => void;
+}
+
+export default function SpeechLanguageSelect({ value, onChange }: SpeechLanguageSelectProps) {
+  return (
+    <div className="flex items-center justify-center gap-2">
+      <label htmlFor="speech-language" className="text-sm text-gray-300">
+        Singing in
+      </label>
+      <select
+        id="speech-language"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="px-2 py-1 rounded bg-white/20 text-white text-sm border border-white/30 focus:outline-none focus:ring-2 focus:ring-purple-300"
+      >
+        {SPEECH_RECOGNITION_LANGUAGES.map(({ code, label }) => (
+          <option key={code} value={code} className="text-black" lang={code}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
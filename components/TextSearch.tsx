@@ -1,25 +1,72 @@
 'use client';
 
-import { useCallback, useRef } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { parseSearchQuery } from '@/utils/searchQuery';
+import { SearchQueryError } from '@/lib/searchQueryErrors';
 
 interface TextSearchProps {
+  /** Current search query, mirrored into the text area when set from elsewhere (a shared link, voice search) */
+  query: string;
   onSearch: (lyrics: string) => void;
   isSearching: boolean;
   songsLoaded: number;
+  searchDescriptions: boolean;
+  onSearchDescriptionsChange: (enabled: boolean) => void;
 }
 
-function TextSearchComponent({ onSearch, isSearching, songsLoaded }: TextSearchProps) {
+// Returns the query's syntax error, if any
+function getQueryError(query: string): SearchQueryError | null {
+  try {
+    parseSearchQuery(query);
+    return null;
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return error;
+    }
+    throw error;
+  }
+}
+
+function TextSearchComponent({ query, onSearch, isSearching, songsLoaded, searchDescriptions, onSearchDescriptionsChange }: TextSearchProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const formRef = useRef<HTMLFormElement>(null);
+  const [queryError, setQueryError] = useState<SearchQueryError | null>(null);
+
+  // Queries set from elsewhere are searched as plain text if they don't parse, but still flagged
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (textarea && textarea.value.trim() !== query.trim()) {
+      textarea.value = query;
+      setQueryError(getQueryError(query));
+    }
+  }, [query]);
 
   const handleSubmit = useCallback((e: React.FormEvent) => {
     e.preventDefault();
-    const lyrics = textareaRef.current?.value.trim();
-    if (lyrics && songsLoaded > 0) {
-      onSearch(lyrics);
+    const textarea = textareaRef.current;
+    const lyrics = textarea?.value.trim();
+    if (!textarea || !lyrics || songsLoaded === 0) {
+      return;
+    }
+
+    // A query that doesn't parse is still searched as plain text, so pasted lyrics with a stray
+    // quote find their song; the mistake is flagged in case the syntax was meant
+    const error = getQueryError(textarea.value);
+    setQueryError(error);
+    if (error) {
+      textarea.focus();
+      textarea.setSelectionRange(error.start, error.end);
     }
+    onSearch(lyrics);
   }, [songsLoaded, onSearch]);
 
+  // Errors only appear on submit, so an opening quote isn't flagged mid-phrase, then clear as soon as they're fixed
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    if (queryError) {
+      setQueryError(getQueryError(e.target.value));
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
       e.preventDefault();
@@ -36,15 +83,35 @@ function TextSearchComponent({ onSearch, isSearching, songsLoaded }: TextSearchP
         <textarea
           ref={textareaRef}
           id="lyrics-input"
+          onChange={handleChange}
           onKeyDown={handleKeyDown}
           disabled={songsLoaded === 0}
           placeholder={songsLoaded === 0 ? "Loading songs..." : "Type or paste song lyrics here..."}
           rows={6}
           className="w-full px-4 py-3 rounded-lg bg-white/20 text-white placeholder-gray-400 border border-white/30 focus:outline-none focus:ring-2 focus:ring-purple-500 resize-none disabled:opacity-50 disabled:cursor-not-allowed"
-          aria-describedby="lyrics-hint"
+          aria-describedby={queryError ? 'lyrics-error lyrics-hint lyrics-syntax' : 'lyrics-hint lyrics-syntax'}
+          aria-invalid={queryError ? true : undefined}
         />
         <p id="lyrics-hint" className="sr-only">Enter or paste the lyrics of a song you want to find. Press Ctrl+Enter or use the search button to start searching.</p>
+        {queryError && (
+          <p id="lyrics-error" className="mt-2 text-sm text-red-300" role="alert">
+            {queryError.message} Until it&apos;s fixed, the query is searched as plain text.
+          </p>
+        )}
+        <p id="lyrics-syntax" className="mt-2 text-xs text-gray-400">
+          Refine with <code>&quot;exact phrase&quot;</code>, <code>-exclude</code>, <code>tag:synthwave</code>,{' '}
+          <code>title:night</code>, <code>before:2024-06-01</code> or <code>after:2024-06-01</code>
+        </p>
       </div>
+      <label className="flex items-center gap-2 text-sm text-gray-200">
+        <input
+          type="checkbox"
+          checked={searchDescriptions}
+          onChange={(e) => onSearchDescriptionsChange(e.target.checked)}
+          className="w-4 h-4 accent-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-300"
+        />
+        Also search description prompts
+      </label>
       <button
         type="submit"
         disabled={isSearching || songsLoaded === 0}
@@ -1,44 +1,138 @@
 'use client';
 
-import { useState } from 'react';
-import { DEFAULT_SUNO_USERNAME } from '@/constants';
-import { useSunoSongs } from '@/hooks';
+import { useState, useCallback } from 'react';
+import { useSongContext } from '@/contexts';
+import { isValidSunoUsername } from '@/lib/suno';
+import type { ArtistLibrary } from '@/types/speech';
+
+interface ArtistRowProps {
+  library: ArtistLibrary;
+  isHidden: boolean;
+  onToggle: (username: string) => void;
+  onRemove: (username: string) => void;
+}
+
+function ArtistRow({ library, isHidden, onToggle, onRemove }: ArtistRowProps) {
+  const { username, songs, isLoading, error, lastSync } = library;
+
+  return (
+    <li className="flex items-center gap-3 bg-white/10 rounded-lg px-3 py-2">
+      <button
+        type="button"
+        onClick={() => onToggle(username)}
+        aria-pressed={!isHidden}
+        aria-label={`${isHidden ? 'Include' : 'Exclude'} ${username} in search`}
+        className={`w-5 h-5 rounded border flex-shrink-0 focus:outline-none focus:ring-2 focus:ring-purple-300 ${isHidden ? 'border-white/40' : 'bg-purple-500 border-purple-400'}`}
+      >
+        {!isHidden && <span aria-hidden="true" className="text-xs text-white">✓</span>}
+      </button>
+      <div className="flex-1 min-w-0">
+        <p className={`text-sm font-semibold truncate ${isHidden ? 'text-gray-400 line-through' : 'text-white'}`}>
+          {username}
+        </p>
+        <p className="text-xs" aria-live="polite">
+          {isLoading && (
+            <span className="text-gray-400">
+              Loading songs...{songs.length > 0 && ` (${songs.length} so far)`}
+            </span>
+          )}
+          {!isLoading && !error && (
+            <span className="text-green-400">
+              <span role="img" aria-label="Checkmark">✓</span> Loaded {songs.length} song{songs.length !== 1 ? 's' : ''}
+              {lastSync && !lastSync.initial && (lastSync.added.length > 0 || lastSync.removed.length > 0) && (
+                <span className="text-gray-400">
+                  {' '}({lastSync.added.length} new, {lastSync.removed.length} removed since last visit)
+                </span>
+              )}
+              {lastSync && lastSync.malformed.length > 0 && (
+                <span className="text-yellow-300">
+                  {' '}• {lastSync.malformed.length} clip{lastSync.malformed.length !== 1 ? 's' : ''} with incomplete data
+                </span>
+              )}
+            </span>
+          )}
+          {error && !isLoading && (
+            <span className="text-red-300" role="alert">{error}</span>
+          )}
+        </p>
+      </div>
+      <button
+        type="button"
+        onClick={() => onRemove(username)}
+        className="text-gray-300 hover:text-white focus:outline-none focus:ring-2 focus:ring-white rounded px-2 py-1 text-sm"
+        aria-label={`Remove ${username}`}
+      >
+        <span aria-hidden="true">✕</span>
+      </button>
+    </li>
+  );
+}
 
 export default function UsernameInput() {
-  const [sunoUsername, setSunoUsername] = useState(DEFAULT_SUNO_USERNAME);
-  
-  const { songs: allSongs, isLoading: isLoadingSongs, loadSongs } = useSunoSongs(DEFAULT_SUNO_USERNAME);
+  const { usernames, libraries, hiddenArtists, addUsername, removeUsername, toggleArtist } = useSongContext();
+  const [input, setInput] = useState('');
+  const [inputError, setInputError] = useState<string | null>(null);
 
-  const handleUsernameChange = (newUsername: string) => {
-    setSunoUsername(newUsername);
-    loadSongs(newUsername);
-  };
+  const handleSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    const username = input.trim().toLowerCase();
+    if (!username) {
+      return;
+    }
+    if (!isValidSunoUsername(username)) {
+      setInputError('Usernames may only contain letters, numbers, dots, dashes and underscores.');
+      return;
+    }
+    addUsername(username);
+    setInput('');
+    setInputError(null);
+  }, [input, addUsername]);
 
   return (
     <section className="bg-white/10 backdrop-blur-lg rounded-lg p-6 mb-6 shadow-xl" aria-labelledby="username-heading">
-      <h2 id="username-heading" className="sr-only">Configure Suno Username</h2>
-      <label htmlFor="suno-username-input" className="block text-white text-sm font-bold mb-2">
-        Suno Username
-      </label>
-      <input
-        id="suno-username-input"
-        type="text"
-        value={sunoUsername}
-        onChange={(e) => handleUsernameChange(e.target.value)}
-        placeholder="Enter Suno.com username"
-        className="w-full px-4 py-2 rounded-lg bg-white/20 text-white placeholder-gray-400 border border-white/30 focus:outline-none focus:ring-2 focus:ring-purple-500"
-        aria-describedby="username-status"
-      />
+      <h2 id="username-heading" className="sr-only">Configure Suno Usernames</h2>
+      <form onSubmit={handleSubmit} noValidate>
+        <label htmlFor="suno-username-input" className="block text-white text-sm font-bold mb-2">
+          Suno Usernames
+        </label>
+        <div className="flex gap-2">
+          <input
+            id="suno-username-input"
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Add a Suno.com username"
+            className="flex-1 px-4 py-2 rounded-lg bg-white/20 text-white placeholder-gray-400 border border-white/30 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            aria-describedby="username-status"
+            aria-invalid={!!inputError}
+          />
+          <button
+            type="submit"
+            disabled={!input.trim()}
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-purple-300"
+          >
+            Add
+          </button>
+        </div>
+      </form>
       <div id="username-status" aria-live="polite" aria-atomic="true">
-        {isLoadingSongs && (
-          <p className="text-sm text-gray-400 mt-2">Loading songs...</p>
-        )}
-        {allSongs.length > 0 && !isLoadingSongs && (
-          <p className="text-sm text-green-400 mt-2">
-            <span role="img" aria-label="Checkmark">✓</span> Loaded {allSongs.length} song{allSongs.length !== 1 ? 's' : ''}
-          </p>
+        {inputError && (
+          <p className="text-sm text-red-300 mt-2" role="alert">{inputError}</p>
         )}
       </div>
+      {usernames.length > 0 && (
+        <ul className="mt-4 space-y-2" aria-label="Loaded artists">
+          {usernames.map((username) => (
+            <ArtistRow
+              key={username}
+              library={libraries[username] ?? { username, songs: [], isLoading: true, error: null, lastSync: null }}
+              isHidden={hiddenArtists.includes(username)}
+              onToggle={toggleArtist}
+              onRemove={removeUsername}
+            />
+          ))}
+        </ul>
+      )}
     </section>
   );
 }
@@ -0,0 +1,49 @@
+/**
+ * Audio Fingerprinting Constants
+ */
+
+/** Sample rate (Hz) audio is resampled to before fingerprinting; keeps content up to ~5.5 kHz */
+export const FINGERPRINT_SAMPLE_RATE = 11025;
+
+/** FFT window length in samples (~93 ms at the fingerprint sample rate) */
+export const FINGERPRINT_FFT_SIZE = 1024;
+
+/** Samples between consecutive FFT frames (~46 ms) */
+export const FINGERPRINT_HOP_SIZE = 512;
+
+/** Frequency bands (FFT bin ranges, end exclusive) that each contribute at most one peak per frame */
+export const FINGERPRINT_BANDS: ReadonlyArray<readonly [number, number]> = [
+  [5, 10],
+  [10, 20],
+  [20, 40],
+  [40, 80],
+  [80, 160],
+  [160, 511],
+];
+
+/** Quietest peak (dB, after loudness normalization) that can anchor a landmark */
+export const FINGERPRINT_MIN_PEAK_DB = -10;
+
+/** Targets paired with each anchor peak */
+export const FINGERPRINT_FAN_OUT = 5;
+
+/** Furthest ahead (in frames) a target peak may be; must fit in the hash's 6-bit time delta */
+export const FINGERPRINT_TARGET_ZONE_FRAMES = 63;
+
+/** Bump when the hashing changes so stored fingerprints are recomputed */
+export const FINGERPRINT_VERSION = 1;
+
+/** Hashes that must agree on one time offset before a song counts as identified */
+export const FINGERPRINT_MIN_ALIGNED_HASHES = 10;
+
+/** How many times more aligned hashes the best song needs than the runner-up */
+export const FINGERPRINT_MIN_MARGIN_RATIO = 2;
+
+/** Matches reported per identification */
+export const FINGERPRINT_MAX_MATCHES = 5;
+
+/** Length of a microphone capture, in ms */
+export const FINGERPRINT_CAPTURE_MS = 8 * 1000;
+
+/** Largest audio file (in bytes) fetched for fingerprinting */
+export const FINGERPRINT_MAX_AUDIO_BYTES = 30 * 1024 * 1024;
@@ -3,23 +3,127 @@
  */
 
 // Suno API constants
-export { SUNO_API_BASE_URL, MAX_CONSECUTIVE_EMPTY_PAGES } from './suno';
+export {
+  SUNO_API_BASE_URL,
+  MAX_CONSECUTIVE_EMPTY_PAGES,
+  FULL_SYNC_INTERVAL_MS,
+  SUNO_PROXY_PATH,
+  SUNO_AUDIO_BASE_URL,
+  SUNO_AUDIO_PROXY_PATH,
+  SUNO_FETCH_MODE,
+  SUNO_USERNAME_PATTERN,
+  SUNO_CLIP_ID_PATTERN,
+  MAX_SUNO_PAGE,
+  SUNO_REQUEST_TIMEOUT_MS,
+  SUNO_MAX_RETRIES,
+  SUNO_RETRY_BASE_DELAY_MS,
+  SUNO_RETRY_MAX_DELAY_MS,
+} from './suno';
+
+// Suno proxy route constants
+export {
+  PROXY_CACHE_TTL_MS,
+  PROXY_CACHE_MAX_ENTRIES,
+  PROXY_UPSTREAM_TIMEOUT_MS,
+  PROXY_RATE_LIMIT_WINDOW_MS,
+  PROXY_RATE_LIMIT_MAX_REQUESTS,
+  PROXY_TRUSTED_HOPS,
+  PROXY_SHARED_CLIENT_KEY,
+} from './proxy';
+
+// Persistent storage constants
+export {
+  LIBRARY_DB_NAME,
+  LIBRARY_DB_VERSION,
+  LIBRARY_STORE_NAME,
+  FINGERPRINT_STORE_NAME,
+  MELODY_STORE_NAME,
+} from './storage';
 
 // Default values
 export { DEFAULT_SUNO_USERNAME } from './defaults';
 
-// Timing constants
-export { USERNAME_DEBOUNCE_MS } from './timing';
-
 // Search constants
-export { MAX_SEARCH_RESULTS, EXACT_MATCH_SCORE, ALL_WORDS_MATCH_SCORE } from './search';
+export {
+  MAX_SEARCH_RESULTS,
+  EXACT_MATCH_SCORE,
+  ALL_WORDS_MATCH_SCORE,
+  FUZZY_MATCHING_ENABLED,
+  FUZZY_STEM_MATCH_WEIGHT,
+  FUZZY_PHONETIC_MATCH_WEIGHT,
+  FUZZY_TYPO_MATCH_WEIGHT,
+  PHRASE_MAX_GAP,
+  PHRASE_PROXIMITY_WEIGHT,
+  CHORUS_BOOST_ENABLED,
+  CHORUS_MATCH_BOOST,
+} from './search';
 
 // UI constants
-export { LYRICS_SNIPPET_WINDOW_SIZE } from './ui';
+export {
+  LYRICS_SNIPPET_WINDOW_SIZE,
+  MAX_FILTER_TAGS,
+  BROWSE_ROW_HEIGHT,
+  BROWSE_TOP_TAGS,
+  BROWSE_MONTHS_SHOWN,
+} from './ui';
+
+// Listen mode constants
+export {
+  LISTEN_MAX_CANDIDATES,
+  LISTEN_SCORE_SMOOTHING,
+  LISTEN_MIN_WORDS,
+  LISTEN_MIN_SCORE,
+  LISTEN_MIN_MARGIN,
+  LISTEN_STABLE_UPDATES,
+} from './listen';
 
 // Speech recognition constants
 export { 
   SPEECH_RECOGNITION_LANG, 
+  SPEECH_RECOGNITION_LANGUAGES,
   SPEECH_RECOGNITION_CONTINUOUS, 
-  SPEECH_RECOGNITION_INTERIM_RESULTS 
+  SPEECH_RECOGNITION_INTERIM_RESULTS,
+  SPEECH_RECOGNITION_MAX_ALTERNATIVES,
+  LOCAL_SPEECH_MODEL,
+  LOCAL_SPEECH_MODEL_DTYPE,
+  LOCAL_SPEECH_SAMPLE_RATE,
+  LOCAL_SPEECH_TIMESLICE_MS,
+  LOCAL_SPEECH_UPDATE_MS,
 } from './speech';
+
+// Audio fingerprinting constants
+export {
+  FINGERPRINT_SAMPLE_RATE,
+  FINGERPRINT_FFT_SIZE,
+  FINGERPRINT_HOP_SIZE,
+  FINGERPRINT_BANDS,
+  FINGERPRINT_MIN_PEAK_DB,
+  FINGERPRINT_FAN_OUT,
+  FINGERPRINT_TARGET_ZONE_FRAMES,
+  FINGERPRINT_VERSION,
+  FINGERPRINT_MIN_ALIGNED_HASHES,
+  FINGERPRINT_MIN_MARGIN_RATIO,
+  FINGERPRINT_MAX_MATCHES,
+  FINGERPRINT_CAPTURE_MS,
+  FINGERPRINT_MAX_AUDIO_BYTES,
+} from './fingerprint';
+
+// Query-by-humming constants
+export {
+  MELODY_SAMPLE_RATE,
+  MELODY_FRAME_SIZE,
+  MELODY_HOP_SIZE,
+  MELODY_MIN_HZ,
+  MELODY_MAX_HZ,
+  MELODY_YIN_THRESHOLD,
+  MELODY_SILENCE_RATIO,
+  MELODY_NOTE_TOLERANCE,
+  MELODY_MIN_NOTE_FRAMES,
+  MELODY_MIN_QUERY_NOTES,
+  MELODY_INTERVAL_COST_CAP,
+  MELODY_WARP_PENALTY,
+  MELODY_MAX_DISTANCE,
+  MELODY_MAX_MATCHES,
+  MELODY_VERSION,
+  MELODY_CAPTURE_MS,
+} from './melody';
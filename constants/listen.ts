@@ -0,0 +1,21 @@
+/**
+ * Listen Mode Constants
+ */
+
+/** Number of candidate songs shown while listening */
+export const LISTEN_MAX_CANDIDATES = 5;
+
+/** Weight of the newest score in each candidate's running average (0-1); lower is steadier */
+export const LISTEN_SCORE_SMOOTHING = 0.5;
+
+/** Words the transcript needs before a song can be declared the winner */
+export const LISTEN_MIN_WORDS = 4;
+
+/** Smoothed score the leading song needs to win */
+export const LISTEN_MIN_SCORE = 0.75;
+
+/** Smoothed-score lead over the runner-up needed to win */
+export const LISTEN_MIN_MARGIN = 0.15;
+
+/** Consecutive result updates the same song must lead for before listening stops */
+export const LISTEN_STABLE_UPDATES = 3;
@@ -0,0 +1,51 @@
+/**
+ * Query-by-Humming Constants
+ */
+
+/** Sample rate (Hz) audio is resampled to before pitch tracking; plenty for sung and hummed pitches */
+export const MELODY_SAMPLE_RATE = 8000;
+
+/** Pitch analysis window in samples (64 ms); must span two periods of the lowest pitch */
+export const MELODY_FRAME_SIZE = 512;
+
+/** Samples between consecutive pitch estimates (32 ms) */
+export const MELODY_HOP_SIZE = 256;
+
+/** Lowest pitch tracked (Hz) */
+export const MELODY_MIN_HZ = 80;
+
+/** Highest pitch tracked (Hz) */
+export const MELODY_MAX_HZ = 1000;
+
+/** YIN aperiodicity threshold; frames with no dip below it are unvoiced */
+export const MELODY_YIN_THRESHOLD = 0.15;
+
+/** Frames quieter than this share of the recording's RMS level are unvoiced */
+export const MELODY_SILENCE_RATIO = 0.25;
+
+/** Semitones a frame may drift from its note before starting a new one */
+export const MELODY_NOTE_TOLERANCE = 0.7;
+
+/** Voiced frames a note needs to count (~100 ms) */
+export const MELODY_MIN_NOTE_FRAMES = 3;
+
+/** Notes a hummed query needs before it's matched */
+export const MELODY_MIN_QUERY_NOTES = 6;
+
+/** Largest per-interval cost in semitones, so one wrong note can't sink a match */
+export const MELODY_INTERVAL_COST_CAP = 4;
+
+/** Extra cost of stretching or skipping a note when aligning contours */
+export const MELODY_WARP_PENALTY = 0.5;
+
+/** Highest average cost per query interval (semitones) that still counts as a match */
+export const MELODY_MAX_DISTANCE = 2;
+
+/** Matches reported per search */
+export const MELODY_MAX_MATCHES = 5;
+
+/** Bump when pitch tracking or note segmentation changes so stored melodies are recomputed */
+export const MELODY_VERSION = 1;
+
+/** Length of a hummed capture, in ms */
+export const MELODY_CAPTURE_MS = 12 * 1000;
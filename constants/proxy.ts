@@ -0,0 +1,24 @@
+/**
+ * Suno Proxy Route Constants
+ */
+
+/** How long (in ms) the proxy caches an upstream profile page */
+export const PROXY_CACHE_TTL_MS = 60 * 1000;
+
+/** How long (in ms) the proxy waits on Suno before answering 504; under the client's own timeout, so it sees why */
+export const PROXY_UPSTREAM_TIMEOUT_MS = 10 * 1000;
+
+/** Maximum number of cached profile pages kept by the proxy */
+export const PROXY_CACHE_MAX_ENTRIES = 500;
+
+/** Length (in ms) of the per-IP rate limiting window */
+export const PROXY_RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+/** Requests allowed per IP within one rate limiting window */
+export const PROXY_RATE_LIMIT_MAX_REQUESTS = 120;
+
+/** Reverse proxies assumed in front of the server (e.g. a platform edge) unless TRUSTED_PROXY_HOPS says otherwise */
+export const PROXY_TRUSTED_HOPS = 1;
+
+/** Rate limit key shared by every client whose address can't be trusted */
+export const PROXY_SHARED_CLIENT_KEY = 'shared';
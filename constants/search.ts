@@ -2,7 +2,7 @@
  * Search Algorithm Constants
  */
 
-/** Maximum number of search results to display */
+/** Number of search results shown per page */
 export const MAX_SEARCH_RESULTS = 10;
 
 /** Similarity score for exact substring match */
@@ -10,3 +10,27 @@ export const EXACT_MATCH_SCORE = 1.0;
 
 /** Similarity score when all query words are found in lyrics */
 export const ALL_WORDS_MATCH_SCORE = 0.9;
+
+/** Whether lyric search tolerates typos, contractions and mishearings by default */
+export const FUZZY_MATCHING_ENABLED = true;
+
+/** Per-word credit when a query word matches a lyric word after stemming */
+export const FUZZY_STEM_MATCH_WEIGHT = 0.95;
+
+/** Per-word credit when a query word only sounds like a lyric word */
+export const FUZZY_PHONETIC_MATCH_WEIGHT = 0.85;
+
+/** Maximum per-word credit for a match within the allowed edit distance */
+export const FUZZY_TYPO_MATCH_WEIGHT = 0.8;
+
+/** Extra lyric words allowed between consecutive query words for them to count as a phrase */
+export const PHRASE_MAX_GAP = 3;
+
+/** Share of the gap between the overlap score and an exact match earned by in-order, contiguous hits */
+export const PHRASE_PROXIMITY_WEIGHT = 0.8;
+
+/** Whether matches in a chorus or hook are ranked above the same match elsewhere by default */
+export const CHORUS_BOOST_ENABLED = true;
+
+/** Share of the remaining gap to an exact match added when the best passage is in a chorus or hook */
+export const CHORUS_MATCH_BOOST = 0.25;
@@ -5,8 +5,42 @@
 /** Default language for speech recognition */
 export const SPEECH_RECOGNITION_LANG = 'en-US';
 
+/** Languages offered in the voice search language picker, as BCP 47 tags with native names */
+export const SPEECH_RECOGNITION_LANGUAGES: ReadonlyArray<{ code: string; label: string }> = [
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'es-ES', label: 'Español' },
+  { code: 'fr-FR', label: 'Français' },
+  { code: 'de-DE', label: 'Deutsch' },
+  { code: 'it-IT', label: 'Italiano' },
+  { code: 'pt-BR', label: 'Português (Brasil)' },
+  { code: 'ru-RU', label: 'Русский' },
+  { code: 'hi-IN', label: 'हिन्दी' },
+  { code: 'ja-JP', label: '日本語' },
+  { code: 'ko-KR', label: '한국어' },
+  { code: 'zh-CN', label: '中文 (普通话)' },
+];
+
 /** Enable continuous speech recognition */
 export const SPEECH_RECOGNITION_CONTINUOUS = true;
 
 /** Enable interim results during speech recognition */
 export const SPEECH_RECOGNITION_INTERIM_RESULTS = true;
+
+/** N-best transcripts requested per result; voice searches are scored against all of them */
+export const SPEECH_RECOGNITION_MAX_ALTERNATIVES = 3;
+
+/** Whisper model the offline recognizer runs when the browser has no speech recognition */
+export const LOCAL_SPEECH_MODEL = 'onnx-community/whisper-tiny';
+
+/** Weight precision for the offline model; 8-bit keeps the download small and CPU inference quick */
+export const LOCAL_SPEECH_MODEL_DTYPE = 'q8';
+
+/** Sample rate Whisper expects */
+export const LOCAL_SPEECH_SAMPLE_RATE = 16000;
+
+/** How often the recorder hands over captured audio */
+export const LOCAL_SPEECH_TIMESLICE_MS = 1000;
+
+/** How often the recording so far is re-transcribed for an interim transcript */
+export const LOCAL_SPEECH_UPDATE_MS = 4000;
@@ -0,0 +1,18 @@
+/**
+ * Persistent Storage Constants
+ */
+
+/** IndexedDB database holding cached song libraries */
+export const LIBRARY_DB_NAME = 'shazuno';
+
+/** IndexedDB schema version; bump when object stores or the stored Song shape change */
+export const LIBRARY_DB_VERSION = 4;
+
+/** Object store for song libraries, keyed by normalized username */
+export const LIBRARY_STORE_NAME = 'libraries';
+
+/** Object store for audio fingerprints, keyed by song id */
+export const FINGERPRINT_STORE_NAME = 'fingerprints';
+
+/** Object store for hummable melody contours, keyed by song id */
+export const MELODY_STORE_NAME = 'melodies';
@@ -7,3 +7,43 @@ export const SUNO_API_BASE_URL = 'https://studio-api.prod.suno.com';
 
 /** Maximum number of consecutive empty pages before stopping pagination */
 export const MAX_CONSECUTIVE_EMPTY_PAGES = 10;
+
+/** How often (in ms) a library refresh walks every page to detect deleted clips */
+export const FULL_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/** Path of the same-origin proxy route for Suno profile pages */
+export const SUNO_PROXY_PATH = '/api/profiles';
+
+/** CDN serving a clip's audio as `<base>/<clip id>.mp3` */
+export const SUNO_AUDIO_BASE_URL = 'https://cdn1.suno.ai';
+
+/** Path of the same-origin proxy route for clip audio */
+export const SUNO_AUDIO_PROXY_PATH = '/api/audio';
+
+/**
+ * How the browser reaches Suno: through the proxy route (default) or directly.
+ * Set NEXT_PUBLIC_SUNO_FETCH_MODE=direct to bypass the proxy.
+ */
+export const SUNO_FETCH_MODE: 'direct' | 'proxy' =
+  process.env.NEXT_PUBLIC_SUNO_FETCH_MODE === 'direct' ? 'direct' : 'proxy';
+
+/** Allowed characters and length for a Suno username */
+export const SUNO_USERNAME_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
+/** Allowed characters and length for a Suno clip id (UUIDs in practice) */
+export const SUNO_CLIP_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+/** Highest profile page number the proxy will forward */
+export const MAX_SUNO_PAGE = 1000;
+
+/** Per-attempt timeout (in ms) for a Suno profile page request */
+export const SUNO_REQUEST_TIMEOUT_MS = 15 * 1000;
+
+/** Retries after the first attempt for rate-limited, 5xx or network failures */
+export const SUNO_MAX_RETRIES = 3;
+
+/** Base delay (in ms) for exponential backoff between retries */
+export const SUNO_RETRY_BASE_DELAY_MS = 500;
+
+/** Upper bound (in ms) on any single retry delay, including Retry-After */
+export const SUNO_RETRY_MAX_DELAY_MS = 10 * 1000;
@@ -1,6 +0,0 @@
-/**
- * Timing and Debounce Constants
- */
-
-/** Debounce delay (in ms) for username input before fetching songs */
-export const USERNAME_DEBOUNCE_MS = 500;
@@ -4,3 +4,15 @@
 
 /** Number of words to show in lyrics snippet preview */
 export const LYRICS_SNIPPET_WINDOW_SIZE = 40;
+
+/** Number of the library's most common tags offered as result filters */
+export const MAX_FILTER_TAGS = 24;
+
+/** Height in pixels of a row in the virtualized library list */
+export const BROWSE_ROW_HEIGHT = 64;
+
+/** Number of tags in the browse view's tag cloud */
+export const BROWSE_TOP_TAGS = 40;
+
+/** Number of most recent months charted in the browse view */
+export const BROWSE_MONTHS_SHOWN = 12;
@@ -1,57 +1,155 @@
 'use client';
 
-import { createContext, useContext, useState, useCallback, ReactNode } from 'react';
-import type { Song } from '@/types/speech';
-import { useSunoSongs } from '@/hooks/useSunoSongs';
+import { createContext, useContext, useState, useCallback, useEffect, useMemo, ReactNode } from 'react';
+import type { Song, ArtistLibrary, SpeechRecognitionAlternative } from '@/types/speech';
+import type { SongFilters, SongSortOrder } from '@/types/search';
+import { useSunoLibraries } from '@/hooks/useSunoLibraries';
 import { useSongSearch } from '@/hooks/useSongSearch';
-import { DEFAULT_SUNO_USERNAME } from '@/constants';
+import { getTagCounts } from '@/utils/songFilters';
+import { buildSearchUrl } from '@/utils/urlState';
+import { searchService } from '@/services';
+import { DEFAULT_SUNO_USERNAME, MAX_FILTER_TAGS } from '@/constants';
 
 interface SongContextType {
   // Song library state
-  username: string;
+  usernames: string[];
+  libraries: Record<string, ArtistLibrary>;
   songs: Song[];
+  /** Songs of the artists not filtered out */
+  searchableSongs: Song[];
+  /** searchableSongs with the result filters and sort order applied, for browsing */
+  browseSongs: Song[];
   isLoadingSongs: boolean;
-  songsError: string | null;
-  setUsername: (username: string) => void;
+  addUsername: (username: string) => void;
+  removeUsername: (username: string) => void;
+
+  // Artist filter state
+  hiddenArtists: string[];
+  toggleArtist: (username: string) => void;
   
   // Search state
+  searchDescriptions: boolean;
+  setSearchDescriptions: (enabled: boolean) => void;
   searchQuery: string;
   searchResults: Song[];
   isSearching: boolean;
-  setSearchQuery: (query: string) => void;
+  setSearchQuery: (query: string, alternatives?: SpeechRecognitionAlternative[]) => void;
   clearSearch: () => void;
+
+  // Result filtering, sorting and paging
+  filters: SongFilters;
+  setFilters: (filters: SongFilters) => void;
+  sortOrder: SongSortOrder;
+  setSortOrder: (order: SongSortOrder) => void;
+  /** Most common tags in the searchable library */
+  availableTags: string[];
+  totalResults: number;
+  page: number;
+  pageCount: number;
+  setPage: (page: number) => void;
 }
 
 const SongContext = createContext<SongContextType | undefined>(undefined);
 
+interface SongProviderProps {
+  children: ReactNode;
+  /** Artists to load on mount (defaults to DEFAULT_SUNO_USERNAME) */
+  initialUsernames?: string[];
+  /** Query to run once songs load, e.g. from a shared link */
+  initialQuery?: string;
+}
+
 /**
  * Provider component for song-related state
- * Manages both song library and search functionality
+ * Manages the song libraries of one or more artists and searching across them
+ * The loaded artists and query are mirrored into the URL so searches can be shared
  */
-export function SongProvider({ children }: { children: ReactNode }) {
-  const [username, setUsername] = useState(DEFAULT_SUNO_USERNAME);
+export function SongProvider({ children, initialUsernames = [DEFAULT_SUNO_USERNAME], initialQuery = '' }: SongProviderProps) {
+  const [hiddenArtists, setHiddenArtists] = useState<string[]>([]);
+  const [searchDescriptions, setSearchDescriptions] = useState(false);
+  const [filters, setFilters] = useState<SongFilters>({});
+  const [sortOrder, setSortOrder] = useState<SongSortOrder>('score');
   
   // Use custom hooks for song loading and searching
-  const { songs, isLoading: isLoadingSongs, error: songsError, loadSongs } = useSunoSongs();
-  const { searchQuery, searchResults, isPending: isSearching, setSearchQuery: setSearchQueryInternal, clearSearch } = useSongSearch(songs);
+  // The initial usernames are loaded on mount
+  const { usernames, libraries, songs, isLoading: isLoadingSongs, addUsername, removeUsername } = useSunoLibraries(initialUsernames);
+
+  // Only search artists that aren't filtered out
+  const searchableSongs = useMemo(
+    () => (hiddenArtists.length === 0 ? songs : songs.filter((song) => !song.artist || !hiddenArtists.includes(song.artist))),
+    [songs, hiddenArtists]
+  );
+  const {
+    searchQuery,
+    searchResults,
+    totalResults,
+    page,
+    pageCount,
+    isPending: isSearching,
+    setSearchQuery: setSearchQueryInternal,
+    setPage,
+    clearSearch,
+  } = useSongSearch(searchableSongs, {
+    includeDescriptions: searchDescriptions,
+    filters,
+    sort: sortOrder,
+  }, initialQuery);
+
+  // Keep the address bar shareable; replaceState avoids a history entry per keystroke
+  useEffect(() => {
+    const url = buildSearchUrl({ usernames, query: searchQuery }, window.location.pathname);
+    if (url !== `${window.location.pathname}${window.location.search}`) {
+      window.history.replaceState(window.history.state, '', url);
+    }
+  }, [usernames, searchQuery]);
+
+  const browseSongs = useMemo(
+    () => searchService.filterSongs(searchableSongs, filters, sortOrder),
+    [searchableSongs, filters, sortOrder]
+  );
+
+  const availableTags = useMemo(
+    () => getTagCounts(searchableSongs).slice(0, MAX_FILTER_TAGS).map(({ tag }) => tag),
+    [searchableSongs]
+  );
+
+  const toggleArtist = useCallback((username: string) => {
+    setHiddenArtists((prev) => (prev.includes(username) ? prev.filter((u) => u !== username) : [...prev, username]));
+  }, []);
 
-  // Update username and trigger song loading
-  const handleSetUsername = useCallback((newUsername: string) => {
-    setUsername(newUsername);
-    loadSongs(newUsername);
-  }, [loadSongs]);
+  // Removing an artist also drops any filter on it
+  const handleRemoveUsername = useCallback((username: string) => {
+    removeUsername(username);
+    setHiddenArtists((prev) => prev.filter((u) => u !== username));
+  }, [removeUsername]);
 
   const value: SongContextType = {
-    username,
+    usernames,
+    libraries,
     songs,
+    searchableSongs,
+    browseSongs,
     isLoadingSongs,
-    songsError,
-    setUsername: handleSetUsername,
+    addUsername,
+    removeUsername: handleRemoveUsername,
+    hiddenArtists,
+    toggleArtist,
+    searchDescriptions,
+    setSearchDescriptions,
     searchQuery,
     searchResults,
     isSearching,
     setSearchQuery: setSearchQueryInternal,
     clearSearch,
+    filters,
+    setFilters,
+    sortOrder,
+    setSortOrder,
+    availableTags,
+    totalResults,
+    page,
+    pageCount,
+    setPage,
   };
 
   return (
@@ -3,6 +3,10 @@
  */
 
 export { useSpeechRecognition } from './useSpeechRecognition';
-export { useSunoSongs } from './useSunoSongs';
+export { useSunoLibraries } from './useSunoLibraries';
 export { useSongSearch } from './useSongSearch';
 export { useModal } from './useModal';
+export { useVirtualList } from './useVirtualList';
+export { useListenMode } from './useListenMode';
+export { useAudioFingerprint } from './useAudioFingerprint';
+export { useMelodySearch } from './useMelodySearch';
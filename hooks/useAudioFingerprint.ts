@@ -0,0 +1,248 @@
+'use client';
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { fingerprintService, type SongAudioLoader } from '@/services';
+import { createFingerprintEngine, type FingerprintEngine } from '@/lib/fingerprintEngine';
+import { getMicrophoneErrorMessage, isMicrophoneCaptureSupported, recordMicrophone } from '@/lib/audioInput';
+import { isAbortError } from '@/lib/sunoErrors';
+import { pickFingerprintWinner } from '@/utils/fingerprint';
+import type { Song } from '@/types/speech';
+import type { FingerprintMatch } from '@/types/fingerprint';
+import { FINGERPRINT_CAPTURE_MS } from '@/constants';
+
+/** A fingerprint match with its song */
+export interface AudioMatch {
+  song: Song;
+  match: FingerprintMatch;
+}
+
+interface UseAudioFingerprintOptions {
+  /** Songs to fingerprint and identify among */
+  songs: Song[];
+  /** Loads a song's audio, e.g. from local fixtures; defaults to downloading it */
+  loadAudio?: SongAudioLoader;
+}
+
+export interface UseAudioFingerprintReturn {
+  /** Songs with audio that could be fingerprinted */
+  fingerprintableCount: number;
+  /** How many of those are fingerprinted */
+  fingerprintedCount: number;
+  isIndexing: boolean;
+  /** Songs attempted so far out of those queued by the running indexing pass */
+  indexProgress: { done: number; total: number } | null;
+  /** Songs the last indexing pass couldn't download or decode */
+  failedCount: number;
+  /** Starts the engine and restores saved fingerprints, if that hasn't happened yet */
+  prepare: () => Promise<void>;
+  /** Fingerprints every song not fingerprinted yet; resolves when the pass ends */
+  buildIndex: () => Promise<void>;
+  cancelIndexing: () => void;
+  isRecording: boolean;
+  /** Records the microphone and identifies what's playing */
+  identify: () => void;
+  /**
+   * Identifies an encoded recording, such as an uploaded file, without touching the microphone state
+   * @throws AudioInputError if the audio can't be decoded or is silent
+   */
+  identifyAudio: (audio: ArrayBuffer) => Promise<AudioMatch[]>;
+  stopRecording: () => void;
+  /** Recording finished and is being matched */
+  isMatching: boolean;
+  matches: AudioMatch[];
+  /** The match that clearly stands out, if any */
+  winner: AudioMatch | null;
+  /** Whether the last identification has finished, so an empty result means no match */
+  hasIdentified: boolean;
+  error: string;
+  isSupported: boolean;
+}
+
+/**
+ * Custom hook for identifying songs by their audio
+ * Nothing starts until first use: prepare, buildIndex or an identification starts
+ * the worker and restores fingerprints from IndexedDB. buildIndex downloads and
+ * fingerprints the rest, and identify matches a microphone recording against them
+ * Hashing and matching run in a Web Worker
+ */
+export function useAudioFingerprint({ songs, loadAudio }: UseAudioFingerprintOptions): UseAudioFingerprintReturn {
+  const [fingerprintedIds, setFingerprintedIds] = useState<Set<string>>(() => new Set());
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [indexProgress, setIndexProgress] = useState<{ done: number; total: number } | null>(null);
+  const [failedCount, setFailedCount] = useState(0);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isMatching, setIsMatching] = useState(false);
+  const [matches, setMatches] = useState<AudioMatch[]>([]);
+  const [hasIdentified, setHasIdentified] = useState(false);
+  const [error, setError] = useState('');
+  const [isSupported, setIsSupported] = useState(true);
+  const engineRef = useRef<FingerprintEngine | null>(null);
+  // Resolves once the engine holds the fingerprints saved in earlier visits
+  const readyRef = useRef<Promise<{ engine: FingerprintEngine; restoredIds: Set<string> }> | null>(null);
+  const indexingRef = useRef<AbortController | null>(null);
+  const recordingRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setIsSupported(isMicrophoneCaptureSupported());
+
+    return () => {
+      indexingRef.current?.abort();
+      recordingRef.current?.abort();
+      engineRef.current?.dispose();
+      engineRef.current = null;
+      readyRef.current = null;
+    };
+  }, []);
+
+  // Pages that never identify anything shouldn't pay for a worker and an IndexedDB read
+  const startEngine = useCallback(() => {
+    if (!readyRef.current) {
+      const engine = createFingerprintEngine();
+      engineRef.current = engine;
+      readyRef.current = fingerprintService
+        .restoreFingerprints(engine)
+        .catch((err) => {
+          console.error('Failed to restore fingerprints:', err);
+          return [];
+        })
+        .then((ids) => {
+          if (engineRef.current === engine) {
+            setFingerprintedIds((prev) => new Set([...Array.from(prev), ...ids]));
+          }
+          return { engine, restoredIds: new Set(ids) };
+        });
+    }
+    return readyRef.current;
+  }, []);
+
+  const prepare = useCallback(async () => {
+    await startEngine();
+  }, [startEngine]);
+
+  const fingerprintable = useMemo(
+    () => songs.filter((song) => fingerprintService.canFingerprint(song)),
+    [songs]
+  );
+  const fingerprintedCount = useMemo(
+    () => fingerprintable.filter((song) => fingerprintedIds.has(song.id)).length,
+    [fingerprintable, fingerprintedIds]
+  );
+
+  const buildIndex = useCallback(async () => {
+    if (indexingRef.current) {
+      return;
+    }
+
+    const controller = new AbortController();
+    indexingRef.current = controller;
+    setIsIndexing(true);
+    setFailedCount(0);
+    setError('');
+
+    // Fingerprints restored by this call aren't in fingerprintedIds yet
+    const { engine, restoredIds } = await startEngine();
+    if (controller.signal.aborted) {
+      return;
+    }
+    const queue = fingerprintable.filter((song) => !fingerprintedIds.has(song.id) && !restoredIds.has(song.id));
+    setIndexProgress({ done: 0, total: queue.length });
+
+    // One song at a time keeps memory flat and stays well under the proxy's rate limit
+    for (let i = 0; i < queue.length && !controller.signal.aborted; i++) {
+      const song = queue[i];
+      try {
+        await fingerprintService.fingerprintSong(engine, song, loadAudio, controller.signal);
+        setFingerprintedIds((prev) => new Set(prev).add(song.id));
+      } catch (err) {
+        if (isAbortError(err)) {
+          break;
+        }
+        console.error(`Failed to fingerprint "${song.title}":`, err);
+        setFailedCount((count) => count + 1);
+      }
+      setIndexProgress({ done: i + 1, total: queue.length });
+    }
+
+    if (indexingRef.current === controller) {
+      indexingRef.current = null;
+      setIsIndexing(false);
+      setIndexProgress(null);
+    }
+  }, [fingerprintable, fingerprintedIds, loadAudio, startEngine]);
+
+  const cancelIndexing = useCallback(() => {
+    indexingRef.current?.abort();
+    indexingRef.current = null;
+    setIsIndexing(false);
+    setIndexProgress(null);
+  }, []);
+
+  const identifyAudio = useCallback(async (audio: ArrayBuffer) => {
+    const { engine } = await startEngine();
+    return fingerprintService.identifyAudio(engine, audio, songs);
+  }, [songs, startEngine]);
+
+  const identify = useCallback(async () => {
+    if (recordingRef.current) {
+      return;
+    }
+
+    const controller = new AbortController();
+    recordingRef.current = controller;
+    setIsRecording(true);
+    setHasIdentified(false);
+    setMatches([]);
+    setError('');
+
+    try {
+      const recording = await recordMicrophone(FINGERPRINT_CAPTURE_MS, controller.signal);
+      setIsRecording(false);
+      setIsMatching(true);
+      const results = await identifyAudio(recording);
+      if (recordingRef.current === controller) {
+        setMatches(results);
+        setHasIdentified(true);
+      }
+    } catch (err) {
+      console.error('Error identifying audio:', err);
+      setError(getMicrophoneErrorMessage(err));
+    } finally {
+      if (recordingRef.current === controller) {
+        recordingRef.current = null;
+        setIsRecording(false);
+        setIsMatching(false);
+      }
+    }
+  }, [identifyAudio]);
+
+  // Stopping early still identifies whatever was recorded
+  const stopRecording = useCallback(() => {
+    recordingRef.current?.abort();
+  }, []);
+
+  const winner = useMemo(() => {
+    const best = pickFingerprintWinner(matches.map(({ match }) => match));
+    return best ? matches.find(({ match }) => match === best) ?? null : null;
+  }, [matches]);
+
+  return {
+    fingerprintableCount: fingerprintable.length,
+    fingerprintedCount,
+    isIndexing,
+    indexProgress,
+    failedCount,
+    prepare,
+    buildIndex,
+    cancelIndexing,
+    isRecording,
+    identify,
+    identifyAudio,
+    stopRecording,
+    isMatching,
+    matches,
+    winner,
+    hasIdentified,
+    error,
+    isSupported,
+  };
+}
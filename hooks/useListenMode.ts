@@ -0,0 +1,119 @@
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useSpeechRecognition } from './useSpeechRecognition';
+import { createSearchEngine, type SearchEngine } from '@/lib/searchEngine';
+import { createCandidateTracker, type ListenCandidate } from '@/utils/candidateTracker';
+import type { Song, SpeechRecognitionConstructor } from '@/types/speech';
+import { LISTEN_MAX_CANDIDATES } from '@/constants';
+
+interface UseListenModeOptions {
+  /** Library to identify songs from */
+  songs: Song[];
+  /** Speech recognition implementation to use instead of the browser's, e.g. a scripted fake */
+  recognitionConstructor?: SpeechRecognitionConstructor;
+  /** BCP 47 language to recognize */
+  lang?: string;
+}
+
+interface UseListenModeReturn {
+  isListening: boolean;
+  transcript: string;
+  candidates: ListenCandidate[];
+  /** The song that clearly won; listening stops when one does */
+  winner: ListenCandidate | null;
+  error: string;
+  isSupported: boolean;
+  startListening: () => void;
+  stopListening: () => void;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Custom hook for continuous identification while the user sings
+ * Every transcript update queries the library in its own search worker; a
+ * candidate tracker steadies the ranking and stops listening once one song
+ * clearly wins
+ */
+export function useListenMode({ songs, recognitionConstructor, lang }: UseListenModeOptions): UseListenModeReturn {
+  const speech = useSpeechRecognition({ recognitionConstructor, lang });
+  const { isRecording, transcript, alternatives, stopRecording, startRecording } = speech;
+  const [candidates, setCandidates] = useState<ListenCandidate[]>([]);
+  const [winner, setWinner] = useState<ListenCandidate | null>(null);
+  const engineRef = useRef<SearchEngine | null>(null);
+  const trackerRef = useRef(createCandidateTracker());
+
+  // The engine only lives for a listening session
+  const disposeEngine = useCallback(() => {
+    engineRef.current?.dispose();
+    engineRef.current = null;
+  }, []);
+
+  useEffect(() => disposeEngine, [disposeEngine]);
+
+  useEffect(() => {
+    engineRef.current?.sync(songs);
+  }, [songs]);
+
+  // Query on every transcript update; the engine supersedes searches still running
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine || !isRecording || !transcript.trim()) {
+      return;
+    }
+
+    let isCurrent = true;
+    engine
+      .search(transcript, { alternatives, page: 0, pageSize: LISTEN_MAX_CANDIDATES * 2 })
+      .then((page) => {
+        if (!isCurrent || page === null) {
+          return;
+        }
+        const snapshot = trackerRef.current.update(page.results, countWords(transcript));
+        setCandidates(snapshot.candidates);
+        if (snapshot.winner) {
+          setWinner(snapshot.winner);
+          stopRecording();
+        }
+      })
+      .catch((err) => {
+        console.error('Error identifying song:', err);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [transcript, alternatives, isRecording, stopRecording]);
+
+  // Free the worker once the session ends, whether stopped or won
+  useEffect(() => {
+    if (!isRecording) {
+      disposeEngine();
+    }
+  }, [isRecording, disposeEngine]);
+
+  const startListening = useCallback(() => {
+    disposeEngine();
+    const engine = createSearchEngine();
+    engine.sync(songs);
+    engineRef.current = engine;
+    trackerRef.current.reset();
+    setCandidates([]);
+    setWinner(null);
+    startRecording();
+  }, [songs, startRecording, disposeEngine]);
+
+  return {
+    isListening: isRecording,
+    transcript,
+    candidates,
+    winner,
+    error: speech.error,
+    isSupported: speech.isSupported,
+    startListening,
+    stopListening: stopRecording,
+  };
+}
@@ -0,0 +1,205 @@
+'use client';
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { fingerprintService, melodyService, type SongAudioLoader } from '@/services';
+import { createMelodyEngine, type MelodyEngine } from '@/lib/melodyEngine';
+import { getMicrophoneErrorMessage, isMicrophoneCaptureSupported, recordMicrophone } from '@/lib/audioInput';
+import { isAbortError } from '@/lib/sunoErrors';
+import type { Song } from '@/types/speech';
+import type { MelodyMatch } from '@/types/melody';
+import { MELODY_CAPTURE_MS } from '@/constants';
+
+/** A melody match with its song */
+export interface MelodySearchMatch {
+  song: Song;
+  match: MelodyMatch;
+}
+
+interface UseMelodySearchOptions {
+  /** Songs to extract melodies from and search among */
+  songs: Song[];
+  /** Loads a song's audio, e.g. from local fixtures; defaults to downloading it */
+  loadAudio?: SongAudioLoader;
+}
+
+export interface UseMelodySearchReturn {
+  /** Songs with audio a melody could be extracted from */
+  extractableCount: number;
+  /** How many of those have a melody */
+  extractedCount: number;
+  isIndexing: boolean;
+  /** Songs attempted so far out of those queued by the running indexing pass */
+  indexProgress: { done: number; total: number } | null;
+  /** Songs the last indexing pass couldn't download or decode */
+  failedCount: number;
+  buildIndex: () => void;
+  cancelIndexing: () => void;
+  isRecording: boolean;
+  /** Records a hummed tune and searches for it */
+  search: () => void;
+  /** Stopping early still searches what was recorded */
+  stopRecording: () => void;
+  /** Recording finished and is being matched */
+  isMatching: boolean;
+  matches: MelodySearchMatch[];
+  /** Whether the last search has finished, so an empty result means no match */
+  hasSearched: boolean;
+  error: string;
+  isSupported: boolean;
+}
+
+/**
+ * Custom hook for finding songs by humming their tune
+ * Melodies are restored from IndexedDB on mount; buildIndex downloads the rest and
+ * extracts their melodies, and search matches a hummed recording against them
+ * Pitch tracking and matching run in a Web Worker
+ */
+export function useMelodySearch({ songs, loadAudio }: UseMelodySearchOptions): UseMelodySearchReturn {
+  const [extractedIds, setExtractedIds] = useState<Set<string>>(() => new Set());
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [indexProgress, setIndexProgress] = useState<{ done: number; total: number } | null>(null);
+  const [failedCount, setFailedCount] = useState(0);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isMatching, setIsMatching] = useState(false);
+  const [matches, setMatches] = useState<MelodySearchMatch[]>([]);
+  const [hasSearched, setHasSearched] = useState(false);
+  const [error, setError] = useState('');
+  const [isSupported, setIsSupported] = useState(true);
+  const engineRef = useRef<MelodyEngine | null>(null);
+  const indexingRef = useRef<AbortController | null>(null);
+  const recordingRef = useRef<AbortController | null>(null);
+
+  // Start the worker and restore persisted melodies on mount
+  useEffect(() => {
+    const engine = createMelodyEngine();
+    engineRef.current = engine;
+    setIsSupported(isMicrophoneCaptureSupported());
+
+    melodyService
+      .restoreMelodies(engine)
+      .then((ids) => {
+        if (engineRef.current === engine) {
+          setExtractedIds(new Set(ids));
+        }
+      })
+      .catch((err) => {
+        console.error('Failed to restore melodies:', err);
+      });
+
+    return () => {
+      indexingRef.current?.abort();
+      recordingRef.current?.abort();
+      engine.dispose();
+      engineRef.current = null;
+    };
+  }, []);
+
+  const extractable = useMemo(
+    () => songs.filter((song) => fingerprintService.canFingerprint(song)),
+    [songs]
+  );
+  const extractedCount = useMemo(
+    () => extractable.filter((song) => extractedIds.has(song.id)).length,
+    [extractable, extractedIds]
+  );
+
+  const buildIndex = useCallback(async () => {
+    const engine = engineRef.current;
+    if (!engine || indexingRef.current) {
+      return;
+    }
+
+    const queue = extractable.filter((song) => !extractedIds.has(song.id));
+    const controller = new AbortController();
+    indexingRef.current = controller;
+    setIsIndexing(true);
+    setIndexProgress({ done: 0, total: queue.length });
+    setFailedCount(0);
+    setError('');
+
+    // One song at a time keeps memory flat and stays well under the proxy's rate limit
+    for (let i = 0; i < queue.length && !controller.signal.aborted; i++) {
+      const song = queue[i];
+      try {
+        await melodyService.extractSongMelody(engine, song, loadAudio, controller.signal);
+        setExtractedIds((prev) => new Set(prev).add(song.id));
+      } catch (err) {
+        if (isAbortError(err)) {
+          break;
+        }
+        console.error(`Failed to extract the melody of "${song.title}":`, err);
+        setFailedCount((count) => count + 1);
+      }
+      setIndexProgress({ done: i + 1, total: queue.length });
+    }
+
+    if (indexingRef.current === controller) {
+      indexingRef.current = null;
+      setIsIndexing(false);
+      setIndexProgress(null);
+    }
+  }, [extractable, extractedIds, loadAudio]);
+
+  const cancelIndexing = useCallback(() => {
+    indexingRef.current?.abort();
+    indexingRef.current = null;
+    setIsIndexing(false);
+    setIndexProgress(null);
+  }, []);
+
+  const search = useCallback(async () => {
+    const engine = engineRef.current;
+    if (!engine || recordingRef.current) {
+      return;
+    }
+
+    const controller = new AbortController();
+    recordingRef.current = controller;
+    setIsRecording(true);
+    setHasSearched(false);
+    setMatches([]);
+    setError('');
+
+    try {
+      const recording = await recordMicrophone(MELODY_CAPTURE_MS, controller.signal);
+      setIsRecording(false);
+      setIsMatching(true);
+      const results = await melodyService.matchHumming(engine, recording, songs);
+      if (engineRef.current === engine) {
+        setMatches(results);
+        setHasSearched(true);
+      }
+    } catch (err) {
+      console.error('Error searching by melody:', err);
+      setError(getMicrophoneErrorMessage(err));
+    } finally {
+      if (recordingRef.current === controller) {
+        recordingRef.current = null;
+        setIsRecording(false);
+        setIsMatching(false);
+      }
+    }
+  }, [songs]);
+
+  const stopRecording = useCallback(() => {
+    recordingRef.current?.abort();
+  }, []);
+
+  return {
+    extractableCount: extractable.length,
+    extractedCount,
+    isIndexing,
+    indexProgress,
+    failedCount,
+    buildIndex,
+    cancelIndexing,
+    isRecording,
+    search,
+    stopRecording,
+    isMatching,
+    matches,
+    hasSearched,
+    error,
+    isSupported,
+  };
+}
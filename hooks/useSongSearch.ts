@@ -1,71 +1,150 @@
 'use client';
 
-import { useState, useCallback, useMemo, useEffect, useTransition, useDeferredValue } from 'react';
-import { calculateSimilarity } from '@/utils/similarity';
-import type { Song } from '@/types/speech';
+import { useState, useCallback, useEffect, useMemo, useRef, useTransition, useDeferredValue } from 'react';
+import { createSearchEngine, type SearchEngine } from '@/lib/searchEngine';
+import type { Song, SpeechRecognitionAlternative } from '@/types/speech';
+import type { SearchWorkerOptions } from '@/types/searchWorker';
 import { MAX_SEARCH_RESULTS } from '@/constants';
 
 interface UseSongSearchReturn {
   searchQuery: string;
   searchResults: Song[];
+  /** Matches across all pages */
+  totalResults: number;
+  /** Zero-based page currently shown */
+  page: number;
+  pageCount: number;
   isPending: boolean;
-  setSearchQuery: (query: string) => void;
+  /** Sets the query; voice searches also pass every transcript alternative with its confidence */
+  setSearchQuery: (query: string, alternatives?: SpeechRecognitionAlternative[]) => void;
+  setPage: (page: number) => void;
   clearSearch: () => void;
 }
 
 /**
  * Custom hook for searching songs by lyrics
  * Handles search state, deferred updates, and result calculation
+ * Indexing and scoring run in a Web Worker; stale queries are cancelled
+ * @param songs - Library to search
+ * @param options - Matching options, filters and sort order; changing them reruns the current query from the first page
+ * @param initialQuery - Query to start with, e.g. from a shared link
  */
-export function useSongSearch(songs: Song[]): UseSongSearchReturn {
-  const [searchQuery, setSearchQuery] = useState('');
+export function useSongSearch(
+  songs: Song[],
+  options: Omit<SearchWorkerOptions, 'alternatives' | 'page' | 'pageSize'> = {},
+  initialQuery: string = ''
+): UseSongSearchReturn {
+  const { fuzzy, includeDescriptions, boostChorus, filters, sort } = options;
+  const [searchQuery, setQuery] = useState(initialQuery);
+  const [alternatives, setAlternatives] = useState<SpeechRecognitionAlternative[] | undefined>(undefined);
   const [searchResults, setSearchResults] = useState<Song[]>([]);
+  const [totalResults, setTotalResults] = useState(0);
+  const [shownPage, setShownPage] = useState(0);
+  const [isComputing, setIsComputing] = useState(false);
   const [isPending, startTransition] = useTransition();
+  const engineRef = useRef<SearchEngine | null>(null);
   
   // Defer the search query to keep input responsive
   const deferredSearchQuery = useDeferredValue(searchQuery);
+  const deferredAlternatives = useDeferredValue(alternatives);
 
-  const calculateResults = useCallback((query: string, availableSongs: Song[]) => {
-    if (!query.trim() || availableSongs.length === 0) {
-      return [] as Song[];
-    }
+  // Typed queries drop the alternatives of an earlier voice search
+  const setSearchQuery = useCallback((query: string, nextAlternatives?: SpeechRecognitionAlternative[]) => {
+    setQuery(query);
+    setAlternatives(nextAlternatives);
+  }, []);
+
+  // A requested page only applies to the search it was requested for; anything new starts at page one
+  const searchParams = useMemo(
+    () => ({ query: deferredSearchQuery, alternatives: deferredAlternatives, fuzzy, includeDescriptions, boostChorus, filters, sort }),
+    [deferredSearchQuery, deferredAlternatives, fuzzy, includeDescriptions, boostChorus, filters, sort]
+  );
+  const [pageRequest, setPageRequest] = useState({ params: searchParams, page: 0 });
+  const requestedPage = pageRequest.params === searchParams ? pageRequest.page : 0;
 
-    const scoredSongs = availableSongs.map((song) => ({
-      ...song,
-      matchScore: calculateSimilarity(song.lyrics, query),
-    }));
+  const setPage = useCallback((page: number) => {
+    setPageRequest({ params: searchParams, page });
+  }, [searchParams]);
 
-    return scoredSongs
-      .filter((song) => song.matchScore > 0)
-      .sort((a, b) => b.matchScore - a.matchScore)
-      .slice(0, MAX_SEARCH_RESULTS);
+  // Start the search worker on mount, tear it down on unmount
+  useEffect(() => {
+    const engine = createSearchEngine();
+    engineRef.current = engine;
+    return () => {
+      engine.dispose();
+      engineRef.current = null;
+    };
   }, []);
 
-  // Memoize results calculation to avoid recalculating unless inputs change
-  const memoizedResults = useMemo(() => {
-    if (!deferredSearchQuery || songs.length === 0) {
-      return [];
-    }
-    return calculateResults(deferredSearchQuery, songs);
-  }, [deferredSearchQuery, songs, calculateResults]);
+  // Index songs as they stream in so the first query doesn't pay for the whole library
+  useEffect(() => {
+    engineRef.current?.sync(songs);
+  }, [songs]);
 
-  // Update results asynchronously with useTransition to prevent blocking input
+  // Run the search whenever the query, options, page or library changes; a newer run supersedes this one
   useEffect(() => {
-    startTransition(() => {
-      setSearchResults(memoizedResults);
-    });
-  }, [memoizedResults]);
+    const engine = engineRef.current;
+    const { query, ...matchOptions } = searchParams;
+
+    if (!engine || !query.trim() || songs.length === 0) {
+      engine?.cancel();
+      setIsComputing(false);
+      startTransition(() => {
+        setSearchResults([]);
+        setTotalResults(0);
+        setShownPage(0);
+      });
+      return;
+    }
+
+    let isCurrent = true;
+    setIsComputing(true);
+
+    engine
+      .search(query, { ...matchOptions, page: requestedPage, pageSize: MAX_SEARCH_RESULTS })
+      .then((results) => {
+        if (!isCurrent || results === null) {
+          return;
+        }
+        // Update results with useTransition to prevent blocking input
+        startTransition(() => {
+          setSearchResults(results.results);
+          setTotalResults(results.total);
+          setShownPage(results.page);
+        });
+        setIsComputing(false);
+      })
+      .catch((err) => {
+        if (isCurrent) {
+          console.error('Error searching songs:', err);
+          setIsComputing(false);
+        }
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [searchParams, requestedPage, songs]);
 
   const clearSearch = useCallback(() => {
-    setSearchQuery('');
+    engineRef.current?.cancel();
+    setQuery('');
+    setAlternatives(undefined);
     setSearchResults([]);
+    setTotalResults(0);
+    setShownPage(0);
+    setIsComputing(false);
   }, []);
 
   return {
     searchQuery,
     searchResults,
-    isPending,
+    totalResults,
+    page: shownPage,
+    pageCount: Math.ceil(totalResults / MAX_SEARCH_RESULTS),
+    isPending: isPending || isComputing,
     setSearchQuery,
+    setPage,
     clearSearch,
   };
 }
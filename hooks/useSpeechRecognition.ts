@@ -1,16 +1,28 @@
 'use client';
 
 import { useState, useRef, useEffect, useCallback } from 'react';
-import type { SpeechRecognition, SpeechRecognitionEvent, SpeechRecognitionErrorEvent } from '@/types/speech';
-import { 
-  SPEECH_RECOGNITION_LANG, 
-  SPEECH_RECOGNITION_CONTINUOUS, 
-  SPEECH_RECOGNITION_INTERIM_RESULTS 
-} from '@/constants';
+import {
+  getSpeechRecognizerFactory,
+  type SpeechRecognizer,
+  type SpeechRecognizerFactory,
+} from '@/lib/speechRecognizer';
+import type { SpeechRecognitionAlternative, SpeechRecognitionConstructor } from '@/types/speech';
+import { SPEECH_RECOGNITION_LANG } from '@/constants';
+
+interface UseSpeechRecognitionOptions {
+  /** Implementation to use instead of the browser's, e.g. a scripted fake */
+  recognitionConstructor?: SpeechRecognitionConstructor;
+  /** Recognizer to use instead of picking one; takes precedence over recognitionConstructor */
+  recognizer?: SpeechRecognizerFactory;
+  /** BCP 47 language to recognize, applied when recording starts */
+  lang?: string;
+}
 
 interface UseSpeechRecognitionReturn {
   isRecording: boolean;
   transcript: string;
+  /** N-best readings of the whole session with confidences, best first; the first is the transcript */
+  alternatives: SpeechRecognitionAlternative[];
   error: string;
   isSupported: boolean;
   startRecording: () => void;
@@ -20,89 +32,74 @@ interface UseSpeechRecognitionReturn {
 
 /**
  * Custom hook for speech recognition functionality
- * Handles browser speech recognition API with error handling
+ * Uses the browser's Web Speech API, or an offline Whisper model where the browser has none
+ * The transcript covers the whole session: every final result so far plus the current interim one
  */
-export function useSpeechRecognition(): UseSpeechRecognitionReturn {
+export function useSpeechRecognition(options: UseSpeechRecognitionOptions = {}): UseSpeechRecognitionReturn {
+  const { recognitionConstructor, recognizer, lang = SPEECH_RECOGNITION_LANG } = options;
   const [isRecording, setIsRecording] = useState(false);
   const [transcript, setTranscript] = useState('');
+  const [alternatives, setAlternatives] = useState<SpeechRecognitionAlternative[]>([]);
   const [error, setError] = useState('');
   const [isSupported, setIsSupported] = useState(true);
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const recognizerRef = useRef<SpeechRecognizer | null>(null);
 
   useEffect(() => {
-    // Check if browser supports speech recognition
-    if (typeof window !== 'undefined') {
-      const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-      
-      if (SpeechRecognition) {
-        const recognition = new SpeechRecognition();
-        recognition.continuous = SPEECH_RECOGNITION_CONTINUOUS;
-        recognition.interimResults = SPEECH_RECOGNITION_INTERIM_RESULTS;
-        recognition.lang = SPEECH_RECOGNITION_LANG;
-
-        recognition.onresult = (event: SpeechRecognitionEvent) => {
-          let interimTranscript = '';
-          let finalTranscript = '';
-
-          for (let i = event.resultIndex; i < event.results.length; i++) {
-            const transcript = event.results[i][0].transcript;
-            if (event.results[i].isFinal) {
-              finalTranscript += transcript + ' ';
-            } else {
-              interimTranscript += transcript;
-            }
-          }
-
-          setTranscript(finalTranscript || interimTranscript);
-        };
-
-        recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
-          console.error('Speech recognition error:', event.error);
-          setError(`Error: ${event.error}`);
-          setIsRecording(false);
-        };
-
-        recognition.onend = () => {
-          setIsRecording(false);
-        };
-
-        recognitionRef.current = recognition;
-      } else {
+    const createRecognizer = recognizer ?? getSpeechRecognizerFactory(recognitionConstructor);
+    if (!createRecognizer) {
+      if (typeof window !== 'undefined') {
         setIsSupported(false);
-        setError('Speech recognition is not supported in your browser. Please use Chrome or Edge.');
+        setError('Speech recognition is not supported in your browser.');
       }
+      return;
     }
 
+    recognizerRef.current = createRecognizer({
+      onResult: (sessionAlternatives) => {
+        setTranscript(sessionAlternatives[0]?.transcript ?? '');
+        setAlternatives(sessionAlternatives);
+      },
+      onError: (message) => {
+        setError(message);
+        setIsRecording(false);
+      },
+      onEnd: () => {
+        setIsRecording(false);
+      },
+    });
+
     return () => {
-      if (recognitionRef.current) {
-        recognitionRef.current.stop();
-      }
+      recognizerRef.current?.dispose();
+      recognizerRef.current = null;
     };
-  }, []);
+  }, [recognizer, recognitionConstructor]);
 
   const startRecording = useCallback(() => {
-    if (recognitionRef.current && isSupported) {
+    if (recognizerRef.current && isSupported) {
       setTranscript('');
+      setAlternatives([]);
       setError('');
-      recognitionRef.current.start();
+      recognizerRef.current.start(lang);
       setIsRecording(true);
     }
-  }, [isSupported]);
+  }, [isSupported, lang]);
 
   const stopRecording = useCallback(() => {
-    if (recognitionRef.current) {
-      recognitionRef.current.stop();
+    if (recognizerRef.current) {
+      recognizerRef.current.stop();
       setIsRecording(false);
     }
   }, []);
 
   const resetTranscript = useCallback(() => {
     setTranscript('');
+    setAlternatives([]);
   }, []);
 
   return {
     isRecording,
     transcript,
+    alternatives,
     error,
     isSupported,
     startRecording,
@@ -0,0 +1,148 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { sunoService } from '@/services';
+import { isAbortError } from '@/lib/sunoErrors';
+import type { Song, ArtistLibrary } from '@/types/speech';
+
+interface UseSunoLibrariesReturn {
+  usernames: string[];
+  libraries: Record<string, ArtistLibrary>;
+  /** Every loaded song across all libraries, deduplicated by id */
+  songs: Song[];
+  isLoading: boolean;
+  addUsername: (username: string) => void;
+  removeUsername: (username: string) => void;
+}
+
+function createLibrary(username: string): ArtistLibrary {
+  return { username, songs: [], isLoading: true, error: null, lastSync: null };
+}
+
+/**
+ * Custom hook for loading several Suno libraries in parallel
+ * Each username gets its own abortable load; removing a username aborts its crawl
+ * Uses sunoService for caching and business logic
+ */
+export function useSunoLibraries(initialUsernames: string[] = []): UseSunoLibrariesReturn {
+  const [usernames, setUsernames] = useState<string[]>(() =>
+    Array.from(new Set(initialUsernames.map((u) => u.trim().toLowerCase()).filter(Boolean)))
+  );
+  const [libraries, setLibraries] = useState<Record<string, ArtistLibrary>>({});
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  const updateLibrary = useCallback((username: string, update: Partial<ArtistLibrary>) => {
+    setLibraries((prev) => (prev[username] ? { ...prev, [username]: { ...prev[username], ...update } } : prev));
+  }, []);
+
+  const loadLibrary = useCallback(async (username: string) => {
+    const controller = new AbortController();
+    controllersRef.current.set(username, controller);
+    const isCurrent = () => controllersRef.current.get(username) === controller;
+
+    setLibraries((prev) => ({ ...prev, [username]: createLibrary(username) }));
+
+    try {
+      const songs = await sunoService.fetchUserSongs(
+        username,
+        (progressSongs) => {
+          // Update UI with progressive results
+          if (isCurrent()) {
+            updateLibrary(username, { songs: progressSongs });
+          }
+        },
+        (lastSync) => {
+          if (isCurrent()) {
+            updateLibrary(username, { lastSync });
+          }
+        },
+        controller.signal
+      );
+
+      if (isCurrent()) {
+        updateLibrary(username, { songs, isLoading: false });
+      }
+    } catch (err) {
+      if (isAbortError(err) || !isCurrent()) {
+        return;
+      }
+      console.error(`Error loading songs for ${username}:`, err);
+      updateLibrary(username, {
+        isLoading: false,
+        error: err instanceof Error ? err.message : 'Error loading songs',
+      });
+    } finally {
+      if (isCurrent()) {
+        controllersRef.current.delete(username);
+      }
+    }
+  }, [updateLibrary]);
+
+  // Start loads for new usernames (or ones whose load was aborted) and abort loads for removed ones
+  useEffect(() => {
+    usernames.forEach((username) => {
+      const library = libraries[username];
+      if (!controllersRef.current.has(username) && (!library || library.isLoading)) {
+        loadLibrary(username);
+      }
+    });
+
+    controllersRef.current.forEach((controller, username) => {
+      if (!usernames.includes(username)) {
+        controller.abort();
+        controllersRef.current.delete(username);
+      }
+    });
+  }, [usernames, libraries, loadLibrary]);
+
+  // Abort everything on unmount
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach((controller) => controller.abort());
+      controllers.clear();
+    };
+  }, []);
+
+  const addUsername = useCallback((username: string) => {
+    const normalized = username.trim().toLowerCase();
+    if (!normalized) {
+      return;
+    }
+    setUsernames((prev) => (prev.includes(normalized) ? prev : [...prev, normalized]));
+  }, []);
+
+  const removeUsername = useCallback((username: string) => {
+    const normalized = username.trim().toLowerCase();
+    setUsernames((prev) => prev.filter((u) => u !== normalized));
+    setLibraries((prev) => {
+      const next = { ...prev };
+      delete next[normalized];
+      return next;
+    });
+  }, []);
+
+  // Merge libraries in the order usernames were added
+  const songs = useMemo(() => {
+    const merged = new Map<string, Song>();
+    usernames.forEach((username) => {
+      libraries[username]?.songs.forEach((song) => {
+        if (!merged.has(song.id)) {
+          merged.set(song.id, song);
+        }
+      });
+    });
+    return Array.from(merged.values());
+  }, [usernames, libraries]);
+
+  const isLoading = usernames.some((username) => libraries[username]?.isLoading ?? true);
+
+  return {
+    usernames,
+    libraries,
+    songs,
+    isLoading,
+    addUsername,
+    removeUsername,
+  };
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+
+interface UseVirtualListOptions {
+  /** Number of rows in the list */
+  count: number;
+  /** Fixed height of every row in pixels */
+  rowHeight: number;
+  /** Rows rendered beyond each edge of the viewport */
+  overscan?: number;
+}
+
+interface UseVirtualListReturn {
+  containerRef: React.RefObject<HTMLDivElement>;
+  onScroll: (event: React.UIEvent<HTMLDivElement>) => void;
+  /** Height of the full list, for the scroll spacer */
+  totalHeight: number;
+  /** First rendered row (inclusive) */
+  startIndex: number;
+  /** Last rendered row (exclusive) */
+  endIndex: number;
+  /** Offset of the first rendered row from the top of the list */
+  offsetTop: number;
+  /** Scrolls the list back to its first row */
+  scrollToTop: () => void;
+}
+
+/**
+ * Custom hook for rendering only the visible rows of a long, fixed-row-height list
+ * The container must scroll vertically and have a bounded height
+ */
+export function useVirtualList({ count, rowHeight, overscan = 5 }: UseVirtualListOptions): UseVirtualListReturn {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  // Track the viewport size so resizing the window renders enough rows
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    setViewportHeight(container.clientHeight);
+
+    if (typeof ResizeObserver === 'undefined') {
+      return;
+    }
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const onScroll = useCallback((event: React.UIEvent<HTMLDivElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  }, []);
+
+  const scrollToTop = useCallback(() => {
+    if (containerRef.current) {
+      containerRef.current.scrollTop = 0;
+    }
+    setScrollTop(0);
+  }, []);
+
+  const startIndex = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const endIndex = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  return {
+    containerRef,
+    onScroll,
+    totalHeight: count * rowHeight,
+    startIndex,
+    endIndex,
+    offsetTop: startIndex * rowHeight,
+    scrollToTop,
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Typed errors for audio input
+ * Messages are written for display; `kind` lets callers branch without instanceof chains
+ */
+
+export type AudioInputErrorKind = 'unsupported' | 'too_large' | 'empty' | 'silent' | 'no_melody';
+
+const MESSAGES: Record<AudioInputErrorKind, string> = {
+  unsupported: "This audio format can't be decoded. Try an MP3, WAV or WebM file.",
+  too_large: 'This file is too large to identify.',
+  empty: 'This file contains no audio.',
+  silent: 'This recording is silent. Make sure the song is audible and try again.',
+  no_melody: 'No clear tune was heard. Hum a few more notes, a little louder.',
+};
+
+export class AudioInputError extends Error {
+  readonly kind: AudioInputErrorKind;
+
+  constructor(kind: AudioInputErrorKind, cause?: unknown) {
+    super(MESSAGES[kind]);
+    this.name = 'AudioInputError';
+    this.kind = kind;
+    this.cause = cause;
+  }
+}
@@ -0,0 +1,134 @@
+import { decodeWav, isWav, mixToMono, resample } from '@/utils/audio';
+import { AudioInputError } from '@/lib/audioErrors';
+import { FINGERPRINT_SAMPLE_RATE, FINGERPRINT_MAX_AUDIO_BYTES } from '@/constants';
+
+/**
+ * Browser audio input for fingerprinting and offline transcription: decoding files and recording the microphone
+ */
+
+/**
+ * Decodes an audio file to mono samples
+ * WAV is decoded in plain JavaScript; anything else (MP3, AAC, Ogg, WebM) needs Web Audio
+ * @param data - Encoded audio; Web Audio detaches it
+ * @param sampleRate - Sample rate to return (default: FINGERPRINT_SAMPLE_RATE)
+ * @returns Mono samples
+ * @throws AudioInputError if the data is empty, too large or can't be decoded
+ */
+export async function decodeAudioFile(data: ArrayBuffer, sampleRate: number = FINGERPRINT_SAMPLE_RATE): Promise<Float32Array> {
+  if (data.byteLength === 0) {
+    throw new AudioInputError('empty');
+  }
+  if (data.byteLength > FINGERPRINT_MAX_AUDIO_BYTES) {
+    throw new AudioInputError('too_large');
+  }
+
+  if (isWav(data)) {
+    let decoded: ReturnType<typeof decodeWav>;
+    try {
+      decoded = decodeWav(data);
+    } catch (error) {
+      throw new AudioInputError('unsupported', error);
+    }
+    return resample(mixToMono(decoded.channels), decoded.sampleRate, sampleRate);
+  }
+
+  if (typeof OfflineAudioContext === 'undefined') {
+    throw new AudioInputError('unsupported');
+  }
+
+  // decodeAudioData resamples to the context's rate; some browsers refuse rates this low
+  let context: OfflineAudioContext;
+  try {
+    context = new OfflineAudioContext(1, 1, sampleRate);
+  } catch {
+    context = new OfflineAudioContext(1, 1, 44100);
+  }
+
+  let buffer: AudioBuffer;
+  try {
+    buffer = await context.decodeAudioData(data);
+  } catch (error) {
+    throw new AudioInputError('unsupported', error);
+  }
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+  return resample(mixToMono(channels), buffer.sampleRate, sampleRate);
+}
+
+/**
+ * Whether this browser can record the microphone for identification
+ * @returns True if getUserMedia and MediaRecorder are available
+ */
+export function isMicrophoneCaptureSupported(): boolean {
+  return (
+    typeof navigator !== 'undefined' &&
+    !!navigator.mediaDevices?.getUserMedia &&
+    typeof MediaRecorder !== 'undefined'
+  );
+}
+
+/**
+ * Describes a failure to capture the microphone for display
+ * @param error - What getUserMedia or recording threw
+ * @returns A user-facing message
+ */
+export function getMicrophoneErrorMessage(error: unknown): string {
+  if (error instanceof DOMException && error.name === 'NotAllowedError') {
+    return 'Microphone access was denied. Allow it in your browser and try again.';
+  }
+  if (error instanceof DOMException && error.name === 'NotFoundError') {
+    return 'No microphone was found.';
+  }
+  return error instanceof Error ? error.message : 'Recording failed.';
+}
+
+/**
+ * Records the microphone for a fixed time
+ * Echo cancellation, noise suppression and gain control are turned off, since they
+ * treat music as noise
+ * @param durationMs - How long to record
+ * @param signal - Stops recording early; what was captured so far is still returned
+ * @returns The encoded recording (format chosen by the browser)
+ * @throws Error if the microphone is unavailable or permission is denied
+ */
+export async function recordMicrophone(durationMs: number, signal?: AbortSignal): Promise<ArrayBuffer> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+  });
+
+  try {
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    const stopped = new Promise<void>((resolve, reject) => {
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          chunks.push(event.data);
+        }
+      };
+      recorder.onstop = () => resolve();
+      recorder.onerror = () => reject(new Error('Recording failed.'));
+    });
+
+    const stop = () => {
+      if (recorder.state !== 'inactive') {
+        recorder.stop();
+      }
+    };
+    const timer = setTimeout(stop, durationMs);
+    signal?.addEventListener('abort', stop, { once: true });
+
+    recorder.start();
+    if (signal?.aborted) {
+      stop();
+    }
+    try {
+      await stopped;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', stop);
+    }
+
+    return await new Blob(chunks, { type: recorder.mimeType }).arrayBuffer();
+  } finally {
+    stream.getTracks().forEach((track) => track.stop());
+  }
+}
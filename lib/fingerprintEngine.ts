@@ -0,0 +1,144 @@
+import { createFingerprint, createFingerprintIndex } from '@/utils/fingerprint';
+import type { Fingerprint, FingerprintMatch, StoredFingerprint } from '@/types/fingerprint';
+import type { FingerprintWorkerRequest, FingerprintWorkerResponse } from '@/types/fingerprintWorker';
+
+export interface FingerprintEngine {
+  /** Adds previously computed fingerprints to the index */
+  load(fingerprints: StoredFingerprint[]): void;
+  /**
+   * Fingerprints a song and adds it to the index
+   * @param songId - Song the audio belongs to
+   * @param samples - Mono samples at FINGERPRINT_SAMPLE_RATE; transferred to the worker, so unusable afterwards
+   * @returns The computed fingerprint, for persisting
+   */
+  fingerprint(songId: string, samples: Float32Array): Promise<Fingerprint>;
+  /**
+   * Matches a recording against every indexed song
+   * @param samples - Mono samples at FINGERPRINT_SAMPLE_RATE; transferred to the worker, so unusable afterwards
+   * @returns Matching songs, best first
+   */
+  identify(samples: Float32Array): Promise<FingerprintMatch[]>;
+  /** Empties the index */
+  clear(): void;
+  /** Terminates the worker, rejecting requests still in flight */
+  dispose(): void;
+}
+
+type Pending = { resolve: (message: FingerprintWorkerResponse) => void; reject: (error: Error) => void };
+
+/**
+ * Creates a fingerprint engine that hashes and matches audio in a Web Worker
+ * Falls back to the main thread where workers are unavailable, or once the worker
+ * fails to load or crashes. Unlike search, requests don't supersede each other;
+ * each resolves in turn.
+ * @returns A fingerprint engine
+ */
+export function createFingerprintEngine(): FingerprintEngine {
+  let worker: Worker | null = null;
+  let requestId = 0;
+  const pending = new Map<number, Pending>();
+  // Only used without a worker
+  const index = createFingerprintIndex();
+  // Everything the worker has indexed, so the main thread can take over if it fails
+  const indexed = new Map<string, Fingerprint>();
+
+  // A worker that failed can't answer; reject what it owed and fingerprint on the main thread from now on
+  const abandonWorker = (reason: string) => {
+    console.error(`${reason}, fingerprinting on the main thread`);
+    worker?.terminate();
+    worker = null;
+    indexed.forEach((fingerprint, songId) => index.add(songId, fingerprint));
+    indexed.clear();
+    pending.forEach(({ reject }) => reject(new Error(reason)));
+    pending.clear();
+  };
+
+  if (typeof window !== 'undefined' && typeof Worker !== 'undefined') {
+    try {
+      worker = new Worker(new URL('../workers/fingerprint.worker.ts', import.meta.url));
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        abandonWorker(`Fingerprint worker failed${event.message ? `: ${event.message}` : ''}`);
+      };
+      worker.onmessageerror = () => abandonWorker('Fingerprint worker sent an unreadable message');
+      worker.onmessage = (event: MessageEvent<FingerprintWorkerResponse>) => {
+        const message = event.data;
+        const request = pending.get(message.requestId);
+        if (!request) {
+          return;
+        }
+        pending.delete(message.requestId);
+        if (message.type === 'error') {
+          request.reject(new Error(message.message));
+        } else {
+          request.resolve(message);
+        }
+      };
+    } catch (error) {
+      console.error('Fingerprint worker unavailable, fingerprinting on the main thread:', error);
+      worker = null;
+    }
+  }
+
+  const request = (message: FingerprintWorkerRequest & { requestId: number; samples: Float32Array }) =>
+    new Promise<FingerprintWorkerResponse>((resolve, reject) => {
+      pending.set(message.requestId, { resolve, reject });
+      worker?.postMessage(message, [message.samples.buffer]);
+    });
+
+  return {
+    load(fingerprints: StoredFingerprint[]) {
+      if (worker) {
+        fingerprints.forEach((fingerprint) => indexed.set(fingerprint.songId, fingerprint));
+        worker.postMessage({ type: 'load', fingerprints } satisfies FingerprintWorkerRequest);
+      } else {
+        fingerprints.forEach((fingerprint) => index.add(fingerprint.songId, fingerprint));
+      }
+    },
+
+    async fingerprint(songId: string, samples: Float32Array) {
+      if (!worker) {
+        const fingerprint = createFingerprint(samples);
+        index.add(songId, fingerprint);
+        return fingerprint;
+      }
+
+      requestId += 1;
+      const response = await request({ type: 'fingerprint', requestId, songId, samples });
+      if (response.type !== 'fingerprinted') {
+        throw new Error('Unexpected fingerprint worker response');
+      }
+      indexed.set(songId, response.fingerprint);
+      return response.fingerprint;
+    },
+
+    async identify(samples: Float32Array) {
+      if (!worker) {
+        return index.match(createFingerprint(samples));
+      }
+
+      requestId += 1;
+      const response = await request({ type: 'identify', requestId, samples });
+      if (response.type !== 'matches') {
+        throw new Error('Unexpected fingerprint worker response');
+      }
+      return response.matches;
+    },
+
+    clear() {
+      indexed.clear();
+      if (worker) {
+        worker.postMessage({ type: 'clear' } satisfies FingerprintWorkerRequest);
+      } else {
+        index.clear();
+      }
+    },
+
+    dispose() {
+      pending.forEach(({ reject }) => reject(new Error('Fingerprint engine disposed')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    },
+  };
+}
@@ -0,0 +1,223 @@
+import type { Song } from '@/types/speech';
+import type { StoredFingerprint } from '@/types/fingerprint';
+import type { StoredMelody } from '@/types/melody';
+import {
+  LIBRARY_DB_NAME,
+  LIBRARY_DB_VERSION,
+  LIBRARY_STORE_NAME,
+  FINGERPRINT_STORE_NAME,
+  FINGERPRINT_VERSION,
+  MELODY_STORE_NAME,
+  MELODY_VERSION,
+} from '@/constants';
+
+/** A song library persisted in IndexedDB */
+export interface CachedLibrary {
+  username: string;
+  songs: Song[];
+  /** When the library was last fetched from Suno (ms since epoch) */
+  syncedAt: number;
+  /** When every page was last walked, which is the only way to notice deleted clips */
+  fullSyncedAt: number;
+  /** Approximate serialized size of the library in bytes */
+  sizeBytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Wraps an IDBRequest in a Promise
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Opens (and upgrades if needed) the library database
+ * @returns The database, or null where IndexedDB is unavailable (SSR, private browsing)
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null);
+  }
+
+  if (!dbPromise) {
+    let blocked = false;
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+      const request = indexedDB.open(LIBRARY_DB_NAME, LIBRARY_DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(LIBRARY_STORE_NAME)) {
+          db.createObjectStore(LIBRARY_STORE_NAME, { keyPath: 'username' });
+        } else if (event.oldVersion < 2) {
+          // Version 1 stored description prompts as lyrics; refetch rather than search them as such
+          request.transaction?.objectStore(LIBRARY_STORE_NAME).clear();
+        }
+        if (!db.objectStoreNames.contains(FINGERPRINT_STORE_NAME)) {
+          db.createObjectStore(FINGERPRINT_STORE_NAME, { keyPath: 'songId' });
+        }
+        if (!db.objectStoreNames.contains(MELODY_STORE_NAME)) {
+          db.createObjectStore(MELODY_STORE_NAME, { keyPath: 'songId' });
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        if (blocked) {
+          // Went without the cache already; the next operation opens a fresh connection
+          db.close();
+          return;
+        }
+        // Step aside when another tab upgrades the schema, rather than blocking it
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        console.error('Failed to open library cache:', request.error);
+        resolve(null);
+      };
+      // A tab still open on an older version holds up the upgrade; carry on without the cache
+      // rather than wait, and try again on the next operation
+      request.onblocked = () => {
+        console.warn('Library cache upgrade is blocked by another open tab');
+        blocked = true;
+        dbPromise = null;
+        resolve(null);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+// Runs a request against an object store, resolving to fallback if storage is unavailable
+async function withStore<T, F>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  fallback: F,
+  storeName: string = LIBRARY_STORE_NAME
+): Promise<T | F> {
+  const db = await openDatabase();
+  if (!db) {
+    return fallback;
+  }
+
+  try {
+    const store = db.transaction(storeName, mode).objectStore(storeName);
+    return await requestToPromise(run(store));
+  } catch (error) {
+    console.error('Library cache operation failed:', error);
+    return fallback;
+  }
+}
+
+/**
+ * Reads a persisted library
+ * @param username - Normalized Suno username
+ * @returns The cached library, or null if none is stored
+ */
+export async function readCachedLibrary(username: string): Promise<CachedLibrary | null> {
+  const record: CachedLibrary | undefined | null = await withStore('readonly', (store) => store.get(username), null);
+  return record ?? null;
+}
+
+/**
+ * Persists a library, replacing any previous copy
+ * @param username - Normalized Suno username
+ * @param songs - Songs to store
+ * @param fullSyncedAt - When every page was last walked (defaults to now)
+ * @returns The stored record
+ */
+export async function writeCachedLibrary(
+  username: string,
+  songs: Song[],
+  fullSyncedAt: number = Date.now()
+): Promise<CachedLibrary> {
+  const record: CachedLibrary = {
+    username,
+    songs,
+    syncedAt: Date.now(),
+    fullSyncedAt,
+    sizeBytes: new Blob([JSON.stringify(songs)]).size,
+  };
+  await withStore('readwrite', (store) => store.put(record), null);
+  return record;
+}
+
+/**
+ * Deletes one persisted library, or all of them
+ * @param username - Normalized Suno username, or undefined to delete everything
+ */
+export async function deleteCachedLibrary(username?: string): Promise<void> {
+  await withStore('readwrite', (store) => (username ? store.delete(username) : store.clear()), null);
+}
+
+/**
+ * Lists every persisted library
+ * @returns All cached libraries
+ */
+export async function listCachedLibraries(): Promise<CachedLibrary[]> {
+  return withStore('readonly', (store) => store.getAll() as IDBRequest<CachedLibrary[]>, [] as CachedLibrary[]);
+}
+
+/**
+ * Lists every persisted audio fingerprint computed by the current algorithm
+ * @returns Stored fingerprints
+ */
+export async function listCachedFingerprints(): Promise<StoredFingerprint[]> {
+  const records = await withStore(
+    'readonly',
+    (store) => store.getAll() as IDBRequest<StoredFingerprint[]>,
+    [] as StoredFingerprint[],
+    FINGERPRINT_STORE_NAME
+  );
+  return records.filter((record) => record.version === FINGERPRINT_VERSION);
+}
+
+/**
+ * Persists a song's audio fingerprint, replacing any previous one
+ * @param fingerprint - The fingerprint to store
+ */
+export async function writeCachedFingerprint(fingerprint: StoredFingerprint): Promise<void> {
+  await withStore('readwrite', (store) => store.put(fingerprint), null, FINGERPRINT_STORE_NAME);
+}
+
+/**
+ * Deletes every persisted audio fingerprint
+ */
+export async function deleteCachedFingerprints(): Promise<void> {
+  await withStore('readwrite', (store) => store.clear(), null, FINGERPRINT_STORE_NAME);
+}
+
+/**
+ * Lists every persisted melody extracted by the current algorithm
+ * @returns Stored melodies
+ */
+export async function listCachedMelodies(): Promise<StoredMelody[]> {
+  const records = await withStore(
+    'readonly',
+    (store) => store.getAll() as IDBRequest<StoredMelody[]>,
+    [] as StoredMelody[],
+    MELODY_STORE_NAME
+  );
+  return records.filter((record) => record.version === MELODY_VERSION);
+}
+
+/**
+ * Persists a song's melody, replacing any previous one
+ * @param melody - The melody to store
+ */
+export async function writeCachedMelody(melody: StoredMelody): Promise<void> {
+  await withStore('readwrite', (store) => store.put(melody), null, MELODY_STORE_NAME);
+}
+
+/**
+ * Deletes every persisted melody
+ */
+export async function deleteCachedMelodies(): Promise<void> {
+  await withStore('readwrite', (store) => store.clear(), null, MELODY_STORE_NAME);
+}
@@ -0,0 +1,269 @@
+import { decodeAudioFile, getMicrophoneErrorMessage, isMicrophoneCaptureSupported } from '@/lib/audioInput';
+import { AudioInputError } from '@/lib/audioErrors';
+import { isSilent } from '@/utils/audio';
+import type { SpeechRecognizer, SpeechRecognizerHandlers } from '@/lib/speechRecognizer';
+import type { SpeechWorkerRequest, SpeechWorkerResponse } from '@/types/speechWorker';
+import { LOCAL_SPEECH_SAMPLE_RATE, LOCAL_SPEECH_TIMESLICE_MS, LOCAL_SPEECH_UPDATE_MS } from '@/constants';
+
+interface Session {
+  lang: string;
+  stream: MediaStream | null;
+  recorder: MediaRecorder | null;
+  chunks: Blob[];
+  timer: ReturnType<typeof setInterval> | null;
+  /** An interim transcription is in flight */
+  isTranscribing: boolean;
+  /** stop() was called; only the final transcript is still to come */
+  isStopping: boolean;
+}
+
+type Pending = { resolve: (text: string) => void; reject: (error: Error) => void };
+
+/**
+ * Whether this browser can run the offline recognizer
+ * @returns True if the microphone can be recorded and a WebAssembly worker started
+ */
+export function isLocalSpeechRecognitionSupported(): boolean {
+  return isMicrophoneCaptureSupported() && typeof Worker !== 'undefined' && typeof WebAssembly !== 'undefined';
+}
+
+function stopTracks(stream: MediaStream | null) {
+  stream?.getTracks().forEach((track) => track.stop());
+}
+
+// Stops recording without transcribing what was recorded
+function discardSession(session: Session) {
+  if (session.timer) {
+    clearInterval(session.timer);
+  }
+  if (session.recorder) {
+    session.recorder.onstop = null;
+    if (session.recorder.state !== 'inactive') {
+      session.recorder.stop();
+    }
+  }
+  stopTracks(session.stream);
+}
+
+/**
+ * Creates a recognizer that records the microphone with MediaRecorder and transcribes
+ * it with a Whisper model in a Web Worker, entirely on the CPU
+ * While recording, the audio so far is re-transcribed every LOCAL_SPEECH_UPDATE_MS
+ * for an interim transcript; stopping transcribes it once more for the final one.
+ * The worker and model are only loaded on the first start.
+ * @param handlers - Where results are reported
+ * @returns A speech recognizer
+ */
+export function createLocalSpeechRecognizer(handlers: SpeechRecognizerHandlers): SpeechRecognizer {
+  let worker: Worker | null = null;
+  let requestId = 0;
+  const pending = new Map<number, Pending>();
+  let current: Session | null = null;
+  let isDisposed = false;
+
+  // A worker that failed (its script or the model didn't load, or it crashed) can't answer;
+  // reject what it owed, end a session still recording, and start a fresh worker next time
+  const abandonWorker = (reason: string) => {
+    console.error(reason);
+    worker?.terminate();
+    worker = null;
+
+    const session = current;
+    if (session && !session.isStopping) {
+      current = null;
+      discardSession(session);
+      handlers.onError('Offline speech recognition failed to load. Please try again.');
+      handlers.onEnd();
+    }
+    // A stopping session reports the failure as its final transcription's
+    pending.forEach(({ reject }) => reject(new Error(reason)));
+    pending.clear();
+  };
+
+  const getWorker = (): Worker => {
+    if (!worker) {
+      worker = new Worker(new URL('../workers/speech.worker.ts', import.meta.url));
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        abandonWorker(`Speech worker failed${event.message ? `: ${event.message}` : ''}`);
+      };
+      worker.onmessageerror = () => abandonWorker('Speech worker sent an unreadable message');
+      worker.onmessage = (event: MessageEvent<SpeechWorkerResponse>) => {
+        const message = event.data;
+        const request = pending.get(message.requestId);
+        if (!request) {
+          return;
+        }
+        pending.delete(message.requestId);
+        if (message.type === 'error') {
+          request.reject(new Error(message.message));
+        } else {
+          request.resolve(message.text);
+        }
+      };
+    }
+    return worker;
+  };
+
+  const transcribe = async (session: Session): Promise<string> => {
+    const mimeType = session.recorder?.mimeType ?? '';
+    const recording = await new Blob(session.chunks, { type: mimeType }).arrayBuffer();
+    const samples = await decodeAudioFile(recording, LOCAL_SPEECH_SAMPLE_RATE);
+    // Whisper invents words for silence
+    if (isSilent(samples)) {
+      return '';
+    }
+
+    requestId += 1;
+    const message: SpeechWorkerRequest = { type: 'transcribe', requestId, samples, language: session.lang };
+    return new Promise<string>((resolve, reject) => {
+      pending.set(message.requestId, { resolve, reject });
+      getWorker().postMessage(message, [samples.buffer]);
+    });
+  };
+
+  const report = (text: string) => {
+    // Whisper gives a single reading without a confidence
+    handlers.onResult(text ? [{ transcript: text, confidence: 0 }] : []);
+  };
+
+  const updateInterim = async (session: Session) => {
+    if (session.isTranscribing || session.isStopping || session.chunks.length === 0) {
+      return;
+    }
+
+    session.isTranscribing = true;
+    try {
+      const text = await transcribe(session);
+      // The final transcript supersedes interim ones still in flight
+      if (current === session && !session.isStopping) {
+        report(text);
+      }
+    } catch (error) {
+      console.error('Interim transcription failed:', error);
+    } finally {
+      session.isTranscribing = false;
+    }
+  };
+
+  const finish = async (session: Session) => {
+    if (session.timer) {
+      clearInterval(session.timer);
+    }
+    stopTracks(session.stream);
+
+    try {
+      const text = session.chunks.length > 0 ? await transcribe(session) : '';
+      if (current === session) {
+        report(text);
+      }
+    } catch (error) {
+      if (current === session) {
+        console.error('Transcription failed:', error);
+        handlers.onError(error instanceof AudioInputError ? error.message : 'Transcription failed. Please try again.');
+      }
+    }
+
+    // A session started since then owns the handlers now
+    if (current === session) {
+      current = null;
+      handlers.onEnd();
+    }
+  };
+
+  return {
+    kind: 'local',
+
+    start(lang: string) {
+      // A stopping session may still be transcribing; starting over drops its result
+      if (isDisposed || (current && !current.isStopping)) {
+        return;
+      }
+
+      const session: Session = {
+        lang,
+        stream: null,
+        recorder: null,
+        chunks: [],
+        timer: null,
+        isTranscribing: false,
+        isStopping: false,
+      };
+      current = session;
+
+      try {
+        // Start downloading the model while the user is still speaking
+        getWorker().postMessage({ type: 'load' } satisfies SpeechWorkerRequest);
+      } catch (error) {
+        console.error('Speech worker unavailable:', error);
+        current = null;
+        handlers.onError('Offline speech recognition is unavailable in this browser.');
+        handlers.onEnd();
+        return;
+      }
+
+      navigator.mediaDevices
+        .getUserMedia({ audio: true })
+        .then((stream) => {
+          if (current !== session || session.isStopping) {
+            stopTracks(stream);
+            return;
+          }
+
+          const recorder = new MediaRecorder(stream);
+          recorder.ondataavailable = (event) => {
+            if (event.data.size > 0) {
+              session.chunks.push(event.data);
+            }
+          };
+          recorder.onstop = () => {
+            finish(session);
+          };
+          session.stream = stream;
+          session.recorder = recorder;
+          recorder.start(LOCAL_SPEECH_TIMESLICE_MS);
+          session.timer = setInterval(() => updateInterim(session), LOCAL_SPEECH_UPDATE_MS);
+        })
+        .catch((error) => {
+          if (current !== session) {
+            return;
+          }
+          console.error('Microphone unavailable:', error);
+          current = null;
+          handlers.onError(getMicrophoneErrorMessage(error));
+          handlers.onEnd();
+        });
+    },
+
+    stop() {
+      const session = current;
+      if (!session || session.isStopping) {
+        return;
+      }
+
+      session.isStopping = true;
+      if (session.recorder && session.recorder.state !== 'inactive') {
+        // onstop transcribes what was recorded
+        session.recorder.stop();
+      } else {
+        // Still waiting for the microphone, so there's nothing to transcribe
+        current = null;
+        handlers.onEnd();
+      }
+    },
+
+    dispose() {
+      isDisposed = true;
+      const session = current;
+      current = null;
+      if (session) {
+        discardSession(session);
+      }
+
+      pending.forEach(({ reject }) => reject(new Error('Speech recognizer disposed')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    },
+  };
+}
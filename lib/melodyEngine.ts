@@ -0,0 +1,144 @@
+import { createMelody, createMelodyIndex } from '@/utils/melody';
+import type { Melody, MelodyMatch, StoredMelody } from '@/types/melody';
+import type { MelodyWorkerRequest, MelodyWorkerResponse } from '@/types/melodyWorker';
+
+export interface MelodyEngine {
+  /** Adds previously extracted melodies to the index */
+  load(melodies: StoredMelody[]): void;
+  /**
+   * Extracts a song's melody and adds it to the index
+   * @param songId - Song the audio belongs to
+   * @param samples - Mono samples at MELODY_SAMPLE_RATE; transferred to the worker, so unusable afterwards
+   * @returns The extracted melody, for persisting
+   */
+  extract(songId: string, samples: Float32Array): Promise<Melody>;
+  /**
+   * Matches a hummed recording against every indexed song
+   * @param samples - Mono samples at MELODY_SAMPLE_RATE; transferred to the worker, so unusable afterwards
+   * @returns How many notes were heard, and matching songs, closest first
+   */
+  match(samples: Float32Array): Promise<{ noteCount: number; matches: MelodyMatch[] }>;
+  /** Empties the index */
+  clear(): void;
+  /** Terminates the worker, rejecting requests still in flight */
+  dispose(): void;
+}
+
+type Pending = { resolve: (message: MelodyWorkerResponse) => void; reject: (error: Error) => void };
+
+/**
+ * Creates a melody engine that tracks pitch and matches contours in a Web Worker
+ * Falls back to the main thread where workers are unavailable, or once the worker
+ * fails to load or crashes; requests resolve in turn.
+ * @returns A melody engine
+ */
+export function createMelodyEngine(): MelodyEngine {
+  let worker: Worker | null = null;
+  let requestId = 0;
+  const pending = new Map<number, Pending>();
+  // Only used without a worker
+  const index = createMelodyIndex();
+  // Everything the worker has indexed, so the main thread can take over if it fails
+  const indexed = new Map<string, Melody>();
+
+  // A worker that failed can't answer; reject what it owed and track pitch on the main thread from now on
+  const abandonWorker = (reason: string) => {
+    console.error(`${reason}, tracking pitch on the main thread`);
+    worker?.terminate();
+    worker = null;
+    indexed.forEach((melody, songId) => index.add(songId, melody));
+    indexed.clear();
+    pending.forEach(({ reject }) => reject(new Error(reason)));
+    pending.clear();
+  };
+
+  if (typeof window !== 'undefined' && typeof Worker !== 'undefined') {
+    try {
+      worker = new Worker(new URL('../workers/melody.worker.ts', import.meta.url));
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        abandonWorker(`Melody worker failed${event.message ? `: ${event.message}` : ''}`);
+      };
+      worker.onmessageerror = () => abandonWorker('Melody worker sent an unreadable message');
+      worker.onmessage = (event: MessageEvent<MelodyWorkerResponse>) => {
+        const message = event.data;
+        const request = pending.get(message.requestId);
+        if (!request) {
+          return;
+        }
+        pending.delete(message.requestId);
+        if (message.type === 'error') {
+          request.reject(new Error(message.message));
+        } else {
+          request.resolve(message);
+        }
+      };
+    } catch (error) {
+      console.error('Melody worker unavailable, tracking pitch on the main thread:', error);
+      worker = null;
+    }
+  }
+
+  const request = (message: MelodyWorkerRequest & { requestId: number; samples: Float32Array }) =>
+    new Promise<MelodyWorkerResponse>((resolve, reject) => {
+      pending.set(message.requestId, { resolve, reject });
+      worker?.postMessage(message, [message.samples.buffer]);
+    });
+
+  return {
+    load(melodies: StoredMelody[]) {
+      if (worker) {
+        melodies.forEach((melody) => indexed.set(melody.songId, melody));
+        worker.postMessage({ type: 'load', melodies } satisfies MelodyWorkerRequest);
+      } else {
+        melodies.forEach((melody) => index.add(melody.songId, melody));
+      }
+    },
+
+    async extract(songId: string, samples: Float32Array) {
+      if (!worker) {
+        const melody = createMelody(samples);
+        index.add(songId, melody);
+        return melody;
+      }
+
+      requestId += 1;
+      const response = await request({ type: 'extract', requestId, songId, samples });
+      if (response.type !== 'extracted') {
+        throw new Error('Unexpected melody worker response');
+      }
+      indexed.set(songId, response.melody);
+      return response.melody;
+    },
+
+    async match(samples: Float32Array) {
+      if (!worker) {
+        const melody = createMelody(samples);
+        return { noteCount: melody.notes.length, matches: index.match(melody) };
+      }
+
+      requestId += 1;
+      const response = await request({ type: 'match', requestId, samples });
+      if (response.type !== 'matches') {
+        throw new Error('Unexpected melody worker response');
+      }
+      return { noteCount: response.noteCount, matches: response.matches };
+    },
+
+    clear() {
+      indexed.clear();
+      if (worker) {
+        worker.postMessage({ type: 'clear' } satisfies MelodyWorkerRequest);
+      } else {
+        index.clear();
+      }
+    },
+
+    dispose() {
+      pending.forEach(({ reject }) => reject(new Error('Melody engine disposed')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    },
+  };
+}
@@ -0,0 +1,121 @@
+import type {
+  SpeechRecognition,
+  SpeechRecognitionAlternative,
+  SpeechRecognitionConstructor,
+  SpeechRecognitionEvent,
+  SpeechRecognitionResult,
+} from '@/types/speech';
+
+/** One recognition update in a script */
+export interface ScriptedUtterance {
+  /** Text heard so far for the current result */
+  transcript: string;
+  /** Whether the result is final; the next utterance then starts a new result */
+  isFinal?: boolean;
+  /** Wait before emitting this update, in ms (default 250) */
+  delayMs?: number;
+  confidence?: number;
+  /** Lower-ranked readings of the same speech, reported after the main one up to maxAlternatives */
+  alternatives?: SpeechRecognitionAlternative[];
+}
+
+const DEFAULT_STEP_DELAY_MS = 250;
+
+function createResult(alternatives: SpeechRecognitionAlternative[], isFinal: boolean): SpeechRecognitionResult {
+  const result: SpeechRecognitionResult = { isFinal, length: alternatives.length, item: (index) => alternatives[index] };
+  alternatives.forEach((alternative, index) => {
+    result[index] = alternative;
+  });
+  return result;
+}
+
+function createResultList(results: SpeechRecognitionResult[]): SpeechRecognitionEvent['results'] {
+  const list: SpeechRecognitionEvent['results'] = { length: results.length, item: (index) => results[index] };
+  results.forEach((result, index) => {
+    list[index] = result;
+  });
+  return list;
+}
+
+/**
+ * Creates a SpeechRecognition implementation that replays a script instead of listening
+ * Interim updates replace the current result and final ones commit it, as a continuous
+ * browser session does. Pass it to useSpeechRecognition, or assign it to
+ * window.SpeechRecognition before the app loads, to drive voice features without a microphone.
+ * @param script - Updates to emit, in order, after start() is called
+ * @returns A constructor usable wherever the browser's SpeechRecognition is
+ */
+export function createScriptedSpeechRecognition(script: ScriptedUtterance[]): SpeechRecognitionConstructor {
+  return class ScriptedSpeechRecognition extends EventTarget implements SpeechRecognition {
+    continuous = false;
+    interimResults = false;
+    lang = 'en-US';
+    maxAlternatives = 1;
+    onresult: SpeechRecognition['onresult'] = null;
+    onerror: SpeechRecognition['onerror'] = null;
+    onend: SpeechRecognition['onend'] = null;
+
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private running = false;
+
+    start() {
+      if (this.running) {
+        return;
+      }
+      this.running = true;
+
+      const committed: SpeechRecognitionResult[] = [];
+      const emit = (step: number) => {
+        if (!this.running) {
+          return;
+        }
+        if (step >= script.length) {
+          this.stop();
+          return;
+        }
+
+        const utterance = script[step];
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          if (!this.running) {
+            return;
+          }
+          const isFinal = !!utterance.isFinal;
+          // Interim updates are skipped entirely when the caller asked for final results only
+          if (isFinal || this.interimResults) {
+            const alternatives = [
+              { transcript: utterance.transcript, confidence: utterance.confidence ?? 0.9 },
+              ...(utterance.alternatives ?? []),
+            ].slice(0, Math.max(1, this.maxAlternatives));
+            const current = createResult(alternatives, isFinal);
+            const results = [...committed, current];
+            this.onresult?.({ resultIndex: committed.length, results: createResultList(results) });
+            if (isFinal) {
+              committed.push(current);
+            }
+          }
+          // A non-continuous session ends after its first final result
+          if (isFinal && !this.continuous) {
+            this.stop();
+            return;
+          }
+          emit(step + 1);
+        }, utterance.delayMs ?? DEFAULT_STEP_DELAY_MS);
+      };
+
+      emit(0);
+    }
+
+    stop() {
+      if (!this.running) {
+        return;
+      }
+      this.running = false;
+      if (this.timer) {
+        clearTimeout(this.timer);
+        this.timer = null;
+      }
+      this.onend?.();
+    }
+  };
+}
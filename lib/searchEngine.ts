@@ -0,0 +1,130 @@
+import { searchService } from '@/services/searchService';
+import { createSearchIndex } from '@/utils/searchIndex';
+import type { Song } from '@/types/speech';
+import type { SearchResultsPage } from '@/types/search';
+import type { SearchWorkerOptions, SearchWorkerRequest, SearchWorkerResponse } from '@/types/searchWorker';
+
+export interface SearchEngine {
+  /** Sends the current library to the engine; call whenever songs change */
+  sync(songs: Song[]): void;
+  /**
+   * Runs a search, superseding any search still in flight
+   * @returns The requested page of results, or null if the search was cancelled or superseded
+   */
+  search(query: string, options?: SearchWorkerOptions): Promise<SearchResultsPage | null>;
+  /** Cancels the search in flight, if any */
+  cancel(): void;
+  /** Terminates the worker */
+  dispose(): void;
+}
+
+/**
+ * Creates a search engine that scores songs in a Web Worker
+ * Falls back to searching on the main thread where workers are unavailable, or once
+ * the worker fails to load or crashes
+ * @returns A search engine
+ */
+export function createSearchEngine(): SearchEngine {
+  let worker: Worker | null = null;
+  let requestId = 0;
+  let pending: {
+    requestId: number;
+    query: string;
+    options?: SearchWorkerOptions;
+    resolve: (results: SearchResultsPage | null) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  let songs: Song[] = [];
+  // Only used without a worker; each engine keeps its own so callers with different libraries don't evict each other
+  const index = createSearchIndex();
+
+  // A worker that failed can't answer; search on the main thread from now on, starting with what it owed
+  const abandonWorker = (reason: string) => {
+    console.error(`${reason}, searching on the main thread`);
+    worker?.terminate();
+    worker = null;
+    if (pending) {
+      const { query, options, resolve, reject } = pending;
+      pending = null;
+      try {
+        resolve(searchService.searchSongs(index, query, songs, options));
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(reason));
+      }
+    }
+  };
+
+  if (typeof window !== 'undefined' && typeof Worker !== 'undefined') {
+    try {
+      worker = new Worker(new URL('../workers/search.worker.ts', import.meta.url));
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        abandonWorker(`Search worker failed${event.message ? `: ${event.message}` : ''}`);
+      };
+      worker.onmessageerror = () => abandonWorker('Search worker sent an unreadable message');
+      worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+        const message = event.data;
+        // Responses for anything but the newest request are stale
+        if (!pending || message.requestId !== pending.requestId) {
+          return;
+        }
+        const { resolve, reject } = pending;
+        pending = null;
+        if (message.type === 'results') {
+          resolve(message.results);
+        } else {
+          reject(new Error(message.message));
+        }
+      };
+    } catch (error) {
+      console.error('Search worker unavailable, searching on the main thread:', error);
+      worker = null;
+    }
+  }
+
+  const post = (message: SearchWorkerRequest) => worker?.postMessage(message);
+
+  const settlePending = () => {
+    if (pending) {
+      pending.resolve(null);
+      pending = null;
+    }
+  };
+
+  return {
+    sync(nextSongs: Song[]) {
+      songs = nextSongs;
+      post({ type: 'sync', songs: nextSongs });
+    },
+
+    search(query: string, options?: SearchWorkerOptions) {
+      settlePending();
+      requestId += 1;
+
+      if (!worker) {
+        return Promise.resolve(
+          searchService.searchSongs(index, query, songs, options)
+        );
+      }
+
+      const id = requestId;
+      return new Promise<SearchResultsPage | null>((resolve, reject) => {
+        pending = { requestId: id, query, options, resolve, reject };
+        post({ type: 'search', requestId: id, query, options });
+      });
+    },
+
+    cancel() {
+      if (pending) {
+        post({ type: 'cancel', requestId: pending.requestId });
+      }
+      settlePending();
+    },
+
+    dispose() {
+      settlePending();
+      worker?.terminate();
+      worker = null;
+    },
+  };
+}
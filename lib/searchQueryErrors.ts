@@ -0,0 +1,44 @@
+/**
+ * Typed errors for text search query syntax
+ * Messages are written for display; `kind` lets callers branch without instanceof chains,
+ * and `start`/`end` locate the offending text in the query
+ */
+
+export type SearchQueryErrorKind = 'unclosed_quote' | 'empty_phrase' | 'missing_value' | 'invalid_date';
+
+// Example values shown when a field is left empty
+const FIELD_EXAMPLES: Record<string, string> = {
+  tag: 'synthwave',
+  title: 'night',
+  before: '2024-06-01',
+  after: '2024-06-01',
+};
+
+function getMessage(kind: SearchQueryErrorKind, detail: string): string {
+  switch (kind) {
+    case 'unclosed_quote':
+      return 'A quoted phrase is missing its closing quote (").';
+    case 'empty_phrase':
+      return 'Quotes need words between them, like "neon lights".';
+    case 'missing_value':
+      return `${detail}: needs a value, like ${detail}:${FIELD_EXAMPLES[detail] ?? 'value'}.`;
+    case 'invalid_date':
+      return `"${detail}" isn't a date. Use YYYY-MM-DD, like 2024-06-01.`;
+  }
+}
+
+export class SearchQueryError extends Error {
+  readonly kind: SearchQueryErrorKind;
+  /** Offset of the first offending character */
+  readonly start: number;
+  /** Offset just past the offending text */
+  readonly end: number;
+
+  constructor(kind: SearchQueryErrorKind, start: number, end: number, detail: string = '') {
+    super(getMessage(kind, detail));
+    this.name = 'SearchQueryError';
+    this.kind = kind;
+    this.start = start;
+    this.end = end;
+  }
+}
@@ -0,0 +1,53 @@
+import { getTrustedProxyHops } from '@/lib/sunoProxy';
+
+/**
+ * Public origin of the site, used to resolve relative OpenGraph and canonical URLs
+ */
+
+/** Origin for local development, when nothing better is known */
+const DEFAULT_SITE_URL = 'http://localhost:3000';
+
+// The value appended by the outermost trusted proxy; anything left of it came from the client
+function trustedHeaderValue(headers: Headers, name: string, trustedHops: number): string | null {
+  const values = (headers.get(name) ?? '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+  return values.length >= trustedHops ? values[values.length - trustedHops] ?? null : null;
+}
+
+/**
+ * Resolves the site's public origin
+ * NEXT_PUBLIC_SITE_URL wins when set, then Vercel's production domain. Request headers are
+ * client-controlled, so the origin the request was made to is only used when TRUSTED_PROXY_HOPS
+ * is set to say a reverse proxy in front of the server sets them; otherwise localhost
+ * @param headers - Incoming request headers, when rendering per request
+ * @returns The site origin
+ */
+export function getSiteUrl(headers?: Headers): URL {
+  if (process.env.NEXT_PUBLIC_SITE_URL) {
+    return new URL(process.env.NEXT_PUBLIC_SITE_URL);
+  }
+  if (process.env.VERCEL_PROJECT_PRODUCTION_URL) {
+    return new URL(`https://${process.env.VERCEL_PROJECT_PRODUCTION_URL}`);
+  }
+
+  const trustedHops = process.env.TRUSTED_PROXY_HOPS ? getTrustedProxyHops() : 0;
+  if (headers && trustedHops > 0) {
+    const host = trustedHeaderValue(headers, 'x-forwarded-host', trustedHops) || headers.get('host')?.trim();
+    if (host) {
+      const forwardedProtocol = trustedHeaderValue(headers, 'x-forwarded-proto', trustedHops);
+      const protocol =
+        forwardedProtocol === 'http' || forwardedProtocol === 'https'
+          ? forwardedProtocol
+          : host.startsWith('localhost') ? 'http' : 'https';
+      try {
+        return new URL(`${protocol}://${host}`);
+      } catch {
+        // Malformed Host header; fall back to localhost
+      }
+    }
+  }
+
+  return new URL(DEFAULT_SITE_URL);
+}
@@ -0,0 +1,146 @@
+import { createLocalSpeechRecognizer, isLocalSpeechRecognitionSupported } from '@/lib/localSpeechRecognizer';
+import type {
+  SpeechRecognitionAlternative,
+  SpeechRecognitionConstructor,
+  SpeechRecognitionEvent,
+  SpeechRecognitionErrorEvent,
+} from '@/types/speech';
+import {
+  SPEECH_RECOGNITION_LANG,
+  SPEECH_RECOGNITION_CONTINUOUS,
+  SPEECH_RECOGNITION_INTERIM_RESULTS,
+  SPEECH_RECOGNITION_MAX_ALTERNATIVES,
+} from '@/constants';
+
+/** Callbacks a recognizer reports through */
+export interface SpeechRecognizerHandlers {
+  /** N-best readings of the whole session so far, best first */
+  onResult: (alternatives: SpeechRecognitionAlternative[]) => void;
+  /** A user-facing message; onEnd follows */
+  onError: (message: string) => void;
+  /** The session ended, after its last result */
+  onEnd: () => void;
+}
+
+export interface SpeechRecognizer {
+  /** 'native' for the browser's Web Speech API, 'local' for the offline model */
+  readonly kind: 'native' | 'local';
+  /**
+   * Starts a session
+   * @param lang - BCP 47 language to recognize
+   */
+  start(lang: string): void;
+  /** Ends the session; the final result may still follow */
+  stop(): void;
+  /** Ends the session without reporting anything further and frees resources */
+  dispose(): void;
+}
+
+/** Builds a recognizer that reports to the given handlers */
+export type SpeechRecognizerFactory = (handlers: SpeechRecognizerHandlers) => SpeechRecognizer;
+
+/**
+ * Builds whole-session alternatives from per-result ones
+ * The nth alternative reads every result through its nth alternative (or its best, when it has
+ * fewer), and its confidence is the average over results
+ */
+function getSessionAlternatives(results: SpeechRecognitionEvent['results']): SpeechRecognitionAlternative[] {
+  let depth = 0;
+  for (let i = 0; i < results.length; i++) {
+    depth = Math.max(depth, results[i].length);
+  }
+
+  const alternatives: SpeechRecognitionAlternative[] = [];
+  for (let n = 0; n < depth; n++) {
+    const parts: string[] = [];
+    let confidence = 0;
+    for (let i = 0; i < results.length; i++) {
+      const result = results[i];
+      const alternative = result[Math.min(n, result.length - 1)];
+      parts.push(alternative.transcript.trim());
+      confidence += alternative.confidence;
+    }
+
+    const transcript = parts.filter(Boolean).join(' ');
+    // Results with a single reading make deeper alternatives repeat shallower ones
+    if (transcript && !alternatives.some((alternative) => alternative.transcript === transcript)) {
+      alternatives.push({ transcript, confidence: confidence / results.length });
+    }
+  }
+  return alternatives;
+}
+
+/**
+ * Creates a recognizer backed by a Web Speech API implementation
+ * @param Recognition - The browser's SpeechRecognition, or a stand-in such as a scripted fake
+ * @param handlers - Where results are reported
+ * @returns A speech recognizer
+ */
+export function createWebSpeechRecognizer(
+  Recognition: SpeechRecognitionConstructor,
+  handlers: SpeechRecognizerHandlers
+): SpeechRecognizer {
+  const recognition = new Recognition();
+  recognition.continuous = SPEECH_RECOGNITION_CONTINUOUS;
+  recognition.interimResults = SPEECH_RECOGNITION_INTERIM_RESULTS;
+  recognition.lang = SPEECH_RECOGNITION_LANG;
+  recognition.maxAlternatives = SPEECH_RECOGNITION_MAX_ALTERNATIVES;
+
+  recognition.onresult = (event: SpeechRecognitionEvent) => {
+    // Continuous sessions keep every result in the list, so rebuild from the start
+    handlers.onResult(getSessionAlternatives(event.results));
+  };
+
+  recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+    console.error('Speech recognition error:', event.error);
+    handlers.onError(`Error: ${event.error}`);
+  };
+
+  recognition.onend = () => {
+    handlers.onEnd();
+  };
+
+  return {
+    kind: 'native',
+
+    start(lang: string) {
+      recognition.lang = lang;
+      recognition.start();
+    },
+
+    stop() {
+      recognition.stop();
+    },
+
+    dispose() {
+      recognition.onresult = null;
+      recognition.onerror = null;
+      recognition.onend = null;
+      recognition.stop();
+    },
+  };
+}
+
+/**
+ * Picks the recognizer this browser can run
+ * The Web Speech API is preferred; without it, the offline model takes over
+ * @param recognitionConstructor - Web Speech implementation to use instead of the browser's
+ * @returns A recognizer factory, or null if neither engine is available
+ */
+export function getSpeechRecognizerFactory(
+  recognitionConstructor?: SpeechRecognitionConstructor
+): SpeechRecognizerFactory | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  const Recognition: SpeechRecognitionConstructor | undefined =
+    recognitionConstructor || (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+  if (Recognition) {
+    return (handlers) => createWebSpeechRecognizer(Recognition, handlers);
+  }
+  if (isLocalSpeechRecognitionSupported()) {
+    return createLocalSpeechRecognizer;
+  }
+  return null;
+}
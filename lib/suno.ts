@@ -1,56 +1,469 @@
-import type { SunoProfile, SunoClip, Song } from '@/types/speech';
-import { SUNO_API_BASE_URL, MAX_CONSECUTIVE_EMPTY_PAGES } from '@/constants';
+import type { SunoProfile, SunoClip, Song, SunoSyncResult, MalformedClip } from '@/types/speech';
+import {
+  SUNO_API_BASE_URL,
+  MAX_CONSECUTIVE_EMPTY_PAGES,
+  SUNO_PROXY_PATH,
+  SUNO_AUDIO_BASE_URL,
+  SUNO_AUDIO_PROXY_PATH,
+  SUNO_FETCH_MODE,
+  SUNO_USERNAME_PATTERN,
+  SUNO_CLIP_ID_PATTERN,
+  SUNO_REQUEST_TIMEOUT_MS,
+  SUNO_MAX_RETRIES,
+  SUNO_RETRY_BASE_DELAY_MS,
+  SUNO_RETRY_MAX_DELAY_MS,
+  FINGERPRINT_MAX_AUDIO_BYTES,
+} from '@/constants';
+import {
+  SunoApiError,
+  SunoUserNotFoundError,
+  SunoRateLimitError,
+  SunoUpstreamError,
+  SunoNetworkError,
+  SunoMalformedResponseError,
+} from '@/lib/sunoErrors';
+import { normalizeLineBreaks } from '@/utils/lyrics';
+
+/**
+ * Checks that a username is safe to put in a Suno API path
+ * @param username - The username to check
+ * @returns True if the username only uses allowed characters
+ */
+export function isValidSunoUsername(username: string): boolean {
+  return SUNO_USERNAME_PATTERN.test(username);
+}
+
+/**
+ * Checks that a clip id is safe to put in a Suno API path
+ * @param id - The clip id to check
+ * @returns True if the id only uses allowed characters
+ */
+export function isValidSunoClipId(id: string): boolean {
+  return SUNO_CLIP_ID_PATTERN.test(id);
+}
+
+/**
+ * Builds the Suno API URL for a single clip
+ * @param id - The clip id
+ * @param baseUrl - The Suno API origin (overridable to point at a mock upstream)
+ * @returns The upstream URL
+ */
+export function buildSunoClipUrl(id: string, baseUrl: string = SUNO_API_BASE_URL): string {
+  return `${baseUrl}/api/clip/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Builds the CDN URL of a clip's audio
+ * @param id - The clip id
+ * @param baseUrl - The audio CDN origin (overridable to serve local fixtures)
+ * @returns The upstream URL
+ */
+export function buildSunoAudioUrl(id: string, baseUrl: string = SUNO_AUDIO_BASE_URL): string {
+  return `${baseUrl}/${encodeURIComponent(id)}.mp3`;
+}
+
+/**
+ * Builds the Suno API URL for a profile page
+ * @param username - The Suno username
+ * @param page - The page number
+ * @param baseUrl - The Suno API origin (overridable to point at a mock upstream)
+ * @returns The upstream URL
+ */
+export function buildSunoProfileUrl(username: string, page: number, baseUrl: string = SUNO_API_BASE_URL): string {
+  return `${baseUrl}/api/profiles/${encodeURIComponent(username)}?clips_sort_by=created_at&playlists_sort_by=created_at&page=${page}`;
+}
+
+export interface FetchSunoPageOptions {
+  /** Fetch through the same-origin proxy route or straight from Suno */
+  mode?: 'direct' | 'proxy';
+  /** Cancels the request, including any pending retry delay */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in ms */
+  timeoutMs?: number;
+  /** Retries after the first attempt for rate limits, 5xx and network errors */
+  maxRetries?: number;
+}
+
+// Creates the AbortError that fetch itself throws when aborted
+function createAbortError(): Error {
+  const error = new Error('The operation was aborted.');
+  error.name = 'AbortError';
+  return error;
+}
+
+// Waits for ms, rejecting early with an AbortError if the signal fires
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Parses a Retry-After header (delta seconds or HTTP date) into ms
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with jitter, or the server's Retry-After when it gave one
+function getRetryDelay(attempt: number, error: SunoApiError): number {
+  if (error instanceof SunoRateLimitError && error.retryAfterMs !== null) {
+    return Math.min(error.retryAfterMs, SUNO_RETRY_MAX_DELAY_MS);
+  }
+  const exponential = SUNO_RETRY_BASE_DELAY_MS * 2 ** attempt;
+  return Math.min(exponential + Math.random() * SUNO_RETRY_BASE_DELAY_MS, SUNO_RETRY_MAX_DELAY_MS);
+}
+
+// A single attempt at fetching a page, with its own timeout
+async function requestSunoPage(url: string, username: string, timeoutMs: number, signal?: AbortSignal): Promise<SunoProfile> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+        },
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+      throw new SunoNetworkError(timedOut, error);
+    }
+
+    if (response.status === 404) {
+      throw new SunoUserNotFoundError(username);
+    }
+    if (response.status === 429) {
+      throw new SunoRateLimitError(parseRetryAfter(response.headers.get('Retry-After')));
+    }
+    if (!response.ok) {
+      throw new SunoUpstreamError(response.status);
+    }
+
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch (error) {
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+      throw new SunoMalformedResponseError('body is not valid JSON');
+    }
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new SunoMalformedResponseError('expected a profile object');
+    }
+    const profile = data as SunoProfile;
+    if ('clips' in profile && profile.clips != null && !Array.isArray(profile.clips)) {
+      throw new SunoMalformedResponseError('clips is not a list');
+    }
+
+    return profile;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
 
 /**
  * Fetches a page of clips from the Suno API for a given username
+ * Retries rate limits, server errors and network failures with exponential
+ * backoff, honoring Retry-After
  * @param username - The Suno username to fetch clips for
  * @param page - The page number to fetch
- * @returns The API response data or null if the request fails
+ * @param options - Fetch mode, abort signal, timeout and retry settings
+ * @returns The API response data
+ * @throws SunoApiError subclasses describing the failure, or an AbortError if cancelled
  */
-export async function fetchSunoPage(username: string, page: number): Promise<SunoProfile | null> {
-  const url = `${SUNO_API_BASE_URL}/api/profiles/${username}?clips_sort_by=created_at&playlists_sort_by=created_at&page=${page}`;
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Accept': 'application/json',
-    },
-  });
+export async function fetchSunoPage(
+  username: string,
+  page: number,
+  options: FetchSunoPageOptions = {}
+): Promise<SunoProfile> {
+  const {
+    mode = SUNO_FETCH_MODE,
+    signal,
+    timeoutMs = SUNO_REQUEST_TIMEOUT_MS,
+    maxRetries = SUNO_MAX_RETRIES,
+  } = options;
+  const url = mode === 'proxy'
+    ? `${SUNO_PROXY_PATH}/${encodeURIComponent(username)}?page=${page}`
+    : buildSunoProfileUrl(username, page);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await requestSunoPage(url, username, timeoutMs, signal);
+    } catch (error) {
+      if (!(error instanceof SunoApiError) || !error.isRetryable || attempt >= maxRetries) {
+        throw error;
+      }
+      await delay(getRetryDelay(attempt, error), signal);
+    }
+  }
+}
 
+// A single attempt at downloading a clip's audio
+async function requestSunoAudio(url: string, signal?: AbortSignal): Promise<ArrayBuffer> {
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'GET', signal });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+    throw new SunoNetworkError(false, error);
+  }
+
+  if (response.status === 429) {
+    throw new SunoRateLimitError(parseRetryAfter(response.headers.get('Retry-After')));
+  }
   if (!response.ok) {
-    return null;
+    throw new SunoUpstreamError(response.status);
+  }
+  if (Number(response.headers.get('Content-Length')) > FINGERPRINT_MAX_AUDIO_BYTES) {
+    throw new SunoMalformedResponseError('audio file is too large');
   }
 
-  return response.json();
+  try {
+    return await response.arrayBuffer();
+  } catch (error) {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+    throw new SunoNetworkError(false, error);
+  }
+}
+
+/**
+ * Downloads a song's audio, e.g. to fingerprint it
+ * Retries like fetchSunoPage, but without a per-attempt timeout since files can be large
+ * @param song - The song; direct mode fetches its audioUrl, proxy mode goes by id
+ * @param options - Fetch mode, abort signal and retry settings
+ * @returns The encoded audio file
+ * @throws SunoApiError subclasses describing the failure, or an AbortError if cancelled
+ */
+export async function fetchSunoAudio(
+  song: Pick<Song, 'id' | 'audioUrl'>,
+  options: Omit<FetchSunoPageOptions, 'timeoutMs'> = {}
+): Promise<ArrayBuffer> {
+  const { mode = SUNO_FETCH_MODE, signal, maxRetries = SUNO_MAX_RETRIES } = options;
+  const url = mode === 'proxy'
+    ? `${SUNO_AUDIO_PROXY_PATH}/${encodeURIComponent(song.id)}`
+    : song.audioUrl || buildSunoAudioUrl(song.id);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await requestSunoAudio(url, signal);
+    } catch (error) {
+      if (!(error instanceof SunoApiError) || !error.isRetryable || attempt >= maxRetries) {
+        throw error;
+      }
+      await delay(getRetryDelay(attempt, error), signal);
+    }
+  }
+}
+
+/** The profile a clip was loaded from */
+export interface SongOwner {
+  username: string;
+  displayName?: string;
+}
+
+/**
+ * Reads the owner of a profile page
+ * The requested username is kept as the key so songs group with the library they were loaded into
+ * @param data - A profile page response
+ * @param username - The normalized username that was requested
+ * @returns The song owner
+ */
+export function getProfileOwner(data: SunoProfile, username: string): SongOwner {
+  return {
+    username,
+    displayName: data.display_name || undefined,
+  };
+}
+
+/**
+ * Gets the owner of a clip fetched on its own, outside any profile page
+ * @param clip - The Suno API clip
+ * @returns The song owner, or undefined if the clip doesn't name one
+ */
+export function getClipOwner(clip: SunoClip): SongOwner | undefined {
+  const handle = asString(clip.handle);
+  if (!handle) {
+    return undefined;
+  }
+  return { username: handle.toLowerCase(), displayName: asString(clip.display_name) };
+}
+
+// Returns the value if it is a non-empty string
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
+// Returns the value if it is a finite number
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Checks a raw clip from the API before it is mapped
+ * Clips without an id cannot be tracked and are skipped; other problems are
+ * reported but the clip is still kept with the bad fields left out
+ * @param raw - A clip as it came off the wire
+ * @returns The clip (null if it must be skipped) and any problems found
+ */
+export function validateClip(raw: unknown): { clip: SunoClip | null; issue: MalformedClip | null } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { clip: null, issue: { problems: ['clip is not an object'], skipped: true } };
+  }
+
+  const clip = raw as SunoClip;
+  const id = asString(clip.id);
+  if (!id) {
+    return { clip: null, issue: { problems: ['missing id'], skipped: true } };
+  }
+
+  const problems: string[] = [];
+  const metadata = clip.metadata;
+
+  if (!asString(clip.title)) {
+    problems.push('missing title');
+  }
+  if (clip.created_at !== undefined && (typeof clip.created_at !== 'string' || Number.isNaN(Date.parse(clip.created_at)))) {
+    problems.push('invalid created_at');
+  }
+  (['audio_url', 'video_url', 'image_url', 'image_large_url'] as const).forEach((field) => {
+    if (clip[field] != null && typeof clip[field] !== 'string') {
+      problems.push(`invalid ${field}`);
+    }
+  });
+  (['play_count', 'upvote_count'] as const).forEach((field) => {
+    if (clip[field] != null && asNumber(clip[field]) === undefined) {
+      problems.push(`invalid ${field}`);
+    }
+  });
+  if (metadata != null && (typeof metadata !== 'object' || Array.isArray(metadata))) {
+    problems.push('invalid metadata');
+  } else if (metadata) {
+    (['tags', 'prompt', 'gpt_description_prompt'] as const).forEach((field) => {
+      if (metadata[field] != null && typeof metadata[field] !== 'string') {
+        problems.push(`invalid metadata.${field}`);
+      }
+    });
+    if (metadata.duration != null && asNumber(metadata.duration) === undefined) {
+      problems.push('invalid metadata.duration');
+    }
+  }
+
+  return { clip, issue: problems.length > 0 ? { id, problems, skipped: false } : null };
 }
 
 /**
  * Converts a Suno API clip to a Song object
+ * Fields with the wrong type are left out; run validateClip first to report them
  * @param clip - The Suno API clip to convert
+ * @param owner - The profile the clip was loaded from
  * @returns A Song object
  */
-export function mapClipToSong(clip: SunoClip): Song {
+export function mapClipToSong(clip: SunoClip, owner?: SongOwner): Song {
+  const metadata = clip.metadata && typeof clip.metadata === 'object' ? clip.metadata : undefined;
+  const createdAt = asString(clip.created_at);
+
   return {
     id: clip.id,
-    title: clip.title || 'Untitled',
-    // Try prompt first (user-provided), fall back to gpt_description_prompt (AI-generated)
-    lyrics: clip.metadata?.prompt || clip.metadata?.gpt_description_prompt || '',
-    audioUrl: clip.audio_url,
-    imageUrl: clip.image_large_url || clip.image_url,
-    tags: clip.metadata?.tags || '',
+    title: asString(clip.title) || 'Untitled',
+    artist: owner?.username,
+    artistDisplayName: owner?.displayName,
+    lyrics: normalizeLineBreaks(asString(metadata?.prompt) || ''),
+    descriptionPrompt: asString(metadata?.gpt_description_prompt),
+    stylePrompt: asString(metadata?.tags),
+    audioUrl: asString(clip.audio_url),
+    imageUrl: asString(clip.image_large_url) || asString(clip.image_url),
+    videoUrl: asString(clip.video_url),
+    tags: asString(metadata?.tags) || '',
+    createdAt: createdAt && !Number.isNaN(Date.parse(createdAt)) ? createdAt : undefined,
+    duration: asNumber(metadata?.duration) ?? asNumber(clip.duration),
+    status: asString(clip.status),
+    playCount: asNumber(clip.play_count),
+    likeCount: asNumber(clip.upvote_count),
+    modelVersion: asString(clip.major_model_version) || asString(clip.model_name),
     matchScore: 0,
   };
 }
 
+/** Options for walking a profile's pages */
+export interface FetchAllSunoSongsOptions {
+  /** Stops pagination and in-flight requests */
+  signal?: AbortSignal;
+  /** Called for every clip that failed validation */
+  onMalformedClip?: (issue: MalformedClip) => void;
+}
+
+// Validates and maps one page of clips, reporting malformed ones
+function mapPageClips(
+  rawClips: unknown[],
+  owner: SongOwner,
+  onMalformedClip?: (issue: MalformedClip) => void
+): Song[] {
+  const songs: Song[] = [];
+
+  rawClips.forEach((raw) => {
+    const { clip, issue } = validateClip(raw);
+    if (issue && onMalformedClip) {
+      onMalformedClip(issue);
+    }
+    if (clip) {
+      songs.push(mapClipToSong(clip, owner));
+    }
+  });
+
+  return songs;
+}
+
 /**
  * Fetches all songs from Suno API for a given username
  * Handles pagination and deduplication using a Map
  * @param username - The Suno username to fetch songs for
  * @param onProgress - Optional callback to report progress as songs are loaded
+ * @param options - Abort signal and malformed clip reporting
  * @returns An array of unique Song objects
+ * @throws SunoApiError subclasses when a page cannot be loaded, or an AbortError if cancelled
  */
 export async function fetchAllSunoSongs(
   username: string,
-  onProgress?: (songs: Song[]) => void
+  onProgress?: (songs: Song[]) => void,
+  options: FetchAllSunoSongsOptions = {}
 ): Promise<Song[]> {
   const normalizedUsername = username.trim().toLowerCase();
   let page = 0;
@@ -58,15 +471,9 @@ export async function fetchAllSunoSongs(
   const songsMap = new Map<string, Song>();
 
   while (emptyPages < MAX_CONSECUTIVE_EMPTY_PAGES) {
-    const data = await fetchSunoPage(normalizedUsername, page);
-
-    if (!data || !('clips' in data)) {
-      emptyPages += 1;
-      page += 1;
-      continue;
-    }
-
+    const data = await fetchSunoPage(normalizedUsername, page, { signal: options.signal });
     const pageClips = Array.isArray(data.clips) ? data.clips : [];
+    const owner = getProfileOwner(data, normalizedUsername);
 
     if (pageClips.length === 0) {
       emptyPages += 1;
@@ -78,11 +485,9 @@ export async function fetchAllSunoSongs(
     page += 1;
 
     // Add new songs to the Map (automatically handles deduplication by id)
-    pageClips
-      .filter((clip: SunoClip) => clip.id)
-      .forEach((clip: SunoClip) => {
-        songsMap.set(clip.id, mapClipToSong(clip));
-      });
+    mapPageClips(pageClips, owner, options.onMalformedClip).forEach((song) => {
+      songsMap.set(song.id, song);
+    });
 
     // Report progress with current songs
     if (onProgress) {
@@ -92,3 +497,84 @@ export async function fetchAllSunoSongs(
 
   return Array.from(songsMap.values());
 }
+
+/**
+ * Syncs a cached library with Suno
+ * Pages are sorted newest first, so an incremental sync stops at the first page
+ * containing a clip we already know. Deletions can only be seen by walking every
+ * page, so a full sweep is done when requested or when there is nothing cached.
+ * @param username - The Suno username to sync
+ * @param knownSongs - The cached library, newest first
+ * @param options - fullSweep forces walking every page; onProgress reports the merged library as pages arrive; signal cancels the sync
+ * @returns The updated library, the songs added and removed, and any malformed clips
+ */
+export async function syncSunoSongs(
+  username: string,
+  knownSongs: Song[],
+  options: { fullSweep?: boolean; onProgress?: (songs: Song[]) => void; signal?: AbortSignal } = {}
+): Promise<SunoSyncResult> {
+  const knownById = new Map(knownSongs.map((song) => [song.id, song]));
+  const malformed: MalformedClip[] = [];
+  const onMalformedClip = (issue: MalformedClip) => malformed.push(issue);
+  const initial = knownSongs.length === 0;
+
+  if (options.fullSweep || initial) {
+    const songs = await fetchAllSunoSongs(username, options.onProgress, { signal: options.signal, onMalformedClip });
+    const freshIds = new Set(songs.map((song) => song.id));
+
+    return {
+      songs,
+      added: songs.filter((song) => !knownById.has(song.id)),
+      removed: knownSongs.filter((song) => !freshIds.has(song.id)),
+      malformed,
+      fullSweep: true,
+      initial,
+    };
+  }
+
+  const normalizedUsername = username.trim().toLowerCase();
+  // Songs seen on the pages walked, including refreshed copies of known ones
+  const freshMap = new Map<string, Song>();
+  const added: Song[] = [];
+  let page = 0;
+  let emptyPages = 0;
+  let reachedKnown = false;
+
+  const merge = () => {
+    const merged = new Map(freshMap);
+    knownById.forEach((song, id) => {
+      if (!merged.has(id)) {
+        merged.set(id, song);
+      }
+    });
+    return Array.from(merged.values());
+  };
+
+  while (!reachedKnown && emptyPages < MAX_CONSECUTIVE_EMPTY_PAGES) {
+    const data = await fetchSunoPage(normalizedUsername, page, { signal: options.signal });
+    page += 1;
+
+    const pageClips = Array.isArray(data.clips) ? data.clips : [];
+    const owner = getProfileOwner(data, normalizedUsername);
+    if (pageClips.length === 0) {
+      emptyPages += 1;
+      continue;
+    }
+    emptyPages = 0;
+
+    mapPageClips(pageClips, owner, onMalformedClip).forEach((song) => {
+      if (knownById.has(song.id)) {
+        reachedKnown = true;
+      } else if (!freshMap.has(song.id)) {
+        added.push(song);
+      }
+      freshMap.set(song.id, song);
+    });
+
+    if (options.onProgress) {
+      options.onProgress(merge());
+    }
+  }
+
+  return { songs: merge(), added, removed: [], malformed, fullSweep: false, initial };
+}
@@ -0,0 +1,83 @@
+/**
+ * Typed errors for Suno API requests
+ * Messages are written for display; `kind` lets callers branch without instanceof chains
+ */
+
+export type SunoErrorKind = 'user_not_found' | 'rate_limited' | 'upstream' | 'network' | 'malformed';
+
+export class SunoApiError extends Error {
+  readonly kind: SunoErrorKind;
+  /** HTTP status, when the error came from a response */
+  readonly status?: number;
+
+  constructor(kind: SunoErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'SunoApiError';
+    this.kind = kind;
+    this.status = status;
+  }
+
+  /** Whether retrying the same request may succeed */
+  get isRetryable(): boolean {
+    if (this.kind === 'upstream') {
+      return (this.status ?? 500) >= 500;
+    }
+    return this.kind === 'rate_limited' || this.kind === 'network';
+  }
+}
+
+export class SunoUserNotFoundError extends SunoApiError {
+  constructor(username: string) {
+    super('user_not_found', `No Suno user named "${username}" was found.`, 404);
+    this.name = 'SunoUserNotFoundError';
+  }
+}
+
+export class SunoRateLimitError extends SunoApiError {
+  /** How long the server asked us to wait, if it said */
+  readonly retryAfterMs: number | null;
+
+  constructor(retryAfterMs: number | null) {
+    super('rate_limited', 'Suno is rate limiting requests. Please wait a moment and try again.', 429);
+    this.name = 'SunoRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class SunoUpstreamError extends SunoApiError {
+  constructor(status: number) {
+    super('upstream', `Suno returned an error (HTTP ${status}). Please try again later.`, status);
+    this.name = 'SunoUpstreamError';
+  }
+}
+
+export class SunoNetworkError extends SunoApiError {
+  /** True when the request was aborted by our own timeout */
+  readonly timedOut: boolean;
+
+  constructor(timedOut: boolean, cause?: unknown) {
+    super(
+      'network',
+      timedOut ? 'The request to Suno timed out.' : 'Could not reach Suno. Check your connection and try again.'
+    );
+    this.name = 'SunoNetworkError';
+    this.timedOut = timedOut;
+    this.cause = cause;
+  }
+}
+
+export class SunoMalformedResponseError extends SunoApiError {
+  constructor(detail: string) {
+    super('malformed', `Suno returned an unexpected response: ${detail}`);
+    this.name = 'SunoMalformedResponseError';
+  }
+}
+
+/**
+ * Checks whether an error came from an AbortSignal (the caller cancelled)
+ * @param error - Any thrown value
+ * @returns True for abort errors
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
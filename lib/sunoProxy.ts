@@ -0,0 +1,223 @@
+import {
+  SUNO_API_BASE_URL,
+  SUNO_AUDIO_BASE_URL,
+  PROXY_CACHE_TTL_MS,
+  PROXY_CACHE_MAX_ENTRIES,
+  PROXY_UPSTREAM_TIMEOUT_MS,
+  PROXY_RATE_LIMIT_WINDOW_MS,
+  PROXY_RATE_LIMIT_MAX_REQUESTS,
+  PROXY_TRUSTED_HOPS,
+  PROXY_SHARED_CLIENT_KEY,
+} from '@/constants';
+import { buildSunoProfileUrl, buildSunoClipUrl } from '@/lib/suno';
+
+/**
+ * Server-side helpers for the Suno proxy route
+ * State lives in module scope, so it is shared by all requests handled by the
+ * same server instance.
+ */
+
+/** An upstream response as replayed by the proxy */
+export interface ProxiedPage {
+  status: number;
+  body: string;
+  /** Upstream Retry-After header, passed through on 429/503 */
+  retryAfter: string | null;
+}
+
+/** Result of a rate limit check */
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Seconds until the client's window resets */
+  retryAfterSeconds: number;
+}
+
+const pageCache = new Map<string, ProxiedPage & { expiresAt: number }>();
+const rateLimits = new Map<string, { count: number; windowStart: number }>();
+
+/**
+ * Upstream origin, overridable with SUNO_UPSTREAM_URL to run against a local mock
+ * @returns The Suno API base URL
+ */
+export function getUpstreamBaseUrl(): string {
+  return process.env.SUNO_UPSTREAM_URL || SUNO_API_BASE_URL;
+}
+
+/**
+ * Audio CDN origin, overridable with SUNO_AUDIO_UPSTREAM_URL to serve local audio fixtures
+ * @returns The audio CDN base URL
+ */
+export function getAudioUpstreamBaseUrl(): string {
+  return process.env.SUNO_AUDIO_UPSTREAM_URL || SUNO_AUDIO_BASE_URL;
+}
+
+/**
+ * Number of reverse proxies in front of the server, overridable with TRUSTED_PROXY_HOPS
+ * Use 0 when clients connect to the server directly
+ * @returns Trusted proxy hops
+ */
+export function getTrustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? PROXY_TRUSTED_HOPS);
+  return Number.isInteger(hops) && hops >= 0 ? hops : PROXY_TRUSTED_HOPS;
+}
+
+/**
+ * Client IP for rate limiting, as seen by the outermost trusted proxy
+ * Each proxy appends the address it received the request from to X-Forwarded-For, so
+ * only the last trustedHops entries are trustworthy; anything left of them came from
+ * the client and could be rotated to dodge the limit
+ * @param headers - Request headers
+ * @param trustedHops - Reverse proxies in front of the server (default: getTrustedProxyHops())
+ * @returns The client IP, or PROXY_SHARED_CLIENT_KEY when no trusted proxy reported one
+ */
+export function getClientIp(headers: Headers, trustedHops: number = getTrustedProxyHops()): string {
+  if (trustedHops === 0) {
+    return PROXY_SHARED_CLIENT_KEY;
+  }
+
+  const forwardedFor = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (forwardedFor.length > 0) {
+    // Fewer entries than proxies means the request skipped one, so none can be trusted
+    return forwardedFor.length >= trustedHops
+      ? forwardedFor[forwardedFor.length - trustedHops]
+      : PROXY_SHARED_CLIENT_KEY;
+  }
+
+  // Proxies that don't append X-Forwarded-For usually set X-Real-IP instead
+  return headers.get('x-real-ip')?.trim() || PROXY_SHARED_CLIENT_KEY;
+}
+
+/**
+ * Counts a request against a client's fixed-window rate limit
+ * @param clientKey - Identifies the client, usually its IP address
+ * @param now - Current time in ms (injectable for testing)
+ * @returns Whether the request is allowed and when the window resets
+ */
+export function checkRateLimit(clientKey: string, now: number = Date.now()): RateLimitResult {
+  let entry = rateLimits.get(clientKey);
+
+  if (!entry || now - entry.windowStart >= PROXY_RATE_LIMIT_WINDOW_MS) {
+    entry = { count: 0, windowStart: now };
+    rateLimits.set(clientKey, entry);
+  }
+
+  entry.count += 1;
+
+  // Forget expired windows so the map doesn't grow with every client ever seen
+  if (rateLimits.size > 10000) {
+    rateLimits.forEach((value, key) => {
+      if (now - value.windowStart >= PROXY_RATE_LIMIT_WINDOW_MS) {
+        rateLimits.delete(key);
+      }
+    });
+  }
+
+  return {
+    allowed: entry.count <= PROXY_RATE_LIMIT_MAX_REQUESTS,
+    remaining: Math.max(0, PROXY_RATE_LIMIT_MAX_REQUESTS - entry.count),
+    retryAfterSeconds: Math.ceil((entry.windowStart + PROXY_RATE_LIMIT_WINDOW_MS - now) / 1000),
+  };
+}
+
+/**
+ * Whether an upstream request failed because Suno didn't answer within PROXY_UPSTREAM_TIMEOUT_MS
+ * @param error - What the fetch threw
+ * @returns True for our own timeout, which routes answer with 504
+ */
+export function isUpstreamTimeout(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'TimeoutError';
+}
+
+// Fetches an upstream URL, serving repeated requests from the TTL cache
+// Only successful and not-found responses are cached
+async function fetchCached(key: string, url: string): Promise<ProxiedPage & { cached: boolean }> {
+  const now = Date.now();
+  const hit = pageCache.get(key);
+
+  if (hit && hit.expiresAt > now) {
+    return { status: hit.status, body: hit.body, retryAfter: null, cached: true };
+  }
+
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: {
+      'Accept': 'application/json',
+    },
+    cache: 'no-store',
+    // Also bounds reading the body, so a stalled response can't hold the route open
+    signal: AbortSignal.timeout(PROXY_UPSTREAM_TIMEOUT_MS),
+  });
+  const body = await response.text();
+  const retryAfter = response.headers.get('Retry-After');
+
+  if (response.ok || response.status === 404) {
+    // Evict the oldest entry once full (Maps iterate in insertion order)
+    if (pageCache.size >= PROXY_CACHE_MAX_ENTRIES) {
+      const oldest = pageCache.keys().next().value;
+      if (oldest !== undefined) {
+        pageCache.delete(oldest);
+      }
+    }
+    pageCache.delete(key);
+    pageCache.set(key, { status: response.status, body, retryAfter: null, expiresAt: now + PROXY_CACHE_TTL_MS });
+  }
+
+  return { status: response.status, body, retryAfter, cached: false };
+}
+
+/**
+ * Fetches a profile page from Suno, serving repeated requests from a TTL cache
+ * Only successful and not-found responses are cached
+ * @param username - Validated, normalized Suno username
+ * @param page - Page number
+ * @returns The upstream response and whether it came from the cache
+ * @throws A TimeoutError (see isUpstreamTimeout) if Suno doesn't answer in time
+ */
+export function fetchProfilePageCached(
+  username: string,
+  page: number
+): Promise<ProxiedPage & { cached: boolean }> {
+  return fetchCached(`profile:${username}:${page}`, buildSunoProfileUrl(username, page, getUpstreamBaseUrl()));
+}
+
+/**
+ * Fetches a single clip from Suno through the same TTL cache as profile pages
+ * @param id - Validated clip id
+ * @returns The upstream response and whether it came from the cache
+ */
+export function fetchClipCached(id: string): Promise<ProxiedPage & { cached: boolean }> {
+  return fetchCached(`clip:${id}`, buildSunoClipUrl(id, getUpstreamBaseUrl()));
+}
+
+/**
+ * Creates a pass-through stream that errors once more than maxBytes have flowed through it
+ * Content-Length can be missing or wrong, so proxied bodies are capped as they stream; erroring
+ * cancels the upstream body and aborts the response mid-transfer
+ * @param maxBytes - Most bytes allowed through
+ * @returns A byte stream transform
+ */
+export function createByteLimitStream(maxBytes: number): TransformStream<Uint8Array, Uint8Array> {
+  let received = 0;
+  return new TransformStream({
+    transform(chunk, controller) {
+      received += chunk.byteLength;
+      if (received > maxBytes) {
+        controller.error(new Error(`Body exceeds ${maxBytes} bytes`));
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+/**
+ * Clears the proxy's page cache and rate limit counters
+ */
+export function resetSunoProxy(): void {
+  pageCache.clear();
+  rateLimits.clear();
+}
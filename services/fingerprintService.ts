@@ -0,0 +1,101 @@
+import { fetchSunoAudio } from '@/lib/suno';
+import { decodeAudioFile } from '@/lib/audioInput';
+import { AudioInputError } from '@/lib/audioErrors';
+import { isSilent } from '@/utils/audio';
+import { listCachedFingerprints, writeCachedFingerprint } from '@/lib/libraryCache';
+import type { FingerprintEngine } from '@/lib/fingerprintEngine';
+import type { Song } from '@/types/speech';
+import type { FingerprintMatch } from '@/types/fingerprint';
+import { FINGERPRINT_VERSION } from '@/constants';
+
+/** Loads a song's encoded audio; swap in a fixture loader to fingerprint without the network */
+export type SongAudioLoader = (song: Song, signal?: AbortSignal) => Promise<ArrayBuffer>;
+
+/**
+ * Service for audio fingerprint operations
+ * Fingerprints are computed once per song and persisted next to the cached
+ * libraries, so only songs new since the last visit are downloaded again.
+ */
+export const fingerprintService = {
+  /**
+   * Default audio loader: downloads the song's MP3 through the audio proxy (or directly)
+   * @param song - Song to download
+   * @param signal - Optional AbortSignal to cancel the download
+   * @returns The encoded audio
+   */
+  loadSongAudio(song: Song, signal?: AbortSignal): Promise<ArrayBuffer> {
+    return fetchSunoAudio(song, { signal });
+  },
+
+  /**
+   * Whether a song can be fingerprinted
+   * @param song - Song to check
+   * @returns True for finished songs with audio
+   */
+  canFingerprint(song: Song): boolean {
+    return !!song.audioUrl && (!song.status || song.status === 'complete');
+  },
+
+  /**
+   * Loads persisted fingerprints into an engine
+   * @param engine - Engine to load into
+   * @returns Ids of the songs loaded
+   */
+  async restoreFingerprints(engine: FingerprintEngine): Promise<string[]> {
+    const fingerprints = await listCachedFingerprints();
+    engine.load(fingerprints);
+    return fingerprints.map((fingerprint) => fingerprint.songId);
+  },
+
+  /**
+   * Downloads, decodes and fingerprints a song, then persists the fingerprint
+   * @param engine - Engine to index the song in
+   * @param song - Song to fingerprint
+   * @param loadAudio - Audio loader (defaults to loadSongAudio)
+   * @param signal - Optional AbortSignal to cancel the download
+   * @throws SunoApiError if the download fails, or Error if the audio can't be decoded
+   */
+  async fingerprintSong(
+    engine: FingerprintEngine,
+    song: Song,
+    loadAudio?: SongAudioLoader,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const audio = await (loadAudio ?? this.loadSongAudio)(song, signal);
+    const samples = await decodeAudioFile(audio);
+    const fingerprint = await engine.fingerprint(song.id, samples);
+    await writeCachedFingerprint({
+      songId: song.id,
+      version: FINGERPRINT_VERSION,
+      fingerprintedAt: Date.now(),
+      ...fingerprint,
+    });
+  },
+
+  /**
+   * Identifies which songs a recording comes from
+   * @param engine - Engine holding the fingerprinted songs
+   * @param audio - Encoded recording
+   * @param songs - Loaded songs; matches for songs no longer loaded are dropped
+   * @returns Matches with their songs, best first
+   * @throws AudioInputError if the recording can't be decoded or is silent
+   */
+  async identifyAudio(
+    engine: FingerprintEngine,
+    audio: ArrayBuffer,
+    songs: Song[]
+  ): Promise<Array<{ song: Song; match: FingerprintMatch }>> {
+    const samples = await decodeAudioFile(audio);
+    if (isSilent(samples)) {
+      throw new AudioInputError(samples.length === 0 ? 'empty' : 'silent');
+    }
+
+    const matches = await engine.identify(samples);
+    const songsById = new Map(songs.map((song) => [song.id, song]));
+
+    return matches.flatMap((match) => {
+      const song = songsById.get(match.songId);
+      return song ? [{ song, match }] : [];
+    });
+  },
+};
@@ -4,3 +4,6 @@
 
 export { searchService } from './searchService';
 export { sunoService } from './sunoService';
+export { fingerprintService } from './fingerprintService';
+export type { SongAudioLoader } from './fingerprintService';
+export { melodyService } from './melodyService';
@@ -0,0 +1,82 @@
+import { decodeAudioFile } from '@/lib/audioInput';
+import { AudioInputError } from '@/lib/audioErrors';
+import { isSilent } from '@/utils/audio';
+import { listCachedMelodies, writeCachedMelody } from '@/lib/libraryCache';
+import { fingerprintService, type SongAudioLoader } from '@/services/fingerprintService';
+import type { MelodyEngine } from '@/lib/melodyEngine';
+import type { Song } from '@/types/speech';
+import type { MelodyMatch } from '@/types/melody';
+import { MELODY_MIN_QUERY_NOTES, MELODY_SAMPLE_RATE, MELODY_VERSION } from '@/constants';
+
+/**
+ * Service for query-by-humming operations
+ * Song melodies are extracted once from the same audio as fingerprints and
+ * persisted next to them, so only new songs are downloaded again.
+ */
+export const melodyService = {
+  /**
+   * Loads persisted melodies into an engine
+   * @param engine - Engine to load into
+   * @returns Ids of the songs loaded
+   */
+  async restoreMelodies(engine: MelodyEngine): Promise<string[]> {
+    const melodies = await listCachedMelodies();
+    engine.load(melodies);
+    return melodies.map((melody) => melody.songId);
+  },
+
+  /**
+   * Downloads and decodes a song, extracts its melody, then persists it
+   * @param engine - Engine to index the song in
+   * @param song - Song to extract
+   * @param loadAudio - Audio loader (defaults to fingerprintService.loadSongAudio)
+   * @param signal - Optional AbortSignal to cancel the download
+   * @throws SunoApiError if the download fails, or AudioInputError if the audio can't be decoded
+   */
+  async extractSongMelody(
+    engine: MelodyEngine,
+    song: Song,
+    loadAudio?: SongAudioLoader,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const audio = await (loadAudio ?? fingerprintService.loadSongAudio)(song, signal);
+    const samples = await decodeAudioFile(audio, MELODY_SAMPLE_RATE);
+    const melody = await engine.extract(song.id, samples);
+    await writeCachedMelody({
+      songId: song.id,
+      version: MELODY_VERSION,
+      extractedAt: Date.now(),
+      ...melody,
+    });
+  },
+
+  /**
+   * Finds songs with a melody like a hummed or sung one
+   * @param engine - Engine holding the song melodies
+   * @param audio - Encoded recording
+   * @param songs - Loaded songs; matches for songs no longer loaded are dropped
+   * @returns Matches with their songs, closest first
+   * @throws AudioInputError if the recording can't be decoded, is silent or has too few notes
+   */
+  async matchHumming(
+    engine: MelodyEngine,
+    audio: ArrayBuffer,
+    songs: Song[]
+  ): Promise<Array<{ song: Song; match: MelodyMatch }>> {
+    const samples = await decodeAudioFile(audio, MELODY_SAMPLE_RATE);
+    if (isSilent(samples)) {
+      throw new AudioInputError(samples.length === 0 ? 'empty' : 'silent');
+    }
+
+    const { noteCount, matches } = await engine.match(samples);
+    if (noteCount < MELODY_MIN_QUERY_NOTES) {
+      throw new AudioInputError('no_melody');
+    }
+
+    const songsById = new Map(songs.map((song) => [song.id, song]));
+    return matches.flatMap((match) => {
+      const song = songsById.get(match.songId);
+      return song ? [{ song, match }] : [];
+    });
+  },
+};
@@ -1,6 +1,12 @@
-import { calculateSimilarity } from '@/utils/similarity';
-import type { Song } from '@/types/speech';
-import { MAX_SEARCH_RESULTS } from '@/constants';
+import type { SearchIndex } from '@/utils/searchIndex';
+import { hasActiveFilters, matchesFilters, matchesQueryField, sortSongs } from '@/utils/songFilters';
+import { getSearchQueryText, isPlainSearchQuery, parseSearchQuery } from '@/utils/searchQuery';
+import { SearchQueryError } from '@/lib/searchQueryErrors';
+import type { Song, SpeechRecognitionAlternative } from '@/types/speech';
+import type { SearchResultsPage, SongFilters, SongSortOrder } from '@/types/search';
+import type { SearchWorkerOptions } from '@/types/searchWorker';
+import type { SearchQuery, SearchQueryTerm } from '@/types/searchQuery';
+import { MAX_SEARCH_RESULTS, FUZZY_MATCHING_ENABLED, CHORUS_BOOST_ENABLED } from '@/constants';
 
 /**
  * Service for song search operations
@@ -9,26 +15,155 @@ import { MAX_SEARCH_RESULTS } from '@/constants';
 export const searchService = {
   /**
    * Search songs by query text
-   * @param query - Search query (lyrics fragment)
+   * @param index - Index owned by the caller, kept in sync with songs
+   * @param query - Search query: a lyrics fragment, optionally with phrases, exclusions and field filters
    * @param songs - Array of songs to search through
-   * @returns Sorted array of matching songs with scores
+   * @param options - Matching options (fuzzy matching and chorus boosting are on unless disabled), voice
+   * alternatives, filters, sort order and page
+   * @returns The requested page of filtered, sorted matches with scores
    */
-  searchSongs(query: string, songs: Song[]): Song[] {
+  searchSongs(index: SearchIndex, query: string, songs: Song[], options: SearchWorkerOptions = {}): SearchResultsPage {
+    const pageSize = options.pageSize ?? MAX_SEARCH_RESULTS;
+
     if (!query.trim() || songs.length === 0) {
-      return [];
+      return { results: [], total: 0, page: 0, pageSize };
     }
 
-    // Calculate similarity scores for all songs
-    const scoredSongs = songs.map((song) => ({
-      ...song,
-      matchScore: calculateSimilarity(song.lyrics, query),
-    }));
-
-    // Filter, sort by score, and limit results
-    return scoredSongs
-      .filter((song) => song.matchScore > 0)
-      .sort((a, b) => b.matchScore - a.matchScore)
-      .slice(0, MAX_SEARCH_RESULTS);
+    // Bring the index up to date (only new or changed songs are tokenized), then score candidates
+    index.sync(songs);
+    // Every match is kept so the total counts all pages; voice transcripts are never parsed as syntax
+    const matches = options.alternatives?.length
+      ? this.matchAlternatives(index, options.alternatives, options)
+      : this.matchQuery(index, query, songs, options);
+
+    return this.paginate(this.filterSongs(matches, options.filters, options.sort), options.page ?? 0, pageSize);
+  },
+
+  /**
+   * Scores songs against a typed query
+   * Plain text is scored as is. Otherwise the words and phrases that aren't excluded are
+   * scored, and matches must then satisfy every phrase, exclusion and field term; a query
+   * that only filters lists every song passing the filters. Queries that don't parse are
+   * searched as plain text, so a stray quote in pasted lyrics still finds the song.
+   * @param index - Index holding the songs
+   * @param query - Raw query text
+   * @param songs - Songs in library order, for filter-only queries
+   * @param options - Matching options
+   * @returns Matches, best first
+   */
+  matchQuery(index: SearchIndex, query: string, songs: Song[], options: SearchWorkerOptions = {}): Song[] {
+    let parsed: SearchQuery;
+    try {
+      parsed = parseSearchQuery(query);
+    } catch (error) {
+      if (!(error instanceof SearchQueryError)) {
+        throw error;
+      }
+      parsed = { terms: [] };
+    }
+
+    if (parsed.terms.length === 0 || isPlainSearchQuery(parsed)) {
+      return this.matchAlternatives(index, [{ transcript: query, confidence: 1 }], options);
+    }
+
+    const text = getSearchQueryText(parsed);
+    const candidates = text.trim()
+      ? this.matchAlternatives(index, [{ transcript: text, confidence: 1 }], options)
+      : songs.map((song) => ({ ...song, matchScore: 1, matchSpan: null }));
+    // Words only rank songs; every other term must hold
+    const conditions = parsed.terms.filter((term) => term.type !== 'word' || term.negated);
+
+    return candidates.filter((song) =>
+      conditions.every((term) => this.matchesTerm(index, song, term, options.includeDescriptions) !== term.negated)
+    );
+  },
+
+  /**
+   * Checks a song against one query term, ignoring its negation
+   * @param index - Index holding the song
+   * @param song - Song to check
+   * @param term - Query term
+   * @param includeDescriptions - Whether words and phrases may match the description prompt
+   * @returns True if the song contains the word or phrase, or matches the field
+   */
+  matchesTerm(index: SearchIndex, song: Song, term: SearchQueryTerm, includeDescriptions?: boolean): boolean {
+    if (term.type === 'field') {
+      return matchesQueryField(song, term.field, term.value);
+    }
+    return index.containsPhrase(song.id, term.text, includeDescriptions);
+  },
+
+  /**
+   * Scores songs against every transcript of a query
+   * Each alternative's scores are scaled by its confidence relative to the most confident one,
+   * and a song keeps its best weighted match, so a lower-ranked reading can still find the song
+   * the top one misheard. Confidences of zero (as browsers report for interim results) weigh equally.
+   * @param index - Index holding the songs
+   * @param alternatives - Transcripts with recognizer confidences
+   * @param options - Matching options
+   * @returns Matches, best first
+   */
+  matchAlternatives(
+    index: SearchIndex,
+    alternatives: SpeechRecognitionAlternative[],
+    options: SearchWorkerOptions = {}
+  ): Song[] {
+    const topConfidence = Math.max(...alternatives.map((alternative) => alternative.confidence));
+    const best = new Map<string, Song>();
+
+    alternatives.forEach(({ transcript, confidence }) => {
+      const weight = topConfidence > 0 ? confidence / topConfidence : 1;
+      if (weight <= 0 || !transcript.trim()) {
+        return;
+      }
+
+      const matches = index.search(transcript, {
+        fuzzy: options.fuzzy ?? FUZZY_MATCHING_ENABLED,
+        boostChorus: options.boostChorus ?? CHORUS_BOOST_ENABLED,
+        includeDescriptions: options.includeDescriptions,
+      });
+      matches.forEach((match) => {
+        const matchScore = match.matchScore * weight;
+        const current = best.get(match.id);
+        if (!current || matchScore > current.matchScore) {
+          best.set(match.id, weight === 1 ? match : { ...match, matchScore });
+        }
+      });
+    });
+
+    // A single transcript keeps the index's order, which also breaks ties consistently
+    const results = Array.from(best.values());
+    return alternatives.length > 1 ? results.sort((a, b) => b.matchScore - a.matchScore) : results;
+  },
+
+  /**
+   * Applies result filters and sort order to a whole library, for browsing without a query
+   * @param songs - Songs in library order
+   * @param filters - Filters to apply
+   * @param sort - Sort order; 'score' keeps library order
+   * @returns Filtered, sorted songs
+   */
+  filterSongs(songs: Song[], filters: SongFilters = {}, sort: SongSortOrder = 'score'): Song[] {
+    const filtered = hasActiveFilters(filters) ? songs.filter((song) => matchesFilters(song, filters)) : songs;
+    return sortSongs(filtered, sort);
+  },
+
+  /**
+   * Slices one page out of ranked songs
+   * @param songs - Ranked songs
+   * @param page - Zero-based page index, clamped to the available pages
+   * @param pageSize - Results per page
+   * @returns The page with paging metadata
+   */
+  paginate(songs: Song[], page: number, pageSize: number): SearchResultsPage {
+    const lastPage = Math.max(0, Math.ceil(songs.length / pageSize) - 1);
+    const current = Math.min(Math.max(0, page), lastPage);
+    return {
+      results: songs.slice(current * pageSize, (current + 1) * pageSize),
+      total: songs.length,
+      page: current,
+      pageSize,
+    };
   },
 
   /**
@@ -1,9 +1,23 @@
-import { fetchAllSunoSongs, fetchSunoPage } from '@/lib/suno';
-import type { Song } from '@/types/speech';
+import { syncSunoSongs, fetchSunoPage } from '@/lib/suno';
+import {
+  readCachedLibrary,
+  writeCachedLibrary,
+  deleteCachedLibrary,
+  listCachedLibraries,
+} from '@/lib/libraryCache';
+import { SunoApiError, isAbortError } from '@/lib/sunoErrors';
+import type { Song, SunoSyncResult } from '@/types/speech';
+import { FULL_SYNC_INTERVAL_MS } from '@/constants';
 
 /**
  * Service for Suno API operations
  * Provides caching, error handling, and orchestration for Suno API calls
+ *
+ * Libraries are cached in two tiers: an in-memory Map for the current session
+ * and IndexedDB across reloads. A persisted library is served immediately
+ * through onProgress while a fresh copy is fetched in the background
+ * (stale-while-revalidate). Refreshes only fetch clips newer than the cached
+ * ones, with a full sweep every FULL_SYNC_INTERVAL_MS to catch deletions.
  */
 export const sunoService = {
   // Simple in-memory cache
@@ -13,12 +27,18 @@ export const sunoService = {
   /**
    * Fetch all songs for a username with caching
    * @param username - Suno username
-   * @param onProgress - Optional callback for progressive updates
+   * @param onProgress - Optional callback for progressive updates (receives the persisted library first, if any)
+   * @param onSync - Optional callback reporting which songs were added or removed and which clips were malformed;
+   * malformed clips are reported only here, not logged
+   * @param signal - Optional AbortSignal to cancel the load
    * @returns Array of songs
+   * @throws SunoApiError with a displayable message, or an AbortError if cancelled
    */
   async fetchUserSongs(
     username: string,
-    onProgress?: (songs: Song[]) => void
+    onProgress?: (songs: Song[]) => void,
+    onSync?: (result: SunoSyncResult) => void,
+    signal?: AbortSignal
   ): Promise<Song[]> {
     const normalizedUsername = username.trim().toLowerCase();
     
@@ -32,32 +52,94 @@ export const sunoService = {
       return cached.songs;
     }
 
+    // Serve the persisted library right away while revalidating
+    const persisted = await readCachedLibrary(normalizedUsername);
+    if (persisted) {
+      // Libraries persisted before songs carried an owner get one now
+      persisted.songs = persisted.songs.map((song) => (song.artist ? song : { ...song, artist: normalizedUsername }));
+    }
+    if (persisted && onProgress) {
+      onProgress(persisted.songs);
+    }
+
     // Fetch from API
     try {
-      const songs = await fetchAllSunoSongs(normalizedUsername, onProgress);
-      
+      // Negated so records persisted before full syncs were tracked (no timestamp) get a sweep
+      const fullSweep = !persisted || !(Date.now() - persisted.fullSyncedAt < FULL_SYNC_INTERVAL_MS);
+      const result = await syncSunoSongs(normalizedUsername, persisted?.songs ?? [], {
+        fullSweep,
+        signal,
+        onProgress: (progressSongs) => {
+          if (!onProgress) {
+            return;
+          }
+          if (!persisted || !fullSweep) {
+            // Incremental syncs already merge new pages into the cached library
+            onProgress(progressSongs);
+            return;
+          }
+          // Keep showing the full persisted library until the sweep has caught up with it
+          const merged = new Map(progressSongs.map((song) => [song.id, song]));
+          persisted.songs.forEach((song) => {
+            if (!merged.has(song.id)) {
+              merged.set(song.id, song);
+            }
+          });
+          onProgress(Array.from(merged.values()));
+        },
+      });
+      const { songs } = result;
+
+      // An empty refresh over a non-empty library almost always means the API was unreachable
+      if (songs.length === 0 && persisted && persisted.songs.length > 0) {
+        return persisted.songs;
+      }
+
       // Update cache
       this.cache.set(normalizedUsername, {
         songs,
         timestamp: Date.now(),
       });
+      await writeCachedLibrary(
+        normalizedUsername,
+        songs,
+        result.fullSweep || !persisted ? Date.now() : persisted.fullSyncedAt
+      );
+
+      if (onSync) {
+        onSync(result);
+      }
 
       return songs;
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('Error fetching user songs:', error);
+
+      // Offline, rate limited or upstream failure: fall back to the stale copy
+      if (persisted && error instanceof SunoApiError && error.isRetryable) {
+        return persisted.songs;
+      }
+      if (error instanceof SunoApiError) {
+        throw error;
+      }
       throw new Error('Failed to load songs. Please try again.');
     }
   },
 
   /**
-   * Clear cache for a specific user or all users
+   * Clear cache for a specific user or all users, in memory and on disk
    * @param username - Optional username to clear, or undefined to clear all
    */
-  clearCache(username?: string): void {
+  async clearCache(username?: string): Promise<void> {
     if (username) {
-      this.cache.delete(username.trim().toLowerCase());
+      const normalizedUsername = username.trim().toLowerCase();
+      this.cache.delete(normalizedUsername);
+      await deleteCachedLibrary(normalizedUsername);
     } else {
       this.cache.clear();
+      await deleteCachedLibrary();
     }
   },
 
@@ -68,21 +150,31 @@ export const sunoService = {
    */
   async validateUsername(username: string): Promise<boolean> {
     try {
-      const data = await fetchSunoPage(username.trim().toLowerCase(), 0);
-      return data !== null && !!data.clips && data.clips.length > 0;
+      const data = await fetchSunoPage(username.trim().toLowerCase(), 0, { maxRetries: 0 });
+      return !!data.clips && data.clips.length > 0;
     } catch {
       return false;
     }
   },
 
   /**
-   * Get cache statistics
-   * @returns Cache statistics
+   * Get cache statistics for both tiers
+   * @returns Cache statistics, including persisted size and last sync per username
    */
-  getCacheStats() {
+  async getCacheStats() {
+    const libraries = await listCachedLibraries();
+
     return {
       size: this.cache.size,
       usernames: Array.from(this.cache.keys()),
+      persistent: {
+        size: libraries.length,
+        usernames: libraries.map((library) => library.username),
+        sizeBytes: libraries.reduce((total, library) => total + library.sizeBytes, 0),
+        lastSyncedAt: Object.fromEntries(
+          libraries.map((library) => [library.username, library.syncedAt])
+        ) as Record<string, number>,
+      },
     };
   },
 };
@@ -0,0 +1,76 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/audio/[id]/route';
+import { resetSunoProxy } from '@/lib/sunoProxy';
+
+// A small cap keeps the oversized bodies small
+vi.mock('@/constants', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/constants')>()),
+  FINGERPRINT_MAX_AUDIO_BYTES: 1024,
+}));
+
+// Mock audio CDN serving <id>.mp3
+let upstream: Server;
+
+beforeAll(async () => {
+  upstream = createServer((request, response) => {
+    const id = /^\/([^/]+)\.mp3$/.exec(request.url ?? '')?.[1];
+    if (id === 'small') {
+      response.writeHead(200, { 'Content-Type': 'audio/mpeg', 'Content-Length': '600' });
+      response.end(Buffer.alloc(600, 1));
+    } else if (id === 'declared-large') {
+      response.writeHead(200, { 'Content-Type': 'audio/mpeg', 'Content-Length': '2048' });
+      response.end(Buffer.alloc(2048, 1));
+    } else if (id === 'chunked-large') {
+      // No Content-Length: only counting the streamed bytes catches this one
+      response.writeHead(200, { 'Content-Type': 'audio/mpeg' });
+      response.write(Buffer.alloc(600, 1));
+      setTimeout(() => response.end(Buffer.alloc(600, 1)), 10);
+    } else {
+      response.writeHead(404);
+      response.end();
+    }
+  });
+  await new Promise<void>((resolve) => upstream.listen(0, '127.0.0.1', resolve));
+  vi.stubEnv('SUNO_AUDIO_UPSTREAM_URL', `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`);
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await new Promise((resolve) => upstream.close(resolve));
+});
+
+beforeEach(() => {
+  resetSunoProxy();
+});
+
+function get(id: string) {
+  const request = new NextRequest(`http://localhost/api/audio/${id}`, { headers: { 'x-forwarded-for': '203.0.113.9' } });
+  return GET(request, { params: Promise.resolve({ id }) });
+}
+
+describe('GET /api/audio/[id]', () => {
+  it('streams audio within the size cap', async () => {
+    const response = await get('small');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('audio/mpeg');
+    expect((await response.arrayBuffer()).byteLength).toBe(600);
+  });
+
+  it('refuses audio whose declared length is over the cap', async () => {
+    expect((await get('declared-large')).status).toBe(413);
+  });
+
+  it('aborts a chunked body once it streams past the cap', async () => {
+    const response = await get('chunked-large');
+    expect(response.status).toBe(200);
+    await expect(response.arrayBuffer()).rejects.toThrow(/exceeds 1024 bytes/);
+  });
+
+  it('passes not-found clips through and rejects invalid ids', async () => {
+    expect((await get('missing')).status).toBe(404);
+    expect((await get('bad id!')).status).toBe(400);
+  });
+});
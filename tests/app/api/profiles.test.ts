@@ -0,0 +1,127 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/profiles/[username]/route';
+import { getClientIp, resetSunoProxy } from '@/lib/sunoProxy';
+import { PROXY_RATE_LIMIT_MAX_REQUESTS, PROXY_SHARED_CLIENT_KEY } from '@/constants';
+
+// A short timeout keeps the stalled upstream test quick
+vi.mock('@/constants', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/constants')>()),
+  PROXY_UPSTREAM_TIMEOUT_MS: 100,
+}));
+
+// Mock Suno API: known profiles return one clip, anything else 404
+let upstream: Server;
+const upstreamRequests: string[] = [];
+
+beforeAll(async () => {
+  upstream = createServer((request, response) => {
+    upstreamRequests.push(request.url ?? '');
+    const username = /\/api\/profiles\/([^?]+)/.exec(request.url ?? '')?.[1];
+    if (username === 'known') {
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ clips: [{ id: 'clip-1', title: 'Song' }] }));
+    } else if (username === 'stalled') {
+      // Sends headers, then never finishes the body
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.write('{"clips":');
+      setTimeout(() => response.end(']}'), 1000);
+    } else if (username === 'busy') {
+      response.writeHead(503, { 'Retry-After': '7' });
+      response.end('{}');
+    } else {
+      response.writeHead(404);
+      response.end('{}');
+    }
+  });
+  await new Promise<void>((resolve) => upstream.listen(0, '127.0.0.1', resolve));
+  vi.stubEnv('SUNO_UPSTREAM_URL', `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`);
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await new Promise((resolve) => upstream.close(resolve));
+});
+
+beforeEach(() => {
+  resetSunoProxy();
+  upstreamRequests.length = 0;
+});
+
+function get(username: string, query = '', headers: Record<string, string> = { 'x-forwarded-for': '203.0.113.9' }) {
+  const request = new NextRequest(`http://localhost/api/profiles/${username}${query}`, { headers });
+  return GET(request, { params: Promise.resolve({ username }) });
+}
+
+describe('GET /api/profiles/[username]', () => {
+  it('proxies a profile page and serves the repeat from its cache', async () => {
+    const first = await get('known', '?page=2');
+    expect(first.status).toBe(200);
+    expect(first.headers.get('X-Cache')).toBe('MISS');
+    expect(first.headers.get('Cache-Control')).toBe('public, max-age=0, s-maxage=60');
+    expect(await first.json()).toEqual({ clips: [{ id: 'clip-1', title: 'Song' }] });
+    expect(upstreamRequests).toHaveLength(1);
+    expect(upstreamRequests[0]).toContain('page=2');
+
+    const second = await get('KNOWN', '?page=2');
+    expect(second.headers.get('X-Cache')).toBe('HIT');
+    expect(upstreamRequests).toHaveLength(1);
+  });
+
+  it('caches not-found profiles but passes other errors through uncached', async () => {
+    expect((await get('missing')).status).toBe(404);
+    expect((await get('missing')).headers.get('X-Cache')).toBe('HIT');
+
+    const busy = await get('busy');
+    expect(busy.status).toBe(503);
+    expect(busy.headers.get('Retry-After')).toBe('7');
+    // Nor may a CDN cache errors
+    expect(busy.headers.get('Cache-Control')).toBe('no-store');
+    await get('busy');
+    expect(upstreamRequests.filter((url) => url.includes('busy'))).toHaveLength(2);
+  });
+
+  it('answers 504 when upstream stalls, without caching it', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const stalled = await get('stalled');
+    expect(stalled.status).toBe(504);
+    expect(stalled.headers.get('Cache-Control')).toBe('no-store');
+    vi.restoreAllMocks();
+  });
+
+  it('rejects invalid usernames and pages without calling upstream', async () => {
+    expect((await get('bad name!')).status).toBe(400);
+    expect((await get('known', '?page=-1')).status).toBe(400);
+    expect(upstreamRequests).toHaveLength(0);
+  });
+
+  it('rate limits by the proxy-reported address, whatever the client puts in front of it', async () => {
+    for (let i = 0; i < PROXY_RATE_LIMIT_MAX_REQUESTS; i++) {
+      expect((await get('known', '', { 'x-forwarded-for': `10.0.0.${i % 250}, 198.51.100.7` })).status).toBe(200);
+    }
+    const limited = await get('known', '', { 'x-forwarded-for': '10.9.9.9, 198.51.100.7' });
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Cache-Control')).toBe('no-store');
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+
+    expect((await get('known', '', { 'x-forwarded-for': '198.51.100.8' })).status).toBe(200);
+  });
+});
+
+describe('getClientIp', () => {
+  const headers = (values: Record<string, string>) => new Headers(values);
+
+  it('takes the entry appended by the outermost trusted proxy', () => {
+    expect(getClientIp(headers({ 'x-forwarded-for': '1.1.1.1, 2.2.2.2, 3.3.3.3' }), 1)).toBe('3.3.3.3');
+    expect(getClientIp(headers({ 'x-forwarded-for': '1.1.1.1, 2.2.2.2, 3.3.3.3' }), 2)).toBe('2.2.2.2');
+  });
+
+  it('falls back to one shared key when no trusted proxy reported an address', () => {
+    expect(getClientIp(headers({ 'x-forwarded-for': '1.1.1.1' }), 0)).toBe(PROXY_SHARED_CLIENT_KEY);
+    expect(getClientIp(headers({ 'x-forwarded-for': '1.1.1.1' }), 2)).toBe(PROXY_SHARED_CLIENT_KEY);
+    expect(getClientIp(headers({}), 1)).toBe(PROXY_SHARED_CLIENT_KEY);
+    expect(getClientIp(headers({ 'x-real-ip': '4.4.4.4' }), 1)).toBe('4.4.4.4');
+  });
+});
@@ -0,0 +1,41 @@
+import { bench, describe } from 'vitest';
+import { createSearchIndex } from '@/utils/searchIndex';
+import { scoreMatch, type SimilarityOptions } from '@/utils/similarity';
+import { createSyntheticSongs } from '../fixtures/syntheticSongs';
+
+/**
+ * Linear rescoring versus the inverted index on a few thousand synthetic songs
+ * Run with `pnpm bench`
+ */
+
+const songs = createSyntheticSongs(3000);
+const query = songs[42].lyrics.split('\n')[5].split(' ').slice(0, 5).join(' ');
+const index = createSearchIndex();
+index.sync(songs);
+
+// Linear rescoring is slow enough that a few rounds give a stable figure
+const linearOptions = { iterations: 3, warmupIterations: 1, time: 0, warmupTime: 0 };
+
+function searchLinearly(options: SimilarityOptions) {
+  return songs
+    .map((song) => ({ song, score: scoreMatch(song.lyrics, query, options).score }))
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+describe.each([
+  ['exact', { fuzzy: false, boostChorus: true }],
+  ['fuzzy', { fuzzy: true, boostChorus: true }],
+])(`%s query on ${songs.length} songs`, (_, options) => {
+  bench('linear rescoring', () => {
+    searchLinearly(options);
+  }, linearOptions);
+
+  bench('inverted index', () => {
+    index.search(query, options);
+  });
+});
+
+bench(`indexing ${songs.length} songs`, () => {
+  createSearchIndex().sync(songs);
+}, { iterations: 3, warmupIterations: 0, time: 0, warmupTime: 0 });
@@ -0,0 +1,123 @@
+// Regenerates the WAV fixtures in this folder: node tests/fixtures/audio/generate.mjs
+// Everything is synthesized from fixed seeds, so the output is byte-for-byte reproducible.
+import { writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const SAMPLE_RATE = 11025;
+// Melody fixtures are written at the rate melody extraction resamples to
+const MELODY_SAMPLE_RATE = 8000;
+const outDir = dirname(fileURLToPath(import.meta.url));
+
+// Park-Miller PRNG, so fixtures don't depend on Math.random
+function createRandom(seed) {
+  let state = seed;
+  return () => (state = (state * 16807) % 2147483647) / 2147483647;
+}
+
+// Random three-tone chords changing every quarter second, like a busy arrangement
+function synthesizeSong(seed, seconds) {
+  const random = createRandom(seed);
+  const samples = new Float32Array(Math.round(SAMPLE_RATE * seconds));
+  const chordLength = Math.floor(SAMPLE_RATE / 4);
+  let tones = [];
+  for (let i = 0; i < samples.length; i++) {
+    if (i % chordLength === 0) {
+      tones = [0, 1, 2].map(() => ({ frequency: 80 + random() * 2500, amplitude: 0.2 + random() * 0.5 }));
+    }
+    let value = 0;
+    for (const tone of tones) {
+      value += tone.amplitude * Math.sin((2 * Math.PI * tone.frequency * i) / SAMPLE_RATE);
+    }
+    samples[i] = value * 0.3;
+  }
+  return samples;
+}
+
+// A stretch of a song as a microphone might hear it: quieter, with background noise
+function recordExcerpt(song, startSeconds, seconds, seed) {
+  const random = createRandom(seed);
+  const start = Math.round(startSeconds * SAMPLE_RATE);
+  return song
+    .slice(start, start + Math.round(seconds * SAMPLE_RATE))
+    .map((value) => 0.7 * value + (random() - 0.5) * 0.1);
+}
+
+// Sings MIDI notes as a voice-like tone with a little vibrato; each note may have its own length
+function synthesizeMelody(notes, noteSeconds, seed, { transpose = 0, noise = 0 } = {}) {
+  const random = createRandom(seed);
+  const out = [];
+  let phase = 0;
+  notes.forEach((note, index) => {
+    const frequency = 440 * Math.pow(2, (note + transpose - 69) / 12);
+    const length = Math.round(MELODY_SAMPLE_RATE * (Array.isArray(noteSeconds) ? noteSeconds[index] : noteSeconds));
+    for (let i = 0; i < length; i++) {
+      const envelope = Math.min(1, i / 200, (length - i) / 200);
+      phase += (2 * Math.PI * frequency * (1 + 0.004 * Math.sin(i / 300))) / MELODY_SAMPLE_RATE;
+      const tone = 0.5 * Math.sin(phase) + 0.25 * Math.sin(2 * phase) + 0.12 * Math.sin(3 * phase);
+      out.push(envelope * tone + (random() - 0.5) * noise);
+    }
+    // A breath between notes
+    for (let i = 0; i < MELODY_SAMPLE_RATE * 0.06; i++) {
+      out.push((random() - 0.5) * noise * 0.2);
+    }
+  });
+  return Float32Array.from(out);
+}
+
+// A random walk within an octave and a half, like a vocal line
+function composeMelody(seed, length) {
+  const random = createRandom(seed);
+  const notes = [];
+  let pitch = 64;
+  for (let i = 0; i < length; i++) {
+    pitch = Math.max(55, Math.min(76, pitch + Math.round((random() - 0.5) * 8)));
+    notes.push(pitch);
+  }
+  return notes;
+}
+
+// 8-bit unsigned mono PCM keeps the fixtures small
+function encodeWav(samples, sampleRate = SAMPLE_RATE) {
+  const buffer = Buffer.alloc(44 + samples.length);
+  buffer.write('RIFF', 0, 'ascii');
+  buffer.writeUInt32LE(36 + samples.length, 4);
+  buffer.write('WAVE', 8, 'ascii');
+  buffer.write('fmt ', 12, 'ascii');
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate, 28);
+  buffer.writeUInt16LE(1, 32);
+  buffer.writeUInt16LE(8, 34);
+  buffer.write('data', 36, 'ascii');
+  buffer.writeUInt32LE(samples.length, 40);
+  samples.forEach((value, i) => {
+    buffer[44 + i] = Math.round(128 + Math.max(-1, Math.min(1, value)) * 127);
+  });
+  return buffer;
+}
+
+function write(name, samples, sampleRate) {
+  writeFileSync(join(outDir, name), encodeWav(samples, sampleRate));
+}
+
+const songs = [1, 2, 3].map((seed) => synthesizeSong(seed, 8));
+songs.forEach((song, index) => write(`song-${'abc'[index]}.wav`, song));
+write('excerpt-b.wav', recordExcerpt(songs[1], 2.6, 4, 7));
+write('unrelated.wav', synthesizeSong(99, 4));
+
+// Melodies: two sung songs, a hum of part of the second in another key and at a wandering
+// tempo with one extra note, a hum too short to match, and silence
+const melodies = [11, 12].map((seed) => composeMelody(seed, 30));
+melodies.forEach((notes, index) =>
+  write(`melody-${'ab'[index]}.wav`, synthesizeMelody(notes, 0.3, index + 1, { noise: 0.05 }), MELODY_SAMPLE_RATE)
+);
+const hummed = melodies[1].slice(8, 22);
+hummed.splice(7, 0, hummed[6] + 2);
+const random = createRandom(5);
+const hummedLengths = hummed.map(() => 0.35 + random() * 0.25);
+write('hum-b.wav', synthesizeMelody(hummed, hummedLengths, 3, { transpose: -5, noise: 0.1 }), MELODY_SAMPLE_RATE);
+write('hum-short.wav', synthesizeMelody(melodies[1].slice(0, 3), 0.4, 4, { noise: 0.05 }), MELODY_SAMPLE_RATE);
+write('silence.wav', new Float32Array(MELODY_SAMPLE_RATE), MELODY_SAMPLE_RATE);
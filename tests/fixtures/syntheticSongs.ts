@@ -0,0 +1,80 @@
+import type { Song } from '@/types/speech';
+
+/**
+ * Deterministic synthetic song library for search tests and benchmarks
+ * Lyrics draw on a few hundred common lyric words plus a long tail of invented
+ * ones, so posting lists have the skew of a real library.
+ */
+
+const COMMON_WORDS = (
+  'love heart night light fire dream baby you me we i the a to and in of my your our on with ' +
+  'for all never ever forever tonight again away home road rain sky star stars moon sun time ' +
+  'feel feeling know believe hold holding run running dance dancing fall falling fly flying ' +
+  'burn burning shine shining cry crying lost found alone together sweet cold warm wild free ' +
+  'city street lights neon summer winter ocean river world eyes hands soul mind gold silver ' +
+  'kiss touch whisper shout sing song music beat rhythm radio highway midnight morning golden ' +
+  'broken heartbeat echo shadow ghost angel devil heaven paradise storm thunder wave waves ' +
+  'breathe breath stay go come back down up over under through inside outside tomorrow yesterday'
+).split(' ');
+
+const SYLLABLES = ['ka', 'lo', 'mi', 'ra', 'ven', 'tor', 'sil', 'da', 'ne', 'qu', 'bri', 'zan', 'ol', 'ur', 'es', 'fi'];
+
+const LINE_LENGTH = 8;
+
+// Mulberry32: small, fast and identical on every platform
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function createRareWords(random: () => number, count: number): string[] {
+  const words = new Set<string>();
+  while (words.size < count) {
+    const length = 2 + Math.floor(random() * 3);
+    words.add(Array.from({ length }, () => SYLLABLES[Math.floor(random() * SYLLABLES.length)]).join(''));
+  }
+  return Array.from(words);
+}
+
+/**
+ * Generates a library of synthetic songs
+ * @param count - Number of songs
+ * @param wordsPerSong - Lyric words per song, chorus included
+ * @param seed - Seed; the same seed always yields the same library
+ * @returns Songs with marked-up verse and chorus lyrics, tags and creation dates
+ */
+export function createSyntheticSongs(count: number, wordsPerSong: number = 200, seed: number = 1): Song[] {
+  const random = createRandom(seed);
+  const rareWords = createRareWords(random, 3000);
+  const pickWord = () =>
+    random() < 0.8
+      ? COMMON_WORDS[Math.floor(random() * COMMON_WORDS.length)]
+      : rareWords[Math.floor(random() * rareWords.length)];
+  const createLines = (words: number) => {
+    const lines: string[] = [];
+    for (let i = 0; i < words; i += LINE_LENGTH) {
+      lines.push(Array.from({ length: Math.min(LINE_LENGTH, words - i) }, pickWord).join(' '));
+    }
+    return lines;
+  };
+
+  return Array.from({ length: count }, (_, i) => {
+    const chorus = createLines(LINE_LENGTH * 2);
+    const verse = createLines(Math.max(0, wordsPerSong - chorus.length * LINE_LENGTH));
+    const lyrics = ['[Verse]', ...verse, '', '[Chorus]', ...chorus].join('\n');
+    return {
+      id: `synthetic-${i}`,
+      title: `${pickWord()} ${pickWord()}`,
+      lyrics,
+      tags: `${pickWord()}, ${pickWord()}`,
+      createdAt: new Date(Date.UTC(2024, 0, 1) + i * 3600 * 1000).toISOString(),
+      matchScore: 0,
+    };
+  });
+}
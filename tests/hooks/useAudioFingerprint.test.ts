@@ -0,0 +1,87 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createElement } from 'react';
+import TestRenderer, { act, type ReactTestRenderer } from 'react-test-renderer';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { useAudioFingerprint, type AudioMatch } from '@/hooks/useAudioFingerprint';
+import { createFingerprintEngine } from '@/lib/fingerprintEngine';
+import type { SongAudioLoader } from '@/services/fingerprintService';
+import type { Song } from '@/types/speech';
+
+vi.mock('@/lib/fingerprintEngine', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/fingerprintEngine')>();
+  return { ...actual, createFingerprintEngine: vi.fn(actual.createFingerprintEngine) };
+});
+
+const FIXTURES = join(__dirname, '..', 'fixtures', 'audio');
+
+function readFixture(name: string): ArrayBuffer {
+  const file = readFileSync(join(FIXTURES, name));
+  return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength);
+}
+
+const songs: Song[] = ['a', 'b', 'c'].map((id) => ({
+  id,
+  title: `Song ${id.toUpperCase()}`,
+  lyrics: '',
+  matchScore: 0,
+  audioUrl: `https://cdn1.suno.ai/${id}.mp3`,
+}));
+
+const loadAudio: SongAudioLoader = async (song) => readFixture(`song-${song.id}.wav`);
+
+type FingerprintState = ReturnType<typeof useAudioFingerprint>;
+
+function renderFingerprint() {
+  let state: FingerprintState | undefined;
+  const Probe = () => {
+    state = useAudioFingerprint({ songs, loadAudio });
+    return null;
+  };
+  let renderer: ReactTestRenderer | undefined;
+  act(() => {
+    renderer = TestRenderer.create(createElement(Probe));
+  });
+  return { latest: () => state!, renderer: renderer! };
+}
+
+describe('useAudioFingerprint', () => {
+  beforeAll(() => {
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+  });
+
+  it('starts no engine until fingerprints are first needed', async () => {
+    const { latest, renderer } = renderFingerprint();
+    expect(createFingerprintEngine).not.toHaveBeenCalled();
+    expect(latest().fingerprintableCount).toBe(3);
+
+    await act(() => latest().prepare());
+    await act(() => latest().prepare());
+    expect(createFingerprintEngine).toHaveBeenCalledTimes(1);
+
+    act(() => renderer.unmount());
+  });
+
+  it('identifies a file once the library is fingerprinted, without building it first elsewhere', async () => {
+    vi.mocked(createFingerprintEngine).mockClear();
+    const { latest, renderer } = renderFingerprint();
+
+    // Nothing fingerprinted yet: identifying still works, it just finds nothing
+    let matches: AudioMatch[] = [];
+    await act(async () => {
+      matches = await latest().identifyAudio(readFixture('excerpt-b.wav'));
+    });
+    expect(matches).toEqual([]);
+
+    await act(() => latest().buildIndex());
+    expect(latest().fingerprintedCount).toBe(3);
+    expect(createFingerprintEngine).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      matches = await latest().identifyAudio(readFixture('excerpt-b.wav'));
+    });
+    expect(matches[0].song.id).toBe('b');
+
+    act(() => renderer.unmount());
+  });
+});
@@ -0,0 +1,113 @@
+import { createElement } from 'react';
+import TestRenderer, { act, type ReactTestRenderer } from 'react-test-renderer';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useListenMode } from '@/hooks/useListenMode';
+import { createScriptedSpeechRecognition, type ScriptedUtterance } from '@/lib/scriptedSpeechRecognition';
+import type { Song } from '@/types/speech';
+
+const songs: Song[] = [
+  {
+    id: 'street',
+    title: 'Empty Street',
+    lyrics: '[Verse]\nneon lights are falling on the empty street tonight\n[Chorus]\nhold me closer in the rain',
+    matchScore: 0,
+  },
+  { id: 'city', title: 'City Glow', lyrics: '[Verse]\nneon lights are shining over the sleeping city', matchScore: 0 },
+  { id: 'road', title: 'Open Road', lyrics: '[Verse]\nfalling on the empty road again\nwe drive until the morning', matchScore: 0 },
+  { id: 'sea', title: 'Sea Song', lyrics: '[Verse]\nwaves are calling me back home to the sea', matchScore: 0 },
+];
+
+// Sung word by word, as a browser's interim results arrive
+function singWords(words: string[]): ScriptedUtterance[] {
+  return words.map((_, index) => ({
+    transcript: words.slice(0, index + 1).join(' '),
+    isFinal: index === words.length - 1,
+    delayMs: 20,
+  }));
+}
+
+// Goes on well past the point where one song clearly wins
+const words = 'neon lights are falling on the empty street tonight hold me closer in the rain'.split(' ');
+
+type ListenState = ReturnType<typeof useListenMode>;
+
+// Renders the hook and records every state it renders with
+function renderListenMode(script: ScriptedUtterance[]) {
+  const states: ListenState[] = [];
+  const recognitionConstructor = createScriptedSpeechRecognition(script);
+  const Probe = () => {
+    states.push(useListenMode({ songs, recognitionConstructor }));
+    return null;
+  };
+  let renderer: ReactTestRenderer | undefined;
+  act(() => {
+    renderer = TestRenderer.create(createElement(Probe));
+  });
+  return { states, latest: () => states[states.length - 1], renderer: renderer! };
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 3000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for the listen mode state');
+    }
+    await act(() => new Promise((resolve) => setTimeout(resolve, 10)));
+  }
+}
+
+describe('useListenMode with a scripted transcript', () => {
+  beforeAll(() => {
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+  });
+
+  beforeEach(() => {
+    // Speech recognition is only offered in a browser; the search engine falls back to the main thread without Worker
+    vi.stubGlobal('window', {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('narrows the candidates and stops listening once one song clearly wins', async () => {
+    const { states, latest, renderer } = renderListenMode(singWords(words));
+    expect(latest().isSupported).toBe(true);
+
+    act(() => latest().startListening());
+    expect(latest().isListening).toBe(true);
+
+    await waitFor(() => !latest().isListening);
+
+    const { winner, candidates, transcript } = latest();
+    expect(winner?.song.id).toBe('street');
+    expect(candidates[0].song.id).toBe('street');
+
+    // Early on several songs share the sung words; the field narrows to one clear leader
+    const snapshots = states.filter((state) => state.candidates.length > 0);
+    expect(snapshots[0].candidates.length).toBeGreaterThan(1);
+    const leaderMargin = (state: ListenState) =>
+      state.candidates[0].confidence - (state.candidates[1]?.confidence ?? 0);
+    expect(leaderMargin(latest())).toBeGreaterThan(leaderMargin(snapshots[0]));
+
+    // Listening stopped on the winner, before the script ran out
+    expect(transcript.split(' ').length).toBeLessThan(words.length);
+
+    act(() => renderer.unmount());
+  });
+
+  it('declares no winner while the sung words fit several songs', async () => {
+    const { latest, renderer } = renderListenMode(singWords(['neon', 'lights', 'are', 'falling']));
+    act(() => latest().startListening());
+
+    // The session only ends because the script ran out
+    await waitFor(() => !latest().isListening);
+    expect(latest().transcript).toBe('neon lights are falling');
+    expect(latest().winner).toBeNull();
+    expect(latest().candidates.map((candidate) => candidate.song.id)).toEqual(
+      expect.arrayContaining(['street', 'city'])
+    );
+
+    act(() => renderer.unmount());
+  });
+});
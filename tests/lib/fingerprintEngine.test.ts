@@ -0,0 +1,78 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFingerprintEngine } from '@/lib/fingerprintEngine';
+import { decodeAudioFile } from '@/lib/audioInput';
+import { createFingerprint } from '@/utils/fingerprint';
+import { FINGERPRINT_VERSION } from '@/constants';
+
+// Stands in for the fingerprint worker; tests fire its error handlers by hand
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  onmessageerror: ((event: MessageEvent) => void) | null = null;
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage() {}
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const FIXTURES = join(__dirname, '..', 'fixtures', 'audio');
+
+async function decodeFixture(name: string): Promise<Float32Array> {
+  const file = readFileSync(join(FIXTURES, name));
+  return decodeAudioFile(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength));
+}
+
+describe('createFingerprintEngine', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('window', {});
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('rejects requests in flight when the worker fails, then matches on the main thread', async () => {
+    const engine = createFingerprintEngine();
+    const [worker] = FakeWorker.instances;
+    const fingerprint = createFingerprint(await decodeFixture('song-b.wav'));
+    engine.load([{ songId: 'b', version: FINGERPRINT_VERSION, fingerprintedAt: 0, ...fingerprint }]);
+
+    const inFlight = engine.identify(await decodeFixture('excerpt-b.wav'));
+    worker.onerror?.({ message: 'Script failed to load', preventDefault: () => {} } as ErrorEvent);
+
+    await expect(inFlight).rejects.toThrow('Script failed to load');
+    expect(worker.terminated).toBe(true);
+
+    // What the worker had indexed carries over
+    const matches = await engine.identify(await decodeFixture('excerpt-b.wav'));
+    expect(matches[0]?.songId).toBe('b');
+    engine.dispose();
+  });
+
+  it('falls back when the worker sends an unreadable message', async () => {
+    const engine = createFingerprintEngine();
+    const [worker] = FakeWorker.instances;
+
+    const inFlight = engine.fingerprint('a', await decodeFixture('song-a.wav'));
+    worker.onmessageerror?.({} as MessageEvent);
+
+    await expect(inFlight).rejects.toThrow();
+    await engine.fingerprint('a', await decodeFixture('song-a.wav'));
+    expect((await engine.identify(await decodeFixture('song-a.wav')))[0]?.songId).toBe('a');
+    engine.dispose();
+  });
+});
@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Stands in for the IDBOpenDBRequest; tests fire its handlers by hand
+class FakeOpenRequest {
+  result = { close: vi.fn(), onversionchange: null as (() => void) | null };
+  onsuccess: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onblocked: (() => void) | null = null;
+  onupgradeneeded: (() => void) | null = null;
+}
+
+let requests: FakeOpenRequest[] = [];
+
+describe('libraryCache', () => {
+  beforeEach(() => {
+    requests = [];
+    vi.resetModules();
+    vi.stubGlobal('indexedDB', {
+      open: () => {
+        const request = new FakeOpenRequest();
+        requests.push(request);
+        return request;
+      },
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('reads nothing instead of waiting while another tab blocks the upgrade', async () => {
+    const { readCachedLibrary } = await import('@/lib/libraryCache');
+    const read = readCachedLibrary('artist');
+    await Promise.resolve();
+    requests[0].onblocked?.();
+    await expect(read).resolves.toBeNull();
+
+    // The blocked connection is closed once it opens, and the next read tries again
+    requests[0].onsuccess?.();
+    expect(requests[0].result.close).toHaveBeenCalled();
+    readCachedLibrary('artist');
+    await Promise.resolve();
+    expect(requests).toHaveLength(2);
+  });
+
+  it('closes its connection when another tab upgrades the schema', async () => {
+    const { readCachedLibrary } = await import('@/lib/libraryCache');
+    readCachedLibrary('artist');
+    await Promise.resolve();
+    requests[0].onsuccess?.();
+    await Promise.resolve();
+
+    requests[0].result.onversionchange?.();
+    expect(requests[0].result.close).toHaveBeenCalled();
+    readCachedLibrary('artist');
+    await Promise.resolve();
+    expect(requests).toHaveLength(2);
+  });
+});
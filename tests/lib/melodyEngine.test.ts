@@ -0,0 +1,78 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMelodyEngine } from '@/lib/melodyEngine';
+import { decodeAudioFile } from '@/lib/audioInput';
+import { createMelody } from '@/utils/melody';
+import { MELODY_SAMPLE_RATE, MELODY_VERSION } from '@/constants';
+
+// Stands in for the melody worker; tests fire its error handlers by hand
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  onmessageerror: ((event: MessageEvent) => void) | null = null;
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage() {}
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const FIXTURES = join(__dirname, '..', 'fixtures', 'audio');
+
+async function decodeFixture(name: string): Promise<Float32Array> {
+  const file = readFileSync(join(FIXTURES, name));
+  return decodeAudioFile(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength), MELODY_SAMPLE_RATE);
+}
+
+describe('createMelodyEngine', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('window', {});
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('rejects requests in flight when the worker fails, then matches on the main thread', async () => {
+    const engine = createMelodyEngine();
+    const [worker] = FakeWorker.instances;
+    const melody = createMelody(await decodeFixture('melody-b.wav'));
+    engine.load([{ songId: 'b', version: MELODY_VERSION, extractedAt: 0, ...melody }]);
+
+    const inFlight = engine.match(await decodeFixture('hum-b.wav'));
+    worker.onerror?.({ message: 'Script failed to load', preventDefault: () => {} } as ErrorEvent);
+
+    await expect(inFlight).rejects.toThrow('Script failed to load');
+    expect(worker.terminated).toBe(true);
+
+    // What the worker had indexed carries over
+    const { matches } = await engine.match(await decodeFixture('hum-b.wav'));
+    expect(matches[0]?.songId).toBe('b');
+    engine.dispose();
+  });
+
+  it('falls back when the worker sends an unreadable message', async () => {
+    const engine = createMelodyEngine();
+    const [worker] = FakeWorker.instances;
+
+    const inFlight = engine.extract('b', await decodeFixture('melody-b.wav'));
+    worker.onmessageerror?.({} as MessageEvent);
+
+    await expect(inFlight).rejects.toThrow();
+    await engine.extract('b', await decodeFixture('melody-b.wav'));
+    expect((await engine.match(await decodeFixture('hum-b.wav'))).matches[0]?.songId).toBe('b');
+    engine.dispose();
+  });
+});
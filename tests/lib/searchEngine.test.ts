@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSearchEngine } from '@/lib/searchEngine';
+import type { Song } from '@/types/speech';
+
+// Stands in for the search worker; tests fire its error handlers by hand
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  onmessageerror: ((event: MessageEvent) => void) | null = null;
+  terminated = false;
+  posted: unknown[] = [];
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: unknown) {
+    this.posted.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const songs: Song[] = [{ id: 'a', title: 'A', lyrics: 'neon lights in the rain', matchScore: 0 }];
+
+describe('createSearchEngine', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('window', {});
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('re-runs the search in flight on the main thread when the worker fails, and stays there', async () => {
+    const engine = createSearchEngine();
+    const [worker] = FakeWorker.instances;
+    engine.sync(songs);
+
+    const inFlight = engine.search('neon lights');
+    worker.onerror?.({ message: 'Script failed to load', preventDefault: () => {} } as ErrorEvent);
+
+    expect((await inFlight)?.results.map((song) => song.id)).toEqual(['a']);
+    expect(worker.terminated).toBe(true);
+
+    const results = await engine.search('neon lights');
+    expect(results?.results.map((song) => song.id)).toEqual(['a']);
+    engine.dispose();
+  });
+
+  it('falls back when the worker sends an unreadable message', async () => {
+    const engine = createSearchEngine();
+    const [worker] = FakeWorker.instances;
+    engine.sync(songs);
+
+    const inFlight = engine.search('rain');
+    worker.onmessageerror?.({} as MessageEvent);
+
+    expect((await inFlight)?.total).toBe(1);
+    expect((await engine.search('rain'))?.total).toBe(1);
+    engine.dispose();
+  });
+});
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getSiteUrl } from '@/lib/siteUrl';
+
+describe('getSiteUrl', () => {
+  beforeEach(() => {
+    vi.stubEnv('NEXT_PUBLIC_SITE_URL', '');
+    vi.stubEnv('VERCEL_PROJECT_PRODUCTION_URL', '');
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('prefers NEXT_PUBLIC_SITE_URL, then the Vercel production domain, over the request', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+    const headers = new Headers({ host: 'preview.example' });
+    vi.stubEnv('VERCEL_PROJECT_PRODUCTION_URL', 'shazuno.vercel.app');
+    expect(getSiteUrl(headers).origin).toBe('https://shazuno.vercel.app');
+    vi.stubEnv('NEXT_PUBLIC_SITE_URL', 'https://shazuno.example');
+    expect(getSiteUrl(headers).origin).toBe('https://shazuno.example');
+  });
+
+  it('ignores request headers unless a trusted proxy is configured', () => {
+    const headers = new Headers({ host: 'evil.example', 'x-forwarded-host': 'evil.example' });
+    expect(getSiteUrl(headers).origin).toBe('http://localhost:3000');
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '0');
+    expect(getSiteUrl(headers).origin).toBe('http://localhost:3000');
+    expect(getSiteUrl().origin).toBe('http://localhost:3000');
+  });
+
+  it('derives the origin from what the trusted proxy reports', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+    const headers = new Headers({ host: 'internal:3000', 'x-forwarded-host': 'shazuno.example', 'x-forwarded-proto': 'https' });
+    expect(getSiteUrl(headers).origin).toBe('https://shazuno.example');
+    expect(getSiteUrl(new Headers({ host: 'localhost:3000' })).origin).toBe('http://localhost:3000');
+    expect(getSiteUrl(new Headers({ host: 'shazuno.example', 'x-forwarded-proto': 'ftp' })).origin).toBe(
+      'https://shazuno.example'
+    );
+  });
+
+  it('skips forwarded values the client put in front of the proxy', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+    const headers = new Headers({
+      host: 'internal:3000',
+      'x-forwarded-host': 'evil.example, shazuno.example',
+      'x-forwarded-proto': 'http, https',
+    });
+    expect(getSiteUrl(headers).origin).toBe('https://shazuno.example');
+  });
+});
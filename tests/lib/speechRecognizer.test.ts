@@ -0,0 +1,161 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getSpeechRecognizerFactory, type SpeechRecognizerHandlers } from '@/lib/speechRecognizer';
+import { createScriptedSpeechRecognition } from '@/lib/scriptedSpeechRecognition';
+
+// Stands in for the speech worker; tests fire its error handlers by hand
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  onmessageerror: ((event: MessageEvent) => void) | null = null;
+  terminated = false;
+  posted: Array<{ type: string }> = [];
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: { type: string }) {
+    this.posted.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+// Records one chunk: a real recording, so it decodes and isn't silent
+const recording = readFileSync(join(__dirname, '..', 'fixtures', 'audio', 'melody-a.wav'));
+
+class FakeMediaRecorder {
+  static instances: FakeMediaRecorder[] = [];
+  state: 'inactive' | 'recording' = 'inactive';
+  mimeType = 'audio/wav';
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  constructor() {
+    FakeMediaRecorder.instances.push(this);
+  }
+
+  start() {
+    this.state = 'recording';
+    this.ondataavailable?.({ data: new Blob([recording], { type: this.mimeType }) });
+  }
+
+  stop() {
+    this.state = 'inactive';
+    this.onstop?.();
+  }
+}
+
+const track = { stop: vi.fn() };
+
+function createHandlers() {
+  return { onResult: vi.fn(), onError: vi.fn(), onEnd: vi.fn() } satisfies SpeechRecognizerHandlers;
+}
+
+// Lets the microphone promise and the recording's decoding settle
+const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('getSpeechRecognizerFactory', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    FakeMediaRecorder.instances = [];
+    track.stop.mockClear();
+    vi.stubGlobal('window', {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function stubOfflineSupport() {
+    vi.stubGlobal('navigator', { mediaDevices: { getUserMedia: async () => ({ getTracks: () => [track] }) } });
+    vi.stubGlobal('MediaRecorder', FakeMediaRecorder);
+    vi.stubGlobal('Worker', FakeWorker);
+  }
+
+  it('offers nothing during server rendering', () => {
+    vi.stubGlobal('window', undefined);
+    expect(getSpeechRecognizerFactory(createScriptedSpeechRecognition([]))).toBeNull();
+  });
+
+  it("prefers the browser's Web Speech API, even where the offline model could run", async () => {
+    stubOfflineSupport();
+    const script = [{ transcript: 'neon lights', isFinal: true, delayMs: 1 }];
+    vi.stubGlobal('window', { webkitSpeechRecognition: createScriptedSpeechRecognition(script) });
+
+    const handlers = createHandlers();
+    const recognizer = getSpeechRecognizerFactory()!(handlers);
+    expect(recognizer.kind).toBe('native');
+
+    recognizer.start('en-US');
+    await settle();
+    expect(handlers.onResult).toHaveBeenCalledWith([{ transcript: 'neon lights', confidence: 0.9 }]);
+    expect(handlers.onEnd).toHaveBeenCalled();
+    expect(FakeWorker.instances).toHaveLength(0);
+  });
+
+  it('falls back to the offline model without the Web Speech API', () => {
+    stubOfflineSupport();
+    const recognizer = getSpeechRecognizerFactory()!(createHandlers());
+    expect(recognizer.kind).toBe('local');
+    recognizer.dispose();
+  });
+
+  it('offers nothing when neither engine can run', () => {
+    expect(getSpeechRecognizerFactory()).toBeNull();
+  });
+
+  describe('offline recognizer', () => {
+    beforeEach(stubOfflineSupport);
+
+    it('ends the session with an error when the worker fails while recording', async () => {
+      const handlers = createHandlers();
+      const recognizer = getSpeechRecognizerFactory()!(handlers);
+      recognizer.start('en-US');
+      await settle();
+      const [worker] = FakeWorker.instances;
+      const [recorder] = FakeMediaRecorder.instances;
+      expect(recorder.state).toBe('recording');
+
+      worker.onerror?.({ message: 'Model download failed', preventDefault: () => {} } as ErrorEvent);
+
+      expect(worker.terminated).toBe(true);
+      expect(recorder.state).toBe('inactive');
+      expect(track.stop).toHaveBeenCalled();
+      expect(handlers.onError).toHaveBeenCalledWith('Offline speech recognition failed to load. Please try again.');
+      expect(handlers.onEnd).toHaveBeenCalledTimes(1);
+
+      // The next session starts a fresh worker
+      recognizer.start('en-US');
+      expect(FakeWorker.instances).toHaveLength(2);
+      recognizer.dispose();
+    });
+
+    it('reports a failed final transcription when the worker fails mid-way', async () => {
+      const handlers = createHandlers();
+      const recognizer = getSpeechRecognizerFactory()!(handlers);
+      recognizer.start('en-US');
+      await settle();
+      const [worker] = FakeWorker.instances;
+
+      recognizer.stop();
+      await settle();
+      expect(worker.posted.map((message) => message.type)).toEqual(['load', 'transcribe']);
+
+      worker.onmessageerror?.({} as MessageEvent);
+      await settle();
+
+      expect(handlers.onError).toHaveBeenCalledWith('Transcription failed. Please try again.');
+      expect(handlers.onEnd).toHaveBeenCalledTimes(1);
+      expect(handlers.onResult).not.toHaveBeenCalled();
+      recognizer.dispose();
+    });
+  });
+});
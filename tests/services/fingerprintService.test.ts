@@ -0,0 +1,59 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { fingerprintService, type SongAudioLoader } from '@/services/fingerprintService';
+import { createFingerprintEngine, type FingerprintEngine } from '@/lib/fingerprintEngine';
+import { pickFingerprintWinner } from '@/utils/fingerprint';
+import type { Song } from '@/types/speech';
+
+// Synthetic WAVs; regenerate with node tests/fixtures/audio/generate.mjs
+const FIXTURES = join(__dirname, '..', 'fixtures', 'audio');
+
+function readFixture(name: string): ArrayBuffer {
+  const file = readFileSync(join(FIXTURES, name));
+  return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength);
+}
+
+const songs: Song[] = ['a', 'b', 'c'].map((id) => ({
+  id,
+  title: `Song ${id.toUpperCase()}`,
+  lyrics: '',
+  matchScore: 0,
+  audioUrl: `https://cdn1.suno.ai/${id}.mp3`,
+}));
+
+const loadFixtureAudio: SongAudioLoader = async (song) => readFixture(`song-${song.id}.wav`);
+
+describe('fingerprintService', () => {
+  let engine: FingerprintEngine;
+
+  beforeAll(async () => {
+    // Without Worker the engine fingerprints on the main thread
+    engine = createFingerprintEngine();
+    for (const song of songs) {
+      await fingerprintService.fingerprintSong(engine, song, loadFixtureAudio);
+    }
+  });
+
+  it('ranks the song an excerpt was recorded from first', async () => {
+    const matches = await fingerprintService.identifyAudio(engine, readFixture('excerpt-b.wav'), songs);
+
+    expect(matches[0].song.id).toBe('b');
+    // The excerpt starts 2.6 s into the song
+    expect(matches[0].match.offsetSeconds).toBeCloseTo(2.6, 0);
+    expect(pickFingerprintWinner(matches.map(({ match }) => match))?.songId).toBe('b');
+  });
+
+  it('picks no winner for a clip from none of the songs', async () => {
+    const matches = await fingerprintService.identifyAudio(engine, readFixture('unrelated.wav'), songs);
+
+    expect(pickFingerprintWinner(matches.map(({ match }) => match))).toBeNull();
+  });
+
+  it('drops matches for songs that are no longer loaded', async () => {
+    const loaded = songs.filter((song) => song.id !== 'b');
+    const matches = await fingerprintService.identifyAudio(engine, readFixture('excerpt-b.wav'), loaded);
+
+    expect(matches.map(({ song }) => song.id)).not.toContain('b');
+  });
+});
@@ -0,0 +1,56 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { melodyService } from '@/services/melodyService';
+import { createMelodyEngine } from '@/lib/melodyEngine';
+import { AudioInputError } from '@/lib/audioErrors';
+import type { SongAudioLoader } from '@/services/fingerprintService';
+import type { Song } from '@/types/speech';
+
+// Fixtures come from tests/fixtures/audio/generate.mjs
+const FIXTURES = join(__dirname, '..', 'fixtures', 'audio');
+
+function readFixture(name: string): ArrayBuffer {
+  const file = readFileSync(join(FIXTURES, name));
+  return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength);
+}
+
+const songs: Song[] = ['a', 'b'].map((id) => ({
+  id,
+  title: `Melody ${id.toUpperCase()}`,
+  lyrics: '',
+  matchScore: 0,
+  audioUrl: `https://cdn1.suno.ai/${id}.mp3`,
+}));
+
+const loadAudio: SongAudioLoader = async (song) => readFixture(`melody-${song.id}.wav`);
+
+describe('melodyService', () => {
+  const engine = createMelodyEngine();
+
+  beforeAll(async () => {
+    for (const song of songs) {
+      await melodyService.extractSongMelody(engine, song, loadAudio);
+    }
+  });
+
+  it('matches a hum in another key, at another tempo and with an extra note', async () => {
+    const matches = await melodyService.matchHumming(engine, readFixture('hum-b.wav'), songs);
+    expect(matches[0].song.id).toBe('b');
+    expect(matches[0].match.distance).toBeLessThan(matches[1].match.distance / 2);
+    // The hum starts at the ninth note: 8 notes of 0.3s, each followed by a 0.06s breath
+    expect(matches[0].match.offsetSeconds).toBeCloseTo(2.88, 0);
+  });
+
+  it('asks for more notes when the hum is too short', async () => {
+    const error = await melodyService.matchHumming(engine, readFixture('hum-short.wav'), songs).catch((err) => err);
+    expect(error).toBeInstanceOf(AudioInputError);
+    expect(error.kind).toBe('no_melody');
+  });
+
+  it('reports a silent recording', async () => {
+    const error = await melodyService.matchHumming(engine, readFixture('silence.wav'), songs).catch((err) => err);
+    expect(error).toBeInstanceOf(AudioInputError);
+    expect(error.kind).toBe('silent');
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { stem } from '@/utils/fuzzy';
+import { calculateSimilarity, getWordFeatures, scoreWordPair } from '@/utils/similarity';
+import { ALL_WORDS_MATCH_SCORE, FUZZY_STEM_MATCH_WEIGHT } from '@/constants';
+
+describe('stem', () => {
+  it.each([
+    ['things', 'thing'],
+    ['rains', 'rain'],
+    ['needs', 'need'],
+    ['dancing', 'dance'],
+    ['running', 'run'],
+    ['cries', 'cry'],
+    ['kisses', 'kiss'],
+    ['agreed', 'agree'],
+    ['slowly', 'slow'],
+  ])('gives %s the stem of %s', (word, base) => {
+    expect(stem(word)).toBe(stem(base));
+  });
+
+  it.each(['thing', 'rain', 'within', 'only', 'need', 'bring', 'spring'])('leaves %s whole', (word) => {
+    expect(stem(word)).toBe(word);
+  });
+
+  it.each([
+    ['within', 'with'],
+    ['only', 'on'],
+    ['need', 'ne'],
+    ['thing', 'th'],
+  ])('keeps %s apart from %s', (word, other) => {
+    expect(stem(word)).not.toBe(stem(other));
+  });
+});
+
+describe('calculateSimilarity with fuzzy matching', () => {
+  it('matches plurals through their stem', () => {
+    const score = calculateSimilarity('all the little things', 'little thing', { fuzzy: true });
+    expect(score).toBeGreaterThanOrEqual(ALL_WORDS_MATCH_SCORE * ((1 + FUZZY_STEM_MATCH_WEIGHT) / 2));
+  });
+
+  it('does not match a word to a shorter word it happens to start with', () => {
+    expect(scoreWordPair(getWordFeatures('on'), getWordFeatures('only'), true)).toBe(0);
+    expect(scoreWordPair(getWordFeatures('with'), getWordFeatures('within'), true)).toBe(0);
+  });
+
+  it('still tolerates dropped g through the typo tier', () => {
+    expect(calculateSimilarity('lovin you', 'loving', { fuzzy: true })).toBeGreaterThan(0);
+  });
+});
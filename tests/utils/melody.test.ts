@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { alignIntervals, getIntervals } from '@/utils/melody';
+import { MELODY_MAX_DISTANCE } from '@/constants';
+
+const intervals = (values: number[]) => Float32Array.from(values);
+
+describe('getIntervals', () => {
+  const melody = [60, 62, 64, 60, 67, 65.4, 64];
+
+  it('gives the same contour in every key', () => {
+    const original = getIntervals(Float32Array.from(melody));
+    [-7, -2.5, 3, 12].forEach((semitones) => {
+      const transposed = getIntervals(Float32Array.from(melody.map((note) => note + semitones)));
+      transposed.forEach((interval, i) => expect(interval).toBeCloseTo(original[i], 5));
+    });
+  });
+
+  it('folds leaps wider than an octave back into it', () => {
+    expect(Array.from(getIntervals(Float32Array.from([60, 79, 55, 55])))).toEqual([7, -12, 0]);
+  });
+
+  it('needs two notes for an interval', () => {
+    expect(getIntervals(Float32Array.from([60])).length).toBe(0);
+    expect(getIntervals(new Float32Array(0)).length).toBe(0);
+  });
+});
+
+describe('alignIntervals', () => {
+  // Song contour; the hummed part is intervals 6-13
+  const song = intervals([2, 2, -4, 5, -1, -3, 4, -2, -2, 7, -5, 1, 3, -3, 2, 0, -7, 5, 2, -1]);
+  const hummed = Array.from(song.slice(6, 14));
+
+  it('finds an exact excerpt where it starts', () => {
+    expect(alignIntervals(intervals(hummed), song)).toEqual({ distance: 0, start: 6 });
+  });
+
+  it('tolerates tempo changes that split held notes', () => {
+    // A note held longer breaks into repeats of itself: zero intervals between them
+    const stretched = [hummed[0], 0, hummed[1], hummed[2], 0, 0, ...hummed.slice(3)];
+    const result = alignIntervals(intervals(stretched), song);
+    expect(result?.start).toBe(6);
+    expect(result!.distance).toBeLessThan(MELODY_MAX_DISTANCE);
+  });
+
+  it('tolerates an extra note', () => {
+    // A passing note splits one interval (-2) into two (+2, -4)
+    const withExtra = [...hummed.slice(0, 2), 2, -4, ...hummed.slice(3)];
+    const result = alignIntervals(intervals(withExtra), song);
+    expect(result?.start).toBe(6);
+    expect(result!.distance).toBeLessThan(MELODY_MAX_DISTANCE);
+  });
+
+  it('scores an unrelated contour as far away', () => {
+    const unrelated = intervals([9, -9, 9, -9, 9, -9, 9, -9]);
+    expect(alignIntervals(unrelated, song)!.distance).toBeGreaterThan(MELODY_MAX_DISTANCE);
+  });
+
+  it('has nothing to align when either contour is empty', () => {
+    expect(alignIntervals(new Float32Array(0), song)).toBeNull();
+    expect(alignIntervals(intervals(hummed), new Float32Array(0))).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { searchService } from '@/services/searchService';
+import { createSearchIndex } from '@/utils/searchIndex';
+import { tokenize } from '@/utils/similarity';
+import type { Song } from '@/types/speech';
+
+const words = (text: string) => tokenize(text, false).map((token) => token.word);
+
+const songs: Song[] = [
+  { id: 'ja', title: '名前', lyrics: '[Verse]\n君の名前を呼んでいる\n夜明けまで', matchScore: 0 },
+  { id: 'zh', title: '中国', lyrics: '[Verse]\n我爱你中国\n我的祖国', matchScore: 0 },
+  { id: 'ko', title: '사랑', lyrics: '[Verse]\n사랑해 너를\n영원히 함께', matchScore: 0 },
+  { id: 'ru', title: 'Зима', lyrics: '[Verse]\nЯ люблю тебя зимой\nСнег идёт', matchScore: 0 },
+  { id: 'fr', title: 'Déjà vu', lyrics: '[Verse]\nUn café, déjà vu\nÀ Paris ce soir', matchScore: 0 },
+  { id: 'fw', title: 'Ｗｉｄｅ', lyrics: '[Verse]\nＨＥＬＬＯ　ｗｏｒｌｄ\nｓｉｎｇ ａｌｏｎｇ', matchScore: 0 },
+  { id: 'en', title: 'Plain', lyrics: '[Verse]\nhello again my old friend\nsing along tonight', matchScore: 0 },
+];
+
+function search(query: string): Song[] {
+  return searchService.searchSongs(createSearchIndex(), query, songs, { pageSize: songs.length }).results;
+}
+
+describe('tokenize', () => {
+  it('splits Japanese and Chinese into words', () => {
+    expect(words('君の名前を呼んでいる')).toEqual(expect.arrayContaining(['君', '名前', 'いる']));
+    expect(words('君の名前を呼んでいる').length).toBeGreaterThan(3);
+    expect(words('我爱你中国')).toContain('中国');
+  });
+
+  it('keeps Korean and Cyrillic words whole and lowercases them', () => {
+    expect(words('사랑해 너를')).toEqual(['사랑해', '너를']);
+    expect(words('Я ЛЮБЛЮ тебя')).toEqual(['я', 'люблю', 'тебя']);
+  });
+
+  it('folds accents and full-width forms', () => {
+    expect(words('Café déjà vu')).toEqual(['cafe', 'deja', 'vu']);
+    expect(words('ＨＥＬＬＯ　ｗｏｒｌｄ １２３')).toEqual(['hello', 'world', '123']);
+  });
+});
+
+describe('searchService.searchSongs across scripts', () => {
+  it('finds Japanese lyrics from a phrase inside an unspaced line', () => {
+    const [best] = search('名前を呼んで');
+    expect(best.id).toBe('ja');
+    expect(best.matchScore).toBe(1);
+  });
+
+  it('finds Chinese lyrics from a single word', () => {
+    expect(search('祖国')[0].id).toBe('zh');
+    expect(search('中国')[0].id).toBe('zh');
+  });
+
+  it('finds Korean lyrics', () => {
+    const results = search('사랑해 너를');
+    expect(results[0].id).toBe('ko');
+    expect(results[0].matchScore).toBe(1);
+  });
+
+  it('finds Cyrillic lyrics regardless of case', () => {
+    const results = search('ЛЮБЛЮ ТЕБЯ');
+    expect(results[0].id).toBe('ru');
+    expect(results[0].matchScore).toBe(1);
+  });
+
+  it('matches accented lyrics with and without accents', () => {
+    expect(search('deja vu')[0].id).toBe('fr');
+    expect(search('cafe')[0].id).toBe('fr');
+    expect(search('à paris')[0].id).toBe('fr');
+  });
+
+  it('matches full-width lyrics and queries against their ASCII forms', () => {
+    expect(search('hello world').map((song) => song.id)[0]).toBe('fw');
+    const results = search('ｓｉｎｇ ａｌｏｎｇ').map((song) => song.id);
+    expect(results).toEqual(expect.arrayContaining(['fw', 'en']));
+  });
+});
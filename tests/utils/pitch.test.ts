@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { detectPitch, trackPitch } from '@/utils/pitch';
+import { MELODY_FRAME_SIZE, MELODY_HOP_SIZE, MELODY_SAMPLE_RATE } from '@/constants';
+
+function sine(hz: number, seconds: number, amplitude = 0.5): Float32Array {
+  return Float32Array.from({ length: Math.round(MELODY_SAMPLE_RATE * seconds) }, (_, i) =>
+    amplitude * Math.sin((2 * Math.PI * hz * i) / MELODY_SAMPLE_RATE)
+  );
+}
+
+// Distance between two pitches in cents (hundredths of a semitone)
+function cents(detected: number, expected: number): number {
+  return Math.abs(1200 * Math.log2(detected / expected));
+}
+
+describe('detectPitch', () => {
+  // High notes span few samples per period at 8 kHz, so interpolation leaves them a little off
+  it.each([110, 220, 261.63, 440, 880])('finds %f Hz in a pure sine wave', (hz) => {
+    expect(cents(detectPitch(sine(hz, 0.1), 0), hz)).toBeLessThan(15);
+  });
+
+  it('finds the fundamental under strong harmonics', () => {
+    const [second, third] = [sine(392, 0.1, 0.4), sine(588, 0.1, 0.3)];
+    const samples = sine(196, 0.1).map((value, i) => value + second[i] + third[i]);
+    expect(cents(detectPitch(samples, 0), 196)).toBeLessThan(15);
+  });
+
+  it('reports no pitch for silence or noise', () => {
+    expect(detectPitch(new Float32Array(MELODY_FRAME_SIZE), 0)).toBe(0);
+    let seed = 3;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const noise = Float32Array.from({ length: MELODY_FRAME_SIZE }, () => random() - 0.5);
+    expect(detectPitch(noise, 0)).toBe(0);
+  });
+});
+
+describe('trackPitch', () => {
+  it('tracks a pitch per hop and leaves quiet frames unvoiced', () => {
+    const samples = new Float32Array(MELODY_SAMPLE_RATE);
+    samples.set(sine(330, 0.5));
+    const pitches = trackPitch(samples);
+
+    expect(pitches.length).toBe(Math.floor((samples.length - MELODY_FRAME_SIZE) / MELODY_HOP_SIZE) + 1);
+    expect(cents(pitches[2], 330)).toBeLessThan(15);
+    expect(pitches[pitches.length - 1]).toBe(0);
+  });
+});
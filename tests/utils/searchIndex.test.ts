@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { createSearchIndex } from '@/utils/searchIndex';
+import { scoreMatch, type SimilarityOptions } from '@/utils/similarity';
+import type { Song } from '@/types/speech';
+import { createSyntheticSongs } from '../fixtures/syntheticSongs';
+
+const songs = createSyntheticSongs(300);
+const verse = songs[7].lyrics.split('\n')[3].split(' ');
+
+// Every song rescored from scratch, ties in library order
+function searchLinearly(query: string, options: SimilarityOptions) {
+  return songs
+    .map((song) => ({ id: song.id, score: scoreMatch(song.lyrics, query, options).score }))
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+function toResults(matches: Song[]) {
+  return matches.map((song) => ({ id: song.id, score: song.matchScore }));
+}
+
+describe('createSearchIndex', () => {
+  const queries = [
+    verse.slice(0, 4).join(' '),
+    `${verse[1]} ${verse[0]}`,
+    // Cut off mid-word on both ends
+    `${verse[2].slice(1)} ${verse[3].slice(0, -1)}`,
+    verse[4].slice(1),
+    'neon lights in the rain',
+    'dancin thru the nite',
+  ];
+
+  describe.each([
+    ['exact', { fuzzy: false, boostChorus: false }],
+    ['fuzzy', { fuzzy: true, boostChorus: false }],
+    ['fuzzy with chorus boost', { fuzzy: true, boostChorus: true }],
+  ])('%s matching', (_, options) => {
+    const index = createSearchIndex();
+    index.sync(songs);
+
+    it.each(queries)('scores "%s" exactly as linear rescoring does', (query) => {
+      expect(toResults(index.search(query, options))).toEqual(searchLinearly(query, options));
+    });
+  });
+
+  it('scores a phrase cut off mid-word as exact', () => {
+    const index = createSearchIndex();
+    index.sync([{ id: 'a', title: 'A', lyrics: 'I will always love you', matchScore: 0 }]);
+    expect(index.search('ove you')[0]?.id).toBe('a');
+    expect(index.search('lway')[0]?.id).toBe('a');
+  });
+
+  it('reindexes changed lyrics and drops songs no longer synced', () => {
+    const index = createSearchIndex();
+    index.sync([
+      { id: 'a', title: 'A', lyrics: 'neon lights', matchScore: 0 },
+      { id: 'b', title: 'B', lyrics: 'summer rain', matchScore: 0 },
+    ]);
+    index.sync([{ id: 'a', title: 'A', lyrics: 'winter rain', matchScore: 0 }]);
+
+    expect(index.size).toBe(1);
+    expect(index.search('neon')).toEqual([]);
+    expect(index.search('rain').map((song) => song.id)).toEqual(['a']);
+  });
+
+  it('keeps separate indexes independent', () => {
+    const main = createSearchIndex();
+    const listen = createSearchIndex();
+    main.sync(songs.slice(0, 10));
+    listen.sync(songs.slice(10, 20));
+
+    expect(main.size).toBe(10);
+    expect(listen.size).toBe(10);
+    expect(main.search(verse.join(' ')).every((song) => Number(song.id.split('-')[1]) < 10)).toBe(true);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { getSearchQueryText, isPlainSearchQuery, parseSearchQuery } from '@/utils/searchQuery';
+import { SearchQueryError } from '@/lib/searchQueryErrors';
+import { searchService } from '@/services/searchService';
+import { createSearchIndex } from '@/utils/searchIndex';
+import type { Song } from '@/types/speech';
+
+const songs: Song[] = [
+  {
+    id: 'rain',
+    title: 'Neon Rain',
+    lyrics: '[Verse]\nneon lights are falling in the rain tonight',
+    tags: 'synthwave, dark pop',
+    createdAt: '2024-03-10T12:00:00Z',
+    matchScore: 0,
+  },
+  {
+    id: 'city',
+    title: 'City Night',
+    lyrics: '[Verse]\nthe lights are neon over the city tonight',
+    tags: 'synthwave',
+    createdAt: '2024-07-01T12:00:00Z',
+    matchScore: 0,
+  },
+  {
+    id: 'ballad',
+    title: 'Slow Rain',
+    lyrics: '[Verse]\nrain is falling slowly on my window tonight',
+    tags: 'ballad, piano',
+    createdAt: '2024-06-01T08:00:00Z',
+    matchScore: 0,
+  },
+];
+
+function search(query: string): string[] {
+  const { results } = searchService.searchSongs(createSearchIndex(), query, songs, { pageSize: songs.length });
+  return results.map((song) => song.id);
+}
+
+// Parses a query expected to be invalid, returning its error
+function parseError(query: string): SearchQueryError {
+  try {
+    parseSearchQuery(query);
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error(`"${query}" parsed`);
+}
+
+describe('parseSearchQuery', () => {
+  it('reads plain lyrics as words', () => {
+    const query = parseSearchQuery('  neon lights  tonight ');
+    expect(query.terms).toEqual([
+      { type: 'word', text: 'neon', negated: false },
+      { type: 'word', text: 'lights', negated: false },
+      { type: 'word', text: 'tonight', negated: false },
+    ]);
+    expect(isPlainSearchQuery(query)).toBe(true);
+  });
+
+  it('reads phrases, exclusions and filters, negated or not', () => {
+    const query = parseSearchQuery(
+      '"neon lights" -rain -"slow rain" tag:"dark pop" -title:city before:2024-06-01 after:2024-01-01'
+    );
+    expect(query.terms).toEqual([
+      { type: 'phrase', text: 'neon lights', negated: false },
+      { type: 'word', text: 'rain', negated: true },
+      { type: 'phrase', text: 'slow rain', negated: true },
+      { type: 'field', field: 'tag', value: 'dark pop', negated: false },
+      { type: 'field', field: 'title', value: 'city', negated: true },
+      { type: 'field', field: 'before', value: '2024-06-01', negated: false },
+      { type: 'field', field: 'after', value: '2024-01-01', negated: false },
+    ]);
+    expect(isPlainSearchQuery(query)).toBe(false);
+    expect(getSearchQueryText(query)).toBe('neon lights');
+  });
+
+  it('keeps unknown fields and a lone minus as words', () => {
+    expect(parseSearchQuery('note:this - that TAG:ballad').terms).toEqual([
+      { type: 'word', text: 'note:this', negated: false },
+      { type: 'word', text: '-', negated: false },
+      { type: 'word', text: 'that', negated: false },
+      { type: 'field', field: 'tag', value: 'ballad', negated: false },
+    ]);
+  });
+
+  it('points errors at the offending text', () => {
+    expect(parseError('neon "lights are')).toMatchObject({ kind: 'unclosed_quote', start: 5, end: 16 });
+    expect(parseError('rain -"  " tonight')).toMatchObject({ kind: 'empty_phrase', start: 5, end: 10 });
+    expect(parseError('rain tag: tonight')).toMatchObject({ kind: 'missing_value', start: 5, end: 9 });
+    expect(parseError('rain after:2024-02-30')).toMatchObject({ kind: 'invalid_date', start: 11, end: 21 });
+    expect(parseError('before:yesterday').message).toContain('"yesterday" isn\'t a date');
+  });
+});
+
+describe('searchService.matchQuery', () => {
+  it('requires phrases to appear together and in order', () => {
+    expect(search('"neon lights"')).toEqual(['rain']);
+    expect(search('"lights neon"')).toEqual([]);
+  });
+
+  it('leaves out excluded words and phrases', () => {
+    expect(search('tonight -neon').sort()).toEqual(['ballad']);
+    expect(search('lights -"falling in the rain"')).toEqual(['city']);
+  });
+
+  it('filters by tag and title, negated or not', () => {
+    expect(search('tonight tag:synthwave').sort()).toEqual(['city', 'rain']);
+    expect(search('tonight -tag:synthwave')).toEqual(['ballad']);
+    expect(search('rain title:"slow rain"')).toEqual(['ballad']);
+    expect(search('rain -title:neon')).toEqual(['ballad']);
+  });
+
+  it('filters by date, and lists every match for a filter-only query', () => {
+    expect(search('before:2024-06-01')).toEqual(['rain']);
+    expect(search('after:2024-06-01')).toEqual(['city']);
+    expect(search('-before:2024-06-01 tag:synthwave')).toEqual(['city']);
+  });
+
+  it('searches a query that does not parse as plain text', () => {
+    expect(search('neon lights "falling in the rain')).toContain('rain');
+    expect(search('rain tag:')).toContain('ballad');
+  });
+});
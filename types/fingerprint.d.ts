@@ -0,0 +1,27 @@
+// Audio fingerprinting types
+
+/** Landmark hashes of a recording; entry i of hashes was anchored at frame times[i] */
+export interface Fingerprint {
+  hashes: Uint32Array;
+  times: Uint32Array;
+}
+
+/** A song's fingerprint as persisted alongside its library */
+export interface StoredFingerprint extends Fingerprint {
+  songId: string;
+  /** FINGERPRINT_VERSION the hashes were computed with */
+  version: number;
+  /** When the fingerprint was computed (ms since epoch) */
+  fingerprintedAt: number;
+}
+
+/** A song whose fingerprint lines up with a recording */
+export interface FingerprintMatch {
+  songId: string;
+  /** Recording hashes found in the song at one consistent time offset */
+  alignedHashes: number;
+  /** Share of the recording's hashes that aligned, between 0 and 1 */
+  confidence: number;
+  /** Where in the song the recording starts, in seconds */
+  offsetSeconds: number;
+}
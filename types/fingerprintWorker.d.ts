@@ -0,0 +1,13 @@
+// Message protocol between the main thread and the fingerprint Web Worker
+import type { Fingerprint, FingerprintMatch, StoredFingerprint } from './fingerprint';
+
+export type FingerprintWorkerRequest =
+  | { type: 'load'; fingerprints: StoredFingerprint[] }
+  | { type: 'fingerprint'; requestId: number; songId: string; samples: Float32Array }
+  | { type: 'identify'; requestId: number; samples: Float32Array }
+  | { type: 'clear' };
+
+export type FingerprintWorkerResponse =
+  | { type: 'fingerprinted'; requestId: number; fingerprint: Fingerprint }
+  | { type: 'matches'; requestId: number; matches: FingerprintMatch[] }
+  | { type: 'error'; requestId: number; message: string };
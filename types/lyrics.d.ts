@@ -0,0 +1,25 @@
+// Structured lyrics as parsed from Suno's [Verse]/[Chorus] section markers
+
+export type LyricsSectionType =
+  | 'intro'
+  | 'verse'
+  | 'pre-chorus'
+  | 'chorus'
+  | 'hook'
+  | 'bridge'
+  | 'interlude'
+  | 'instrumental'
+  | 'outro'
+  | 'other';
+
+export interface LyricsSection {
+  type: LyricsSectionType;
+  /** Marker text as written (e.g. "Verse 2"), or an empty string for lines before any marker */
+  label: string;
+  /** Non-empty lyric lines, trimmed */
+  lines: string[];
+  /** First whitespace-separated word of the section's lines within the whole lyrics */
+  start: number;
+  /** Word index just past the section's last line (exclusive) */
+  end: number;
+}
@@ -0,0 +1,29 @@
+// Query-by-humming types
+
+/** A recording's melody as a sequence of notes */
+export interface Melody {
+  /** Note pitches as fractional MIDI note numbers */
+  notes: Float32Array;
+  /** Pitch frame each note starts at */
+  starts: Uint32Array;
+}
+
+/** A song's melody as persisted alongside its library */
+export interface StoredMelody extends Melody {
+  songId: string;
+  /** MELODY_VERSION the melody was extracted with */
+  version: number;
+  /** When the melody was extracted (ms since epoch) */
+  extractedAt: number;
+}
+
+/** A song whose melody resembles a hummed one */
+export interface MelodyMatch {
+  songId: string;
+  /** Average cost per hummed interval in semitones; lower is closer */
+  distance: number;
+  /** Closeness between 0 and 1, derived from the distance */
+  score: number;
+  /** Where in the song the hummed passage starts, in seconds */
+  offsetSeconds: number;
+}
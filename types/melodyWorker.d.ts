@@ -0,0 +1,13 @@
+// Message protocol between the main thread and the melody Web Worker
+import type { Melody, MelodyMatch, StoredMelody } from './melody';
+
+export type MelodyWorkerRequest =
+  | { type: 'load'; melodies: StoredMelody[] }
+  | { type: 'extract'; requestId: number; songId: string; samples: Float32Array }
+  | { type: 'match'; requestId: number; samples: Float32Array }
+  | { type: 'clear' };
+
+export type MelodyWorkerResponse =
+  | { type: 'extracted'; requestId: number; melody: Melody }
+  | { type: 'matches'; requestId: number; noteCount: number; matches: MelodyMatch[] }
+  | { type: 'error'; requestId: number; message: string };
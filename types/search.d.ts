@@ -0,0 +1,27 @@
+// Filtering, sorting and paging of search results
+import type { Song } from './speech';
+
+export type SongSortOrder = 'score' | 'newest' | 'oldest' | 'title';
+
+export interface SongFilters {
+  /** Keep songs carrying any of these tags (lowercase) */
+  tags?: string[];
+  /** Earliest creation date, inclusive (YYYY-MM-DD) */
+  createdFrom?: string;
+  /** Latest creation date, inclusive (YYYY-MM-DD) */
+  createdTo?: string;
+  /** Minimum length in seconds */
+  minDuration?: number;
+  /** Maximum length in seconds */
+  maxDuration?: number;
+}
+
+export interface SearchResultsPage {
+  /** Songs on the requested page */
+  results: Song[];
+  /** Number of songs matching the query and filters across all pages */
+  total: number;
+  /** Zero-based page index actually returned (clamped to the last page) */
+  page: number;
+  pageSize: number;
+}
@@ -0,0 +1,15 @@
+// Parsed text search queries
+
+/** Song fields a query can filter on */
+export type SearchQueryField = 'tag' | 'title' | 'before' | 'after';
+
+/** One term of a parsed query; negated terms exclude the songs they match */
+export type SearchQueryTerm =
+  | { type: 'word'; text: string; negated: boolean }
+  | { type: 'phrase'; text: string; negated: boolean }
+  | { type: 'field'; field: SearchQueryField; value: string; negated: boolean };
+
+/** A parsed query: songs must satisfy every phrase, exclusion and field term */
+export interface SearchQuery {
+  terms: SearchQueryTerm[];
+}
@@ -0,0 +1,30 @@
+// Message protocol between the main thread and the search Web Worker
+import type { Song, SpeechRecognitionAlternative } from './speech';
+import type { SearchResultsPage, SongFilters, SongSortOrder } from './search';
+
+export interface SearchWorkerOptions {
+  fuzzy?: boolean;
+  /** Also match against AI description prompts */
+  includeDescriptions?: boolean;
+  /** Rank matches in a chorus or hook higher */
+  boostChorus?: boolean;
+  /**
+   * Every transcript of a voice query with its recognizer confidence, best first;
+   * songs are scored against each one, weighted by confidence, instead of the query alone
+   */
+  alternatives?: SpeechRecognitionAlternative[];
+  filters?: SongFilters;
+  sort?: SongSortOrder;
+  /** Zero-based page of results */
+  page?: number;
+  pageSize?: number;
+}
+
+export type SearchWorkerRequest =
+  | { type: 'sync'; songs: Song[] }
+  | { type: 'search'; requestId: number; query: string; options?: SearchWorkerOptions }
+  | { type: 'cancel'; requestId: number };
+
+export type SearchWorkerResponse =
+  | { type: 'results'; requestId: number; results: SearchResultsPage }
+  | { type: 'error'; requestId: number; message: string };
@@ -3,6 +3,8 @@ export interface SpeechRecognition extends EventTarget {
   continuous: boolean;
   interimResults: boolean;
   lang: string;
+  /** Most alternatives reported per result */
+  maxAlternatives: number;
   start(): void;
   stop(): void;
   onresult: ((event: SpeechRecognitionEvent) => void) | null;
@@ -10,6 +12,9 @@ export interface SpeechRecognition extends EventTarget {
   onend: (() => void) | null;
 }
 
+/** Constructor of a SpeechRecognition implementation (native, prefixed or a scripted fake) */
+export type SpeechRecognitionConstructor = new () => SpeechRecognition;
+
 export interface SpeechRecognitionEvent {
   resultIndex: number;
   results: SpeechRecognitionResultList;
@@ -38,14 +43,82 @@ export interface SpeechRecognitionErrorEvent {
   message: string;
 }
 
+/** Range of whitespace-separated words in the matched text (end exclusive) */
+export interface MatchSpan {
+  start: number;
+  end: number;
+}
+
+/** Song text a search can match against */
+export type SongTextField = 'lyrics' | 'description';
+
 export interface Song {
   id: string;
   title: string;
+  /** Lyrics as written for the song; empty for instrumentals and songs without lyrics */
   lyrics: string;
+  /** AI description the song was generated from in description mode */
+  descriptionPrompt?: string;
+  /** Style prompt describing genre, mood and instrumentation */
+  stylePrompt?: string;
   matchScore: number;
+  matchSpan?: MatchSpan | null;
+  /** Which text matchScore and matchSpan refer to */
+  matchField?: SongTextField;
+  /** Label of the lyrics section the match falls in (e.g. "Chorus"), when the lyrics are marked up */
+  matchSection?: string;
+  /** Normalized username of the Suno profile the song was loaded from */
+  artist?: string;
+  /** Display name of that profile, when Suno provides one */
+  artistDisplayName?: string;
   audioUrl?: string;
   imageUrl?: string;
+  videoUrl?: string;
   tags?: string;
+  /** ISO 8601 creation timestamp */
+  createdAt?: string;
+  /** Length in seconds */
+  duration?: number;
+  /** Generation status reported by Suno (e.g. "complete", "streaming", "error") */
+  status?: string;
+  playCount?: number;
+  likeCount?: number;
+  /** Suno model that generated the song (e.g. "v4") */
+  modelVersion?: string;
+}
+
+/** A clip that failed validation while loading a library */
+export interface MalformedClip {
+  /** Clip id, when the clip had a usable one */
+  id?: string;
+  problems: string[];
+  /** True if the clip could not be used at all and was left out */
+  skipped: boolean;
+}
+
+/** Load state of one artist's library */
+export interface ArtistLibrary {
+  username: string;
+  songs: Song[];
+  isLoading: boolean;
+  error: string | null;
+  lastSync: SunoSyncResult | null;
+}
+
+/** Outcome of syncing a cached library against Suno */
+export interface SunoSyncResult {
+  /** The up-to-date library, newest first */
+  songs: Song[];
+  /** Songs that were not in the cached library */
+  added: Song[];
+  /** Cached songs no longer on the profile (only detected by full sweeps) */
+  removed: Song[];
+  /** Clips that failed validation on the pages walked */
+  malformed: MalformedClip[];
+  /** Whether every page was walked rather than stopping at known clips */
+  fullSweep: boolean;
+  /** True when there was no cached library, so every song counts as added */
+  initial: boolean;
 }
 
 // Suno API response types
@@ -61,10 +134,18 @@ export interface SunoClip {
     tags?: string;
     prompt?: string;
     gpt_description_prompt?: string;
+    duration?: number;
     [key: string]: any;
   };
   created_at?: string;
   duration?: number;
+  play_count?: number;
+  upvote_count?: number;
+  major_model_version?: string;
+  model_name?: string;
+  /** Owner's username, present on clips fetched on their own */
+  handle?: string;
+  display_name?: string;
   [key: string]: any;
 }
 
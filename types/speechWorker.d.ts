@@ -0,0 +1,9 @@
+// Message protocol between the main thread and the offline speech recognition Web Worker
+
+export type SpeechWorkerRequest =
+  | { type: 'load' }
+  | { type: 'transcribe'; requestId: number; samples: Float32Array; language: string };
+
+export type SpeechWorkerResponse =
+  | { type: 'transcript'; requestId: number; text: string }
+  | { type: 'error'; requestId: number; message: string };
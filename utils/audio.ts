@@ -0,0 +1,195 @@
+/**
+ * Plain-JavaScript audio helpers
+ * Nothing here needs Web Audio, so WAV fixtures can be fingerprinted anywhere.
+ */
+
+/** Decoded audio: one Float32Array of samples in [-1, 1] per channel */
+export interface DecodedAudio {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+/**
+ * Checks for a RIFF/WAVE header
+ * @param data - Raw file contents
+ * @returns True if the data looks like a WAV file
+ */
+export function isWav(data: ArrayBuffer): boolean {
+  if (data.byteLength < 12) {
+    return false;
+  }
+  const view = new DataView(data);
+  return readTag(view, 0) === 'RIFF' && readTag(view, 8) === 'WAVE';
+}
+
+/**
+ * Decodes an uncompressed WAV file (8, 16, 24 or 32-bit PCM, or 32-bit float)
+ * @param data - Raw file contents
+ * @returns The decoded channels and their sample rate
+ * @throws Error if the file isn't a WAV this decoder supports
+ */
+export function decodeWav(data: ArrayBuffer): DecodedAudio {
+  if (!isWav(data)) {
+    throw new Error('Not a WAV file');
+  }
+
+  const view = new DataView(data);
+  let format: { audioFormat: number; channelCount: number; sampleRate: number; bitsPerSample: number } | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= data.byteLength) {
+    const chunkId = readTag(view, offset);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      const tag = view.getUint16(body, true);
+      format = {
+        // WAVE_FORMAT_EXTENSIBLE keeps the real format at the start of its subformat GUID
+        audioFormat: tag === 0xfffe && chunkSize >= 26 ? view.getUint16(body + 24, true) : tag,
+        channelCount: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (chunkId === 'data') {
+      if (!format) {
+        throw new Error('WAV data chunk comes before its format');
+      }
+      return decodePcm(view, body, Math.min(chunkSize, data.byteLength - body), format);
+    }
+
+    // Chunks are padded to an even length
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no audio data');
+}
+
+function decodePcm(
+  view: DataView,
+  start: number,
+  byteLength: number,
+  format: { audioFormat: number; channelCount: number; sampleRate: number; bitsPerSample: number }
+): DecodedAudio {
+  const { audioFormat, channelCount, sampleRate, bitsPerSample } = format;
+  // 1 is integer PCM, 3 is IEEE float
+  const isFloat = audioFormat === 3;
+  const bytesPerSample = bitsPerSample / 8;
+
+  if (![1, 3].includes(audioFormat) || ![8, 16, 24, 32].includes(bitsPerSample) || (isFloat && bitsPerSample !== 32) || channelCount === 0) {
+    throw new Error(`Unsupported WAV encoding (format ${audioFormat}, ${bitsPerSample}-bit)`);
+  }
+
+  const frameCount = Math.floor(byteLength / (bytesPerSample * channelCount));
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frameCount));
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let channel = 0; channel < channelCount; channel++) {
+      const at = start + (frame * channelCount + channel) * bytesPerSample;
+      let sample: number;
+      if (isFloat) {
+        sample = view.getFloat32(at, true);
+      } else if (bitsPerSample === 8) {
+        sample = (view.getUint8(at) - 128) / 128;
+      } else if (bitsPerSample === 16) {
+        sample = view.getInt16(at, true) / 32768;
+      } else if (bitsPerSample === 24) {
+        const value = view.getUint8(at) | (view.getUint8(at + 1) << 8) | (view.getInt8(at + 2) << 16);
+        sample = value / 8388608;
+      } else {
+        sample = view.getInt32(at, true) / 2147483648;
+      }
+      channels[channel][frame] = sample;
+    }
+  }
+
+  return { channels, sampleRate };
+}
+
+/**
+ * Checks whether audio is effectively silent
+ * @param samples - Mono samples
+ * @param threshold - RMS level at or below which audio counts as silent (default -60 dBFS)
+ * @returns True for silent or empty audio
+ */
+export function isSilent(samples: Float32Array, threshold: number = 0.001): boolean {
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i];
+  }
+  return samples.length === 0 || Math.sqrt(sumSquares / samples.length) <= threshold;
+}
+
+/**
+ * Averages channels into one
+ * @param channels - Equal-length channels
+ * @returns Mono samples
+ */
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) {
+    return channels[0];
+  }
+
+  const length = Math.min(...channels.map((channel) => channel.length));
+  const mono = new Float32Array(length);
+  channels.forEach((channel) => {
+    for (let i = 0; i < length; i++) {
+      mono[i] += channel[i] / channels.length;
+    }
+  });
+  return mono;
+}
+
+/**
+ * Resamples audio by linear interpolation, averaging away content above the new Nyquist rate when downsampling
+ * @param samples - Mono samples
+ * @param fromRate - Their sample rate
+ * @param toRate - Wanted sample rate
+ * @returns Resampled samples
+ */
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) {
+    return samples;
+  }
+
+  const ratio = fromRate / toRate;
+  // A box filter as wide as the step is a cheap low-pass that keeps aliasing down
+  const source = ratio > 1 ? boxFilter(samples, Math.round(ratio)) : samples;
+  const length = Math.floor(samples.length / ratio);
+  const output = new Float32Array(length);
+
+  for (let i = 0; i < length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const next = index + 1 < source.length ? source[index + 1] : source[index];
+    output[i] = source[index] * (1 - fraction) + next * fraction;
+  }
+  return output;
+}
+
+function boxFilter(samples: Float32Array, width: number): Float32Array {
+  if (width <= 1) {
+    return samples;
+  }
+
+  const output = new Float32Array(samples.length);
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i];
+    if (i >= width) {
+      sum -= samples[i - width];
+    }
+    output[i] = sum / Math.min(i + 1, width);
+  }
+  return output;
+}
@@ -0,0 +1,96 @@
+import type { Song } from '@/types/speech';
+import {
+  LISTEN_MAX_CANDIDATES,
+  LISTEN_SCORE_SMOOTHING,
+  LISTEN_MIN_WORDS,
+  LISTEN_MIN_SCORE,
+  LISTEN_MIN_MARGIN,
+  LISTEN_STABLE_UPDATES,
+} from '@/constants';
+
+/** A song in the running while listening */
+export interface ListenCandidate {
+  song: Song;
+  /** Running average of the song's match score across transcript updates */
+  confidence: number;
+}
+
+export interface ListenSnapshot {
+  /** Best candidates, highest confidence first */
+  candidates: ListenCandidate[];
+  /** The song that clearly won, once one has */
+  winner: ListenCandidate | null;
+}
+
+export interface CandidateTracker {
+  /**
+   * Folds in results for the latest transcript
+   * @param results - Search results for the transcript, best first
+   * @param wordCount - Words in the transcript
+   */
+  update(results: Song[], wordCount: number): ListenSnapshot;
+  /** Forgets all candidates, for a new listening session */
+  reset(): void;
+}
+
+/**
+ * Creates a tracker that turns a stream of search results into a steady candidate list
+ * Scores are smoothed so one noisy interim transcript can't reshuffle the list, and a
+ * winner is only declared once the same song has led by a clear margin for several updates
+ * @returns A new tracker
+ */
+export function createCandidateTracker(): CandidateTracker {
+  let confidences = new Map<string, ListenCandidate>();
+  let leaderId: string | null = null;
+  let leaderStreak = 0;
+
+  return {
+    update(results: Song[], wordCount: number) {
+      const next = new Map<string, ListenCandidate>();
+      const scores = new Map(results.map((song) => [song.id, song]));
+
+      // Songs that dropped out of the results decay toward zero rather than vanishing
+      confidences.forEach((candidate, id) => {
+        const song = scores.get(id);
+        const confidence = LISTEN_SCORE_SMOOTHING * (song?.matchScore ?? 0) + (1 - LISTEN_SCORE_SMOOTHING) * candidate.confidence;
+        if (confidence >= 0.01) {
+          next.set(id, { song: song ?? candidate.song, confidence });
+        }
+      });
+      results.forEach((song) => {
+        if (!next.has(song.id)) {
+          next.set(song.id, { song, confidence: LISTEN_SCORE_SMOOTHING * song.matchScore });
+        }
+      });
+      confidences = next;
+
+      const ranked = Array.from(next.values()).sort((a, b) => b.confidence - a.confidence);
+      const [leader, runnerUp] = ranked;
+
+      if (leader && leader.song.id === leaderId) {
+        leaderStreak += 1;
+      } else {
+        leaderId = leader?.song.id ?? null;
+        leaderStreak = leader ? 1 : 0;
+      }
+
+      const isClearWinner =
+        !!leader &&
+        wordCount >= LISTEN_MIN_WORDS &&
+        leader.confidence >= LISTEN_MIN_SCORE &&
+        leader.confidence - (runnerUp?.confidence ?? 0) >= LISTEN_MIN_MARGIN &&
+        leaderStreak >= LISTEN_STABLE_UPDATES;
+
+      return {
+        candidates: ranked.slice(0, LISTEN_MAX_CANDIDATES),
+        winner: isClearWinner ? leader : null,
+      };
+    },
+
+    reset() {
+      confidences = new Map();
+      leaderId = null;
+      leaderStreak = 0;
+    },
+  };
+}
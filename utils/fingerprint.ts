@@ -0,0 +1,366 @@
+import type { Fingerprint, FingerprintMatch, StoredFingerprint } from '@/types/fingerprint';
+import {
+  FINGERPRINT_SAMPLE_RATE,
+  FINGERPRINT_FFT_SIZE,
+  FINGERPRINT_HOP_SIZE,
+  FINGERPRINT_BANDS,
+  FINGERPRINT_MIN_PEAK_DB,
+  FINGERPRINT_FAN_OUT,
+  FINGERPRINT_TARGET_ZONE_FRAMES,
+  FINGERPRINT_MIN_ALIGNED_HASHES,
+  FINGERPRINT_MIN_MARGIN_RATIO,
+  FINGERPRINT_MAX_MATCHES,
+} from '@/constants';
+
+/**
+ * Spectral-peak landmark fingerprinting
+ * Each frame's strongest peaks are paired with peaks shortly after them; a pair's two
+ * frequencies and time gap form a hash that survives noise, level changes and speaker
+ * playback. A recording matches a song when many of its hashes occur in the song at one
+ * consistent time offset.
+ */
+
+// A spectral peak: FFT frame and bin
+interface Peak {
+  frame: number;
+  bin: number;
+}
+
+// RMS level recordings are scaled to, so peak thresholds don't depend on loudness
+const TARGET_RMS = 0.1;
+
+const hannWindows = new Map<number, Float32Array>();
+
+function getHannWindow(size: number): Float32Array {
+  let window = hannWindows.get(size);
+  if (!window) {
+    window = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+    }
+    hannWindows.set(size, window);
+  }
+  return window;
+}
+
+// In-place iterative radix-2 FFT; size must be a power of two
+function fft(real: Float32Array, imag: Float32Array): void {
+  const size = real.length;
+
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    for (let start = 0; start < size; start += length) {
+      let twiddleReal = 1;
+      let twiddleImag = 0;
+      for (let k = 0; k < length / 2; k++) {
+        const even = start + k;
+        const odd = even + length / 2;
+        const oddReal = real[odd] * twiddleReal - imag[odd] * twiddleImag;
+        const oddImag = real[odd] * twiddleImag + imag[odd] * twiddleReal;
+        real[odd] = real[even] - oddReal;
+        imag[odd] = imag[even] - oddImag;
+        real[even] += oddReal;
+        imag[even] += oddImag;
+        const nextReal = twiddleReal * stepReal - twiddleImag * stepImag;
+        twiddleImag = twiddleReal * stepImag + twiddleImag * stepReal;
+        twiddleReal = nextReal;
+      }
+    }
+  }
+}
+
+function normalizeLoudness(samples: Float32Array): Float32Array {
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i];
+  }
+  const rms = Math.sqrt(sumSquares / Math.max(1, samples.length));
+  if (rms === 0) {
+    return samples;
+  }
+
+  const gain = TARGET_RMS / rms;
+  return samples.map((sample) => sample * gain);
+}
+
+// Strongest bin and its level (dB) in every band of every frame, flattened frame-major
+function getBandMaxima(samples: Float32Array): { bins: Uint16Array; levels: Float32Array; frameCount: number } {
+  const bandCount = FINGERPRINT_BANDS.length;
+  const frameCount = samples.length < FINGERPRINT_FFT_SIZE ? 0 : Math.floor((samples.length - FINGERPRINT_FFT_SIZE) / FINGERPRINT_HOP_SIZE) + 1;
+  const bins = new Uint16Array(frameCount * bandCount);
+  const levels = new Float32Array(frameCount * bandCount);
+  const window = getHannWindow(FINGERPRINT_FFT_SIZE);
+  const real = new Float32Array(FINGERPRINT_FFT_SIZE);
+  const imag = new Float32Array(FINGERPRINT_FFT_SIZE);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const offset = frame * FINGERPRINT_HOP_SIZE;
+    for (let i = 0; i < FINGERPRINT_FFT_SIZE; i++) {
+      real[i] = samples[offset + i] * window[i];
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    FINGERPRINT_BANDS.forEach(([low, high], band) => {
+      let bestBin = low;
+      let bestPower = -1;
+      for (let bin = low; bin < high; bin++) {
+        const power = real[bin] * real[bin] + imag[bin] * imag[bin];
+        if (power > bestPower) {
+          bestPower = power;
+          bestBin = bin;
+        }
+      }
+      bins[frame * bandCount + band] = bestBin;
+      levels[frame * bandCount + band] = 10 * Math.log10(bestPower + 1e-10);
+    });
+  }
+
+  return { bins, levels, frameCount };
+}
+
+// Band maxima that stand out from their frame and from the same band in neighbouring frames
+function findPeaks(samples: Float32Array): Peak[] {
+  const { bins, levels, frameCount } = getBandMaxima(samples);
+  const bandCount = FINGERPRINT_BANDS.length;
+  const peaks: Peak[] = [];
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const base = frame * bandCount;
+    let frameLevel = 0;
+    for (let band = 0; band < bandCount; band++) {
+      frameLevel += levels[base + band] / bandCount;
+    }
+
+    for (let band = 0; band < bandCount; band++) {
+      const level = levels[base + band];
+      const isLoudEnough = level >= FINGERPRINT_MIN_PEAK_DB && level > frameLevel;
+      const isLocalMaximum =
+        (frame === 0 || level >= levels[base - bandCount + band]) &&
+        (frame === frameCount - 1 || level > levels[base + bandCount + band]);
+      if (isLoudEnough && isLocalMaximum) {
+        peaks.push({ frame, bin: bins[base + band] });
+      }
+    }
+  }
+
+  return peaks;
+}
+
+// 9 bits per frequency (bins stay below 512) and 6 bits for the time gap
+function hashPair(anchor: Peak, target: Peak): number {
+  return ((anchor.bin << 15) | (target.bin << 6) | (target.frame - anchor.frame)) >>> 0;
+}
+
+/**
+ * Computes the landmark fingerprint of a recording
+ * @param samples - Mono samples at FINGERPRINT_SAMPLE_RATE
+ * @returns Hashes with the frame each was anchored at
+ */
+export function createFingerprint(samples: Float32Array): Fingerprint {
+  const peaks = findPeaks(normalizeLoudness(samples));
+  const hashes: number[] = [];
+  const times: number[] = [];
+
+  peaks.forEach((anchor, index) => {
+    let paired = 0;
+    for (let next = index + 1; next < peaks.length && paired < FINGERPRINT_FAN_OUT; next++) {
+      const target = peaks[next];
+      const gap = target.frame - anchor.frame;
+      if (gap === 0) {
+        continue;
+      }
+      if (gap > FINGERPRINT_TARGET_ZONE_FRAMES) {
+        break;
+      }
+      hashes.push(hashPair(anchor, target));
+      times.push(anchor.frame);
+      paired += 1;
+    }
+  });
+
+  return { hashes: Uint32Array.from(hashes), times: Uint32Array.from(times) };
+}
+
+/**
+ * Converts a frame offset to seconds
+ * @param frames - Offset in FFT frames
+ * @returns Offset in seconds
+ */
+export function framesToSeconds(frames: number): number {
+  return (frames * FINGERPRINT_HOP_SIZE) / FINGERPRINT_SAMPLE_RATE;
+}
+
+/**
+ * Converts aligned hashes to a 0-1 match score comparable with lyric match scores
+ * The score saturates: the identification threshold maps to ~63% and three times it to ~95%
+ * @param match - A fingerprint match
+ * @returns Match score between 0 and 1
+ */
+export function getFingerprintScore(match: FingerprintMatch): number {
+  return 1 - Math.exp(-match.alignedHashes / FINGERPRINT_MIN_ALIGNED_HASHES);
+}
+
+/**
+ * Picks the match that clearly stands out, if any
+ * @param matches - Matches, best first
+ * @returns The best match when it has enough aligned hashes and a clear lead, otherwise null
+ */
+export function pickFingerprintWinner(matches: FingerprintMatch[]): FingerprintMatch | null {
+  const [best, runnerUp] = matches;
+  if (!best || best.alignedHashes < FINGERPRINT_MIN_ALIGNED_HASHES) {
+    return null;
+  }
+  if (runnerUp && best.alignedHashes < runnerUp.alignedHashes * FINGERPRINT_MIN_MARGIN_RATIO) {
+    return null;
+  }
+  return best;
+}
+
+export interface FingerprintIndex {
+  /** Adds or replaces a song's fingerprint */
+  add(songId: string, fingerprint: Fingerprint): void;
+  /** Whether a song has been fingerprinted */
+  has(songId: string): boolean;
+  /** Number of fingerprinted songs */
+  readonly size: number;
+  /** Forgets every fingerprint */
+  clear(): void;
+  /**
+   * Finds songs containing a recording
+   * @param fingerprint - The recording's fingerprint
+   * @returns Songs ranked by aligned hashes, best first
+   */
+  match(fingerprint: Fingerprint): FingerprintMatch[];
+}
+
+/**
+ * Creates an inverted index from landmark hash to the songs and frames it occurs at
+ * @param fingerprints - Stored fingerprints to start with
+ * @returns A new fingerprint index
+ */
+export function createFingerprintIndex(fingerprints: StoredFingerprint[] = []): FingerprintIndex {
+  // Postings are flattened (song slot, frame) pairs
+  let postings = new Map<number, number[]>();
+  let songIds: string[] = [];
+  let slots = new Map<string, number>();
+
+  const remove = (slot: number) => {
+    postings.forEach((list, hash) => {
+      const kept: number[] = [];
+      for (let i = 0; i < list.length; i += 2) {
+        if (list[i] !== slot) {
+          kept.push(list[i], list[i + 1]);
+        }
+      }
+      if (kept.length === 0) {
+        postings.delete(hash);
+      } else if (kept.length !== list.length) {
+        postings.set(hash, kept);
+      }
+    });
+  };
+
+  const index: FingerprintIndex = {
+    add(songId: string, fingerprint: Fingerprint) {
+      let slot = slots.get(songId);
+      if (slot === undefined) {
+        slot = songIds.length;
+        songIds.push(songId);
+        slots.set(songId, slot);
+      } else {
+        remove(slot);
+      }
+
+      const { hashes, times } = fingerprint;
+      for (let i = 0; i < hashes.length; i++) {
+        let list = postings.get(hashes[i]);
+        if (!list) {
+          list = [];
+          postings.set(hashes[i], list);
+        }
+        list.push(slot, times[i]);
+      }
+    },
+
+    has(songId: string) {
+      return slots.has(songId);
+    },
+
+    get size() {
+      return slots.size;
+    },
+
+    clear() {
+      postings = new Map();
+      songIds = [];
+      slots = new Map();
+    },
+
+    match(fingerprint: Fingerprint) {
+      const { hashes, times } = fingerprint;
+      if (hashes.length === 0) {
+        return [];
+      }
+
+      // Histogram of song frame minus recording frame, per song
+      const offsets = new Map<number, Map<number, number>>();
+      for (let i = 0; i < hashes.length; i++) {
+        const list = postings.get(hashes[i]);
+        if (!list) {
+          continue;
+        }
+        for (let j = 0; j < list.length; j += 2) {
+          const offset = list[j + 1] - times[i];
+          let histogram = offsets.get(list[j]);
+          if (!histogram) {
+            histogram = new Map();
+            offsets.set(list[j], histogram);
+          }
+          histogram.set(offset, (histogram.get(offset) ?? 0) + 1);
+        }
+      }
+
+      const matches: FingerprintMatch[] = [];
+      offsets.forEach((histogram, slot) => {
+        // Frames rarely line up exactly, so neighbouring offsets count together
+        let bestCount = 0;
+        let bestOffset = 0;
+        histogram.forEach((count, offset) => {
+          const combined = count + (histogram.get(offset + 1) ?? 0);
+          if (combined > bestCount) {
+            bestCount = combined;
+            bestOffset = offset;
+          }
+        });
+        matches.push({
+          songId: songIds[slot],
+          alignedHashes: bestCount,
+          confidence: Math.min(1, bestCount / hashes.length),
+          offsetSeconds: Math.max(0, framesToSeconds(bestOffset)),
+        });
+      });
+
+      return matches
+        .sort((a, b) => b.alignedHashes - a.alignedHashes)
+        .slice(0, FINGERPRINT_MAX_MATCHES);
+    },
+  };
+
+  fingerprints.forEach((fingerprint) => index.add(fingerprint.songId, fingerprint));
+  return index;
+}
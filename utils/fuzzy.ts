@@ -0,0 +1,203 @@
+/**
+ * Fuzzy word matching helpers used by the similarity algorithm.
+ * Everything here operates on already-normalized, lowercase tokens.
+ */
+
+// Contracted or slurred forms mapped to their expanded words.
+// Keys are post-normalization (apostrophes already stripped), so ambiguous
+// words such as "were", "well", "its" and "id" are intentionally left out.
+const CONTRACTIONS: Record<string, string> = {
+  aint: 'is not',
+  arent: 'are not',
+  cant: 'can not',
+  cannot: 'can not',
+  couldnt: 'could not',
+  didnt: 'did not',
+  doesnt: 'does not',
+  dont: 'do not',
+  gimme: 'give me',
+  gonna: 'going to',
+  gotta: 'got to',
+  hadnt: 'had not',
+  hasnt: 'has not',
+  havent: 'have not',
+  im: 'i am',
+  isnt: 'is not',
+  ive: 'i have',
+  kinda: 'kind of',
+  lemme: 'let me',
+  outta: 'out of',
+  shouldnt: 'should not',
+  thats: 'that is',
+  theyre: 'they are',
+  theyve: 'they have',
+  theyll: 'they will',
+  tryna: 'trying to',
+  wanna: 'want to',
+  wasnt: 'was not',
+  werent: 'were not',
+  weve: 'we have',
+  whats: 'what is',
+  wont: 'will not',
+  wouldnt: 'would not',
+  yall: 'you all',
+  youd: 'you would',
+  youll: 'you will',
+  youre: 'you are',
+  youve: 'you have',
+};
+
+/**
+ * Expands contractions and slang in a list of normalized tokens
+ * @param words - Normalized tokens
+ * @returns Tokens with contractions replaced by their expanded words
+ */
+export function expandContractions(words: string[]): string[] {
+  return words.flatMap((word) => {
+    const expanded = CONTRACTIONS[word];
+    return expanded ? expanded.split(' ') : [word];
+  });
+}
+
+// Suffix rules, tried in order; only the first whose pattern matches applies.
+// Guarded rules strip verb and adverb endings only when the root left behind could
+// be a word (Porter's *v* condition plus a minimum length), so "thing", "need" and
+// "only" aren't cut down to "th", "ne" and "on".
+const SUFFIX_RULES: Array<{ pattern: RegExp; replacement: string; guarded?: boolean }> = [
+  { pattern: /ies$/, replacement: 'y' },
+  { pattern: /(ss|sh|ch|x)es$/, replacement: '$1' },
+  { pattern: /([^s])s$/, replacement: '$1' },
+  { pattern: /eed$/, replacement: 'ee', guarded: true },
+  { pattern: /ing$/, replacement: '', guarded: true },
+  { pattern: /ed$/, replacement: '', guarded: true },
+  { pattern: /ly$/, replacement: '', guarded: true },
+];
+
+// Shortest root a guarded rule may leave
+const MIN_ROOT_LENGTH = 3;
+
+/**
+ * Reduces a word to a crude stem by stripping common English suffixes
+ * Not a full Porter stemmer, but enough to equate plurals and verb forms. Dropped-g
+ * forms ("lovin") are left to the typo tier, since stripping "-in" also mangles
+ * words like "within" and "rain".
+ * @param word - Normalized token
+ * @returns The stemmed token
+ */
+export function stem(word: string): string {
+  if (word.length <= 3) {
+    return word;
+  }
+
+  let stemmed = word;
+  for (const { pattern, replacement, guarded } of SUFFIX_RULES) {
+    const match = pattern.exec(word);
+    if (!match) {
+      continue;
+    }
+    const root = word.slice(0, match.index);
+    if (!guarded || (root.length >= MIN_ROOT_LENGTH && /[aeiouy]/.test(root))) {
+      // Collapse doubled final consonants left behind ("running" -> "runn" -> "run")
+      stemmed = word.replace(pattern, replacement).replace(/([^aeiouls])\1$/, '$1');
+    }
+    break;
+  }
+
+  // Drop a silent trailing "e" so "dance" and "dancing" share the stem "danc"
+  return stemmed.replace(/(..[^aeiou])e$/, '$1');
+}
+
+/**
+ * Computes a Metaphone-style phonetic key so words that sound alike compare equal
+ * Simplified from Double Metaphone: only the primary encoding, English rules only
+ * @param word - Normalized token
+ * @returns Phonetic key (may be empty for words without consonants)
+ */
+export function phoneticKey(word: string): string {
+  let w = word.replace(/[^a-z]/g, '');
+  if (!w) {
+    return '';
+  }
+
+  // Silent or irregular leading letters
+  w = w
+    .replace(/^(kn|gn|pn|wr|ps)/, (m) => m[1])
+    .replace(/^x/, 's')
+    .replace(/^wh/, 'w');
+
+  // "x" is expanded before "sh"/"ch" are folded into it
+  w = w
+    .replace(/x/g, 'ks')
+    .replace(/mb$/, 'm')
+    .replace(/ph/g, 'f')
+    .replace(/ck/g, 'k')
+    .replace(/sch/g, 'sk')
+    .replace(/t?ch/g, 'x')
+    .replace(/sh/g, 'x')
+    .replace(/th/g, '0')
+    .replace(/dg(?=[eiy])/g, 'j')
+    .replace(/gh(?![aeiou])/g, '')
+    .replace(/c(?=[eiy])/g, 's')
+    .replace(/g(?=[eiy])/g, 'j')
+    .replace(/[cq]/g, 'k')
+    .replace(/z/g, 's')
+    .replace(/v/g, 'f')
+    .replace(/d/g, 't')
+    .replace(/[wy](?![aeiou])/g, '');
+
+  const first = w[0];
+  const rest = w.slice(1).replace(/[aeiouwyh]/g, '');
+  const key = (/[aeiou]/.test(first) ? 'a' : first) + rest;
+
+  // Collapse runs of the same sound
+  return key.replace(/(.)\1+/g, '$1');
+}
+
+/**
+ * Levenshtein edit distance with an early exit once the distance exceeds maxDistance
+ * @param a - First token
+ * @param b - Second token
+ * @param maxDistance - Distance beyond which the exact value no longer matters
+ * @returns The edit distance, or maxDistance + 1 if it exceeds the bound
+ */
+export function editDistance(a: string, b: string, maxDistance = Infinity): number {
+  if (a === b) {
+    return 0;
+  }
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Maximum number of typos tolerated for a word of the given length
+ * Short words get no tolerance since one edit usually turns them into another real word
+ * @param length - Token length
+ * @returns Allowed edit distance
+ */
+export function maxTyposFor(length: number): number {
+  if (length <= 3) {
+    return 0;
+  }
+  return length <= 6 ? 1 : 2;
+}
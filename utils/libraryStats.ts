@@ -0,0 +1,38 @@
+import type { Song } from '@/types/speech';
+import { getTagCounts } from '@/utils/songFilters';
+
+export interface LibraryStats {
+  totalSongs: number;
+  /** Sum of known song lengths in seconds */
+  totalDuration: number;
+  topTags: Array<{ tag: string; count: number }>;
+  /** Songs created per calendar month (YYYY-MM), oldest first; undated songs are left out */
+  songsPerMonth: Array<{ month: string; count: number }>;
+}
+
+/**
+ * Summarizes a song library
+ * @param songs - Songs to summarize
+ * @param topTagCount - Number of most common tags to report
+ * @returns Library statistics
+ */
+export function getLibraryStats(songs: Song[], topTagCount: number): LibraryStats {
+  const months = new Map<string, number>();
+  let totalDuration = 0;
+
+  songs.forEach((song) => {
+    totalDuration += song.duration ?? 0;
+    if (song.createdAt) {
+      // ISO timestamps start with YYYY-MM
+      const month = song.createdAt.slice(0, 7);
+      months.set(month, (months.get(month) ?? 0) + 1);
+    }
+  });
+
+  return {
+    totalSongs: songs.length,
+    totalDuration,
+    topTags: getTagCounts(songs).slice(0, topTagCount),
+    songsPerMonth: Array.from(months, ([month, count]) => ({ month, count })).sort((a, b) => a.month.localeCompare(b.month)),
+  };
+}
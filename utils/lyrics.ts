@@ -0,0 +1,101 @@
+import type { LyricsSection, LyricsSectionType } from '@/types/lyrics';
+
+// A line holding nothing but a section marker, e.g. "[Chorus]" or "[Verse 2: softly]"
+const SECTION_MARKER_PATTERN = /^\s*\[([^\]]*)\]\s*$/;
+
+// Marker keywords, most specific first so "Pre-Chorus" isn't read as "Chorus"
+const SECTION_KEYWORDS: Array<[RegExp, LyricsSectionType]> = [
+  [/pre[\s-]?chorus/, 'pre-chorus'],
+  [/chorus|refrain/, 'chorus'],
+  [/hook/, 'hook'],
+  [/verse/, 'verse'],
+  [/bridge/, 'bridge'],
+  [/intro/, 'intro'],
+  [/outro|coda|\bend\b/, 'outro'],
+  [/interlude|break/, 'interlude'],
+  [/instrumental|solo/, 'instrumental'],
+];
+
+function countWords(line: string): number {
+  return line.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Normalizes line breaks, including the literal "/n" sequences Suno sometimes returns
+ * @param text - Raw lyrics
+ * @returns Lyrics with "\n" line breaks only
+ */
+export function normalizeLineBreaks(text: string): string {
+  return text.replace(/\r\n?/g, '\n').replace(/\/n/g, '\n');
+}
+
+/**
+ * Classifies a section marker
+ * @param label - Marker text without brackets
+ * @returns The section type, or 'other' for unrecognized markers
+ */
+export function getSectionType(label: string): LyricsSectionType {
+  const normalized = label.toLowerCase();
+  const match = SECTION_KEYWORDS.find(([pattern]) => pattern.test(normalized));
+  return match ? match[1] : 'other';
+}
+
+/**
+ * Splits lyrics into sections at their [Section] markers
+ * Word ranges count whitespace-separated words of the whole lyrics, markers
+ * included, so they line up with match spans reported by the search
+ * @param lyrics - Lyrics text
+ * @returns Sections in order; empty sections are kept so markers like [Instrumental] still show
+ */
+export function parseLyrics(lyrics: string): LyricsSection[] {
+  const sections: LyricsSection[] = [];
+  let current: LyricsSection | null = null;
+  let wordIndex = 0;
+
+  normalizeLineBreaks(lyrics).split('\n').forEach((rawLine) => {
+    const line = rawLine.trim();
+    const words = countWords(line);
+    const marker = line.match(SECTION_MARKER_PATTERN);
+
+    if (marker) {
+      wordIndex += words;
+      const label = marker[1].trim();
+      current = { type: getSectionType(label), label, lines: [], start: wordIndex, end: wordIndex };
+      sections.push(current);
+      return;
+    }
+
+    if (!line) {
+      return;
+    }
+
+    if (!current) {
+      current = { type: 'other', label: '', lines: [], start: wordIndex, end: wordIndex };
+      sections.push(current);
+    }
+    current.lines.push(line);
+    wordIndex += words;
+    current.end = wordIndex;
+  });
+
+  return sections;
+}
+
+/**
+ * Finds the section a lyric word belongs to
+ * @param sections - Sections from parseLyrics
+ * @param wordIndex - Whitespace-separated word index within the lyrics
+ * @returns The section, or null if the word is a marker or out of range
+ */
+export function findSectionAt(sections: LyricsSection[], wordIndex: number): LyricsSection | null {
+  return sections.find((section) => wordIndex >= section.start && wordIndex < section.end) ?? null;
+}
+
+/**
+ * Whether a section is a repeated, memorable part of the song
+ * @param section - A parsed section
+ * @returns True for choruses and hooks
+ */
+export function isChorusSection(section: LyricsSection): boolean {
+  return section.type === 'chorus' || section.type === 'hook';
+}
@@ -0,0 +1,234 @@
+import { trackPitch } from '@/utils/pitch';
+import type { Melody, MelodyMatch, StoredMelody } from '@/types/melody';
+import {
+  MELODY_SAMPLE_RATE,
+  MELODY_HOP_SIZE,
+  MELODY_NOTE_TOLERANCE,
+  MELODY_MIN_NOTE_FRAMES,
+  MELODY_MIN_QUERY_NOTES,
+  MELODY_INTERVAL_COST_CAP,
+  MELODY_WARP_PENALTY,
+  MELODY_MAX_DISTANCE,
+  MELODY_MAX_MATCHES,
+} from '@/constants';
+
+/**
+ * Melody contours for query by humming
+ * A pitch track is cut into notes, and melodies are compared by the intervals
+ * between consecutive notes rather than the notes themselves, so humming in another
+ * key still matches. Dynamic time warping lines the hummed intervals up with any
+ * stretch of a song's, tolerating skipped, repeated and extra notes.
+ */
+
+function hzToMidi(hz: number): number {
+  return 69 + 12 * Math.log2(hz / 440);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Replaces each voiced frame with the median of its voiced neighbours, removing one-frame octave slips
+function smoothPitches(pitches: Float32Array): Float32Array {
+  const smoothed = new Float32Array(pitches.length);
+  for (let i = 0; i < pitches.length; i++) {
+    if (pitches[i] === 0) {
+      continue;
+    }
+    const neighbours = [pitches[i - 1], pitches[i], pitches[i + 1]].filter((hz) => hz > 0);
+    smoothed[i] = median(neighbours);
+  }
+  return smoothed;
+}
+
+/**
+ * Extracts the melody of a recording
+ * Consecutive voiced frames within MELODY_NOTE_TOLERANCE of each other form a note;
+ * notes shorter than MELODY_MIN_NOTE_FRAMES are dropped.
+ * @param samples - Mono samples at MELODY_SAMPLE_RATE
+ * @returns The recording's notes
+ */
+export function createMelody(samples: Float32Array): Melody {
+  const pitches = smoothPitches(trackPitch(samples));
+  const notes: number[] = [];
+  const starts: number[] = [];
+  let frames: number[] = [];
+  let sum = 0;
+  let start = 0;
+
+  const endNote = () => {
+    if (frames.length >= MELODY_MIN_NOTE_FRAMES) {
+      notes.push(median(frames));
+      starts.push(start);
+    }
+    frames = [];
+    sum = 0;
+  };
+
+  for (let frame = 0; frame < pitches.length; frame++) {
+    if (pitches[frame] === 0) {
+      endNote();
+      continue;
+    }
+
+    const pitch = hzToMidi(pitches[frame]);
+    // A running mean keeps long held notes linear; the note's pitch is still the median
+    if (frames.length > 0 && Math.abs(pitch - sum / frames.length) > MELODY_NOTE_TOLERANCE) {
+      endNote();
+    }
+    if (frames.length === 0) {
+      start = frame;
+    }
+    frames.push(pitch);
+    sum += pitch;
+  }
+  endNote();
+
+  return { notes: Float32Array.from(notes), starts: Uint32Array.from(starts) };
+}
+
+/**
+ * Computes the key-invariant contour of a melody
+ * Leaps wider than an octave are folded back into it, since they are far more often
+ * pitch tracking slips than real leaps.
+ * @param notes - Note pitches as MIDI note numbers
+ * @returns Semitones from each note to the next
+ */
+export function getIntervals(notes: Float32Array): Float32Array {
+  const intervals = new Float32Array(Math.max(0, notes.length - 1));
+  for (let i = 0; i < intervals.length; i++) {
+    let interval = notes[i + 1] - notes[i];
+    while (Math.abs(interval) > 12) {
+      interval -= 12 * Math.sign(interval);
+    }
+    intervals[i] = interval;
+  }
+  return intervals;
+}
+
+/**
+ * Finds where a hummed contour best fits inside a song's with subsequence DTW
+ * The query must be aligned from start to end, but may start and end anywhere in the song.
+ * @param query - Hummed intervals
+ * @param song - Song intervals
+ * @returns Average cost per hummed interval and the song interval the fit starts at, or null if either is empty
+ */
+export function alignIntervals(query: Float32Array, song: Float32Array): { distance: number; start: number } | null {
+  if (query.length === 0 || song.length === 0) {
+    return null;
+  }
+
+  const cost = (i: number, j: number) => Math.min(Math.abs(query[i] - song[j]), MELODY_INTERVAL_COST_CAP);
+  let previous = new Float64Array(song.length);
+  let previousStarts = new Int32Array(song.length);
+  let current = new Float64Array(song.length);
+  let currentStarts = new Int32Array(song.length);
+
+  // Free start: the first hummed interval may line up with any song interval
+  for (let j = 0; j < song.length; j++) {
+    previous[j] = cost(0, j);
+    previousStarts[j] = j;
+  }
+
+  for (let i = 1; i < query.length; i++) {
+    for (let j = 0; j < song.length; j++) {
+      // Diagonal steps advance both melodies; the others stretch one against the other
+      let best = previous[j] + MELODY_WARP_PENALTY;
+      let bestStart = previousStarts[j];
+      if (j > 0 && previous[j - 1] <= best) {
+        best = previous[j - 1];
+        bestStart = previousStarts[j - 1];
+      }
+      if (j > 0 && current[j - 1] + MELODY_WARP_PENALTY < best) {
+        best = current[j - 1] + MELODY_WARP_PENALTY;
+        bestStart = currentStarts[j - 1];
+      }
+      current[j] = best + cost(i, j);
+      currentStarts[j] = bestStart;
+    }
+    [previous, current] = [current, previous];
+    [previousStarts, currentStarts] = [currentStarts, previousStarts];
+  }
+
+  // Free end: the last hummed interval may line up with any song interval
+  let end = 0;
+  for (let j = 1; j < song.length; j++) {
+    if (previous[j] < previous[end]) {
+      end = j;
+    }
+  }
+  return { distance: previous[end] / query.length, start: previousStarts[end] };
+}
+
+export interface MelodyIndex {
+  /** Adds or replaces a song's melody */
+  add(songId: string, melody: Melody): void;
+  /** Whether a song's melody has been extracted */
+  has(songId: string): boolean;
+  /** Number of songs with a melody */
+  readonly size: number;
+  /** Forgets every melody */
+  clear(): void;
+  /**
+   * Finds songs whose melody resembles a hummed one
+   * @param melody - The hummed melody
+   * @returns Songs within MELODY_MAX_DISTANCE, closest first; none if the melody has too few notes
+   */
+  match(melody: Melody): MelodyMatch[];
+}
+
+/**
+ * Creates an index of song melody contours
+ * Matching compares the query against every song, which stays fast for personal libraries.
+ * @param melodies - Stored melodies to start with
+ * @returns A new melody index
+ */
+export function createMelodyIndex(melodies: StoredMelody[] = []): MelodyIndex {
+  let contours = new Map<string, { intervals: Float32Array; starts: Uint32Array }>();
+
+  const index: MelodyIndex = {
+    add(songId: string, melody: Melody) {
+      contours.set(songId, { intervals: getIntervals(melody.notes), starts: melody.starts });
+    },
+
+    has(songId: string) {
+      return contours.has(songId);
+    },
+
+    get size() {
+      return contours.size;
+    },
+
+    clear() {
+      contours = new Map();
+    },
+
+    match(melody: Melody) {
+      if (melody.notes.length < MELODY_MIN_QUERY_NOTES) {
+        return [];
+      }
+
+      const query = getIntervals(melody.notes);
+      const matches: MelodyMatch[] = [];
+      contours.forEach(({ intervals, starts }, songId) => {
+        const alignment = alignIntervals(query, intervals);
+        if (!alignment || alignment.distance > MELODY_MAX_DISTANCE) {
+          return;
+        }
+        matches.push({
+          songId,
+          distance: alignment.distance,
+          score: 1 - alignment.distance / MELODY_MAX_DISTANCE,
+          offsetSeconds: (starts[alignment.start] * MELODY_HOP_SIZE) / MELODY_SAMPLE_RATE,
+        });
+      });
+
+      return matches.sort((a, b) => a.distance - b.distance).slice(0, MELODY_MAX_MATCHES);
+    },
+  };
+
+  melodies.forEach((melody) => index.add(melody.songId, melody));
+  return index;
+}
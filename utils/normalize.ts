@@ -0,0 +1,54 @@
+/**
+ * Unicode-aware text normalization shared by tokenizing and highlighting
+ */
+
+// Scripts written without spaces between words
+const UNSPACED_SCRIPT_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+// Accents on Latin, Greek and Cyrillic letters; other scripts' marks (kana voicing, Indic vowel signs) carry meaning
+const DIACRITIC_PATTERN = /[\u0300-\u036f]/g;
+
+const NON_WORD_PATTERN = /[^\p{L}\p{M}\p{N}]/gu;
+
+let segmenter: Intl.Segmenter | null | undefined;
+
+function getSegmenter(): Intl.Segmenter | null {
+  if (segmenter === undefined) {
+    segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl ? new Intl.Segmenter(undefined, { granularity: 'word' }) : null;
+  }
+  return segmenter;
+}
+
+/**
+ * Normalizes a word for comparison
+ * Folds compatibility forms (full-width letters, ligatures), strips accents, lowercases
+ * and drops punctuation, keeping letters and numbers of every script
+ * @param word - Raw word
+ * @returns The normalized word, empty if it had no letters or numbers
+ */
+export function normalizeWord(word: string): string {
+  return word
+    .normalize('NFKD')
+    .replace(DIACRITIC_PATTERN, '')
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(NON_WORD_PATTERN, '');
+}
+
+/**
+ * Splits a whitespace-separated word into the words it contains
+ * Only text in scripts written without spaces (Chinese, Japanese, Thai...) is segmented,
+ * using Intl.Segmenter where available; everything else comes back whole
+ * @param word - Raw whitespace-separated word
+ * @returns Raw segments, in order
+ */
+export function segmentWord(word: string): string[] {
+  const wordSegmenter = UNSPACED_SCRIPT_PATTERN.test(word) ? getSegmenter() : null;
+  if (!wordSegmenter) {
+    return [word];
+  }
+
+  return Array.from(wordSegmenter.segment(word))
+    .filter((segment) => segment.isWordLike)
+    .map((segment) => segment.segment);
+}
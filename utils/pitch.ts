@@ -0,0 +1,93 @@
+import {
+  MELODY_SAMPLE_RATE,
+  MELODY_FRAME_SIZE,
+  MELODY_HOP_SIZE,
+  MELODY_MIN_HZ,
+  MELODY_MAX_HZ,
+  MELODY_YIN_THRESHOLD,
+  MELODY_SILENCE_RATIO,
+} from '@/constants';
+
+/**
+ * YIN pitch tracking
+ * For each frame, the cumulative mean normalized difference function measures how
+ * unlike itself the signal is at every lag; the first lag where it dips below the
+ * threshold is the period. See de Cheveigné & Kawahara, "YIN, a fundamental
+ * frequency estimator for speech and music" (2002).
+ */
+
+function getRms(samples: Float32Array, start: number, length: number): number {
+  let sumSquares = 0;
+  for (let i = start; i < start + length; i++) {
+    sumSquares += samples[i] * samples[i];
+  }
+  return Math.sqrt(sumSquares / Math.max(1, length));
+}
+
+/**
+ * Estimates the pitch of one frame
+ * @param samples - Mono samples at MELODY_SAMPLE_RATE
+ * @param start - First sample of the frame; MELODY_FRAME_SIZE samples must follow
+ * @returns Pitch in Hz, or 0 when the frame has no clear pitch
+ */
+export function detectPitch(samples: Float32Array, start: number): number {
+  const minLag = Math.floor(MELODY_SAMPLE_RATE / MELODY_MAX_HZ);
+  const maxLag = Math.ceil(MELODY_SAMPLE_RATE / MELODY_MIN_HZ);
+  // Every lag compares the same number of samples
+  const width = MELODY_FRAME_SIZE - maxLag;
+  const normalized = new Float32Array(maxLag + 2);
+
+  let runningSum = 0;
+  normalized[0] = 1;
+  for (let lag = 1; lag <= maxLag + 1; lag++) {
+    let difference = 0;
+    for (let i = start; i < start + width; i++) {
+      const delta = samples[i] - samples[i + lag];
+      difference += delta * delta;
+    }
+    runningSum += difference;
+    normalized[lag] = runningSum > 0 ? (difference * lag) / runningSum : 1;
+  }
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (normalized[lag] >= MELODY_YIN_THRESHOLD) {
+      continue;
+    }
+    // Walk down to the bottom of the dip
+    while (lag < maxLag && normalized[lag + 1] < normalized[lag]) {
+      lag++;
+    }
+
+    // Parabolic interpolation between neighbouring lags for sub-sample precision
+    const previous = normalized[lag - 1];
+    const next = normalized[lag + 1];
+    const curvature = previous - 2 * normalized[lag] + next;
+    const shift = curvature > 0 ? (previous - next) / (2 * curvature) : 0;
+    return MELODY_SAMPLE_RATE / (lag + shift);
+  }
+
+  return 0;
+}
+
+/**
+ * Tracks pitch across a recording
+ * Frames much quieter than the recording as a whole count as unvoiced, so breaths
+ * and room noise between hummed notes don't turn into notes of their own.
+ * @param samples - Mono samples at MELODY_SAMPLE_RATE
+ * @returns Pitch in Hz per MELODY_HOP_SIZE step, 0 where unvoiced
+ */
+export function trackPitch(samples: Float32Array): Float32Array {
+  const frameCount = samples.length >= MELODY_FRAME_SIZE
+    ? Math.floor((samples.length - MELODY_FRAME_SIZE) / MELODY_HOP_SIZE) + 1
+    : 0;
+  const pitches = new Float32Array(frameCount);
+  const silence = getRms(samples, 0, samples.length) * MELODY_SILENCE_RATIO;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = frame * MELODY_HOP_SIZE;
+    if (getRms(samples, start, MELODY_FRAME_SIZE) > silence) {
+      pitches[frame] = detectPitch(samples, start);
+    }
+  }
+  return pitches;
+}
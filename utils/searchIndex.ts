@@ -0,0 +1,303 @@
+import type { Song, SongTextField } from '@/types/speech';
+import {
+  tokenize,
+  prepareLyrics,
+  getWordFeatures,
+  scoreWordPair,
+  scoreHits,
+  sortHits,
+  type PreparedLyrics,
+  type SimilarityOptions,
+  type WordFeatures,
+  type WordHit,
+} from '@/utils/similarity';
+import { getWordSequence, hasWordSequence } from '@/utils/searchQuery';
+
+// Token -> song id -> token positions within that song's lyrics
+type Postings = Map<string, Map<string, number[]>>;
+
+// A song text prepared for both exact and fuzzy matching
+interface PreparedField {
+  plain: PreparedLyrics;
+  fuzzy: PreparedLyrics;
+}
+
+// Postings for one searchable song text
+interface FieldPostings {
+  plain: Postings;
+  fuzzy: Postings;
+}
+
+interface IndexedSong {
+  song: Song;
+  order: number;
+  fields: Record<SongTextField, PreparedField>;
+}
+
+export interface SearchIndexOptions extends SimilarityOptions {
+  /** Maximum number of results to return */
+  limit?: number;
+  /** Also match against AI description prompts, not just lyrics */
+  includeDescriptions?: boolean;
+}
+
+export interface SearchIndex {
+  /** Number of songs currently indexed */
+  readonly size: number;
+  /**
+   * Brings the index in line with a library snapshot
+   * Only songs that are new or whose lyrics or description changed are re-tokenized, so this
+   * is cheap to call on every progressive update from fetchAllSunoSongs
+   */
+  sync(songs: Song[]): void;
+  /**
+   * Scores indexed songs against a query
+   * Only songs sharing a word with the query are scored, plus a substring scan for
+   * one- and two-word queries, which may be cut off mid-word
+   */
+  search(query: string, options?: SearchIndexOptions): Song[];
+  /**
+   * Whether a song's lyrics (or description, if included) contain words together and in order
+   * Compares normalized words exactly, without fuzzy matching
+   */
+  containsPhrase(id: string, phrase: string, includeDescriptions?: boolean): boolean;
+  /** Removes every song from the index */
+  clear(): void;
+}
+
+function addPostings(postings: Postings, id: string, lyrics: PreparedLyrics): void {
+  lyrics.tokens.forEach((token, position) => {
+    let songs = postings.get(token.word);
+    if (!songs) {
+      songs = new Map();
+      postings.set(token.word, songs);
+    }
+    const positions = songs.get(id);
+    if (positions) {
+      positions.push(position);
+    } else {
+      songs.set(id, [position]);
+    }
+  });
+}
+
+function prepareField(text: string | undefined): PreparedField {
+  return { plain: prepareLyrics(text || '', false), fuzzy: prepareLyrics(text || '', true) };
+}
+
+function getFieldText(song: Song, field: SongTextField): string | undefined {
+  return field === 'lyrics' ? song.lyrics : song.descriptionPrompt;
+}
+
+function removePostings(postings: Postings, id: string, lyrics: PreparedLyrics): void {
+  lyrics.tokens.forEach((token) => {
+    const songs = postings.get(token.word);
+    if (!songs) {
+      return;
+    }
+    songs.delete(id);
+    if (songs.size === 0) {
+      postings.delete(token.word);
+    }
+  });
+}
+
+/**
+ * Creates an inverted index over song lyrics and description prompts
+ * Scores are computed with the same scoreHits routine as scoreMatch, so results
+ * are identical to linearly rescoring every song
+ * @returns A new, empty search index
+ */
+export function createSearchIndex(): SearchIndex {
+  const entries = new Map<string, IndexedSong>();
+  const postingsByField: Record<SongTextField, FieldPostings> = {
+    lyrics: { plain: new Map(), fuzzy: new Map() },
+    description: { plain: new Map(), fuzzy: new Map() },
+  };
+  const fieldNames = Object.keys(postingsByField) as SongTextField[];
+  // Fuzzy comparison keys per vocabulary word, computed once per word
+  const features = new Map<string, WordFeatures>();
+
+  const featuresFor = (word: string): WordFeatures => {
+    let cached = features.get(word);
+    if (!cached) {
+      cached = getWordFeatures(word);
+      features.set(word, cached);
+    }
+    return cached;
+  };
+
+  const remove = (id: string) => {
+    const entry = entries.get(id);
+    if (!entry) {
+      return;
+    }
+    fieldNames.forEach((field) => {
+      removePostings(postingsByField[field].plain, id, entry.fields[field].plain);
+      removePostings(postingsByField[field].fuzzy, id, entry.fields[field].fuzzy);
+    });
+    entries.delete(id);
+  };
+
+  const isKnownWord = (word: string) =>
+    fieldNames.some((field) => postingsByField[field].plain.has(word) || postingsByField[field].fuzzy.has(word));
+
+  // Hits of every query word in one field, grouped by song id
+  const findFieldHits = (postings: Postings, queryWords: string[], fuzzy: boolean) => {
+    const hitsBySong = new Map<string, WordHit[]>();
+
+    queryWords.forEach((queryWord, queryIndex) => {
+      const queryFeatures = getWordFeatures(queryWord);
+      // Exact lookups only need one posting list; fuzzy ones scan the vocabulary
+      const vocabulary = fuzzy ? Array.from(postings.keys()) : [queryWord];
+
+      vocabulary.forEach((word) => {
+        const songs = postings.get(word);
+        if (!songs) {
+          return;
+        }
+        const weight = scoreWordPair(queryFeatures, featuresFor(word), fuzzy);
+        if (weight === 0) {
+          return;
+        }
+        songs.forEach((positions, id) => {
+          let hits = hitsBySong.get(id);
+          if (!hits) {
+            hits = [];
+            hitsBySong.set(id, hits);
+          }
+          positions.forEach((position) => hits.push({ queryIndex, position, weight }));
+        });
+      });
+    });
+
+    return hitsBySong;
+  };
+
+  return {
+    get size() {
+      return entries.size;
+    },
+
+    sync(songs: Song[]) {
+      const ids = new Set(songs.map((song) => song.id));
+      Array.from(entries.keys())
+        .filter((id) => !ids.has(id))
+        .forEach(remove);
+
+      songs.forEach((song, order) => {
+        const existing = entries.get(song.id);
+
+        if (existing && fieldNames.every((field) => getFieldText(existing.song, field) === getFieldText(song, field))) {
+          existing.song = song;
+          existing.order = order;
+          return;
+        }
+
+        remove(song.id);
+        const entry: IndexedSong = {
+          song,
+          order,
+          fields: {
+            lyrics: prepareField(song.lyrics),
+            description: prepareField(song.descriptionPrompt),
+          },
+        };
+        fieldNames.forEach((field) => {
+          addPostings(postingsByField[field].plain, song.id, entry.fields[field].plain);
+          addPostings(postingsByField[field].fuzzy, song.id, entry.fields[field].fuzzy);
+        });
+        entries.set(song.id, entry);
+      });
+
+      // Drop cached features for words no longer in any vocabulary
+      const vocabularySize = fieldNames.reduce(
+        (sum, field) => sum + postingsByField[field].plain.size + postingsByField[field].fuzzy.size,
+        0
+      );
+      if (features.size > vocabularySize) {
+        Array.from(features.keys())
+          .filter((word) => !isKnownWord(word))
+          .forEach((word) => features.delete(word));
+      }
+    },
+
+    search(query: string, options: SearchIndexOptions = {}) {
+      const fuzzy = !!options.fuzzy;
+      const queryWords = tokenize(query, fuzzy).map((t) => t.word);
+
+      if (queryWords.length === 0 || entries.size === 0) {
+        return [];
+      }
+
+      const fields: SongTextField[] = options.includeDescriptions ? ['lyrics', 'description'] : ['lyrics'];
+      const best = new Map<string, { song: Song; order: number }>();
+
+      fields.forEach((field) => {
+        const postings = fuzzy ? postingsByField[field].fuzzy : postingsByField[field].plain;
+
+        const hitsBySong = findFieldHits(postings, queryWords, fuzzy);
+        // A phrase cut off mid-word ("ove you") can score as exact without sharing a whole word.
+        // Any longer phrase contains a whole word, so only one- and two-word queries need the scan
+        if (queryWords.length <= 2) {
+          entries.forEach((_, id) => {
+            if (!hitsBySong.has(id)) {
+              hitsBySong.set(id, []);
+            }
+          });
+        }
+
+        hitsBySong.forEach((hits, id) => {
+          const entry = entries.get(id);
+          if (!entry) {
+            return;
+          }
+          const prepared = fuzzy ? entry.fields[field].fuzzy : entry.fields[field].plain;
+          const { score, span, section } = scoreHits(prepared, queryWords, sortHits(hits), options);
+          // Lyrics are scored first and keep ties
+          const current = best.get(id);
+          if (score > 0 && (!current || score > current.song.matchScore)) {
+            best.set(id, {
+              song: {
+                ...entry.song,
+                matchScore: score,
+                matchSpan: span,
+                matchField: field,
+                matchSection: section?.label || undefined,
+              },
+              order: entry.order,
+            });
+          }
+        });
+      });
+
+      const results = Array.from(best.values());
+
+      // Ties keep library order, matching a stable sort over the full song list
+      const ranked = results
+        .sort((a, b) => b.song.matchScore - a.song.matchScore || a.order - b.order)
+        .map((result) => result.song);
+
+      return options.limit === undefined ? ranked : ranked.slice(0, options.limit);
+    },
+
+    containsPhrase(id: string, phrase: string, includeDescriptions: boolean = false) {
+      const entry = entries.get(id);
+      const needle = getWordSequence(phrase);
+      if (!entry || !needle) {
+        return false;
+      }
+      const fields: SongTextField[] = includeDescriptions ? ['lyrics', 'description'] : ['lyrics'];
+      return fields.some((field) => hasWordSequence(entry.fields[field].plain.text, needle));
+    },
+
+    clear() {
+      entries.clear();
+      fieldNames.forEach((field) => {
+        postingsByField[field].plain.clear();
+        postingsByField[field].fuzzy.clear();
+      });
+      features.clear();
+    },
+  };
+}
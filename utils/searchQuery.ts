@@ -0,0 +1,151 @@
+import { tokenize } from '@/utils/similarity';
+import { SearchQueryError } from '@/lib/searchQueryErrors';
+import type { SearchQuery, SearchQueryField, SearchQueryTerm } from '@/types/searchQuery';
+
+/**
+ * Text search query language
+ * Queries are plain lyrics plus a few operators:
+ * - "exact phrase": the words must appear together, in order
+ * - -word, -"phrase": songs containing them are left out
+ * - tag:synthwave, title:night (quote multi-word values): match a style tag or the title
+ * - before:2024-06-01, after:2024-06-01: creation date, exclusive
+ * Any term can be negated with a leading minus. Text without operators parses into plain words.
+ */
+
+const FIELDS: ReadonlySet<string> = new Set<SearchQueryField>(['tag', 'title', 'before', 'after']);
+const DATE_FIELDS: ReadonlySet<string> = new Set<SearchQueryField>(['before', 'after']);
+const FIELD_PATTERN = /^([a-z]+):/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const WHITESPACE_PATTERN = /\s/;
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) {
+    return false;
+  }
+  // Date.parse rolls 2024-02-30 over to March, so check the date survives a round trip
+  const time = Date.parse(value);
+  return !Number.isNaN(time) && new Date(time).toISOString().startsWith(value);
+}
+
+function findWordEnd(query: string, from: number): number {
+  let end = from;
+  while (end < query.length && !WHITESPACE_PATTERN.test(query[end])) {
+    end++;
+  }
+  return end;
+}
+
+// Reads a quoted string from its opening quote; termStart is where the whole term began, for errors
+function readQuoted(query: string, open: number, termStart: number): { text: string; end: number } {
+  const close = query.indexOf('"', open + 1);
+  if (close === -1) {
+    throw new SearchQueryError('unclosed_quote', open, query.length);
+  }
+  const text = query.slice(open + 1, close);
+  if (!text.trim()) {
+    throw new SearchQueryError('empty_phrase', termStart, close + 1);
+  }
+  return { text: text.trim(), end: close + 1 };
+}
+
+/**
+ * Parses a text search query
+ * Unknown field names (e.g. "note:") and a lone minus are plain words, so ordinary lyrics
+ * keep matching as before.
+ * @param query - Raw query text
+ * @returns The query's terms, in order
+ * @throws SearchQueryError for an unclosed or empty quote, a field without a value or an invalid date
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+  const terms: SearchQueryTerm[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    if (WHITESPACE_PATTERN.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = query[i] === '-' && i + 1 < query.length && !WHITESPACE_PATTERN.test(query[i + 1]);
+    if (negated) {
+      i++;
+    }
+
+    if (query[i] === '"') {
+      const { text, end } = readQuoted(query, i, start);
+      terms.push({ type: 'phrase', text, negated });
+      i = end;
+      continue;
+    }
+
+    const field = FIELD_PATTERN.exec(query.slice(i));
+    const name = field?.[1].toLowerCase();
+    if (field && name && FIELDS.has(name)) {
+      const valueStart = i + field[0].length;
+      let value: string;
+      let end: number;
+      if (query[valueStart] === '"') {
+        ({ text: value, end } = readQuoted(query, valueStart, start));
+      } else {
+        end = findWordEnd(query, valueStart);
+        value = query.slice(valueStart, end);
+      }
+
+      if (!value) {
+        throw new SearchQueryError('missing_value', start, end, name);
+      }
+      if (DATE_FIELDS.has(name) && !isValidDate(value)) {
+        throw new SearchQueryError('invalid_date', valueStart, end, value);
+      }
+      terms.push({ type: 'field', field: name as SearchQueryField, value, negated });
+      i = end;
+      continue;
+    }
+
+    const end = findWordEnd(query, i);
+    terms.push({ type: 'word', text: query.slice(i, end), negated });
+    i = end;
+  }
+
+  return { terms };
+}
+
+/**
+ * Whether a query is plain lyrics, with no operators
+ * @param query - Parsed query
+ * @returns True if every term is a word that isn't excluded
+ */
+export function isPlainSearchQuery(query: SearchQuery): boolean {
+  return query.terms.every((term) => term.type === 'word' && !term.negated);
+}
+
+/**
+ * Collects the text songs are scored against: every word and phrase that isn't excluded
+ * @param query - Parsed query
+ * @returns Space-separated text, empty if the query only filters
+ */
+export function getSearchQueryText(query: SearchQuery): string {
+  return query.terms
+    .flatMap((term) => ((term.type === 'word' || term.type === 'phrase') && !term.negated ? [term.text] : []))
+    .join(' ');
+}
+
+/**
+ * Normalizes text into the word sequence phrase checks compare, like PreparedLyrics.text
+ * @param text - Raw text
+ * @returns Normalized words joined by single spaces
+ */
+export function getWordSequence(text: string): string {
+  return tokenize(text, false).map((token) => token.word).join(' ');
+}
+
+/**
+ * Checks for whole consecutive words
+ * @param haystack - Word sequence to search
+ * @param needle - Word sequence to find
+ * @returns True if needle is non-empty and occurs in haystack on word boundaries
+ */
+export function hasWordSequence(haystack: string, needle: string): boolean {
+  return needle !== '' && ` ${haystack} `.includes(` ${needle} `);
+}
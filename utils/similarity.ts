@@ -1,46 +1,343 @@
-import { EXACT_MATCH_SCORE, ALL_WORDS_MATCH_SCORE } from '@/constants';
+import {
+  EXACT_MATCH_SCORE,
+  ALL_WORDS_MATCH_SCORE,
+  FUZZY_STEM_MATCH_WEIGHT,
+  FUZZY_PHONETIC_MATCH_WEIGHT,
+  FUZZY_TYPO_MATCH_WEIGHT,
+  PHRASE_MAX_GAP,
+  PHRASE_PROXIMITY_WEIGHT,
+  CHORUS_MATCH_BOOST,
+} from '@/constants';
+import type { MatchSpan } from '@/types/speech';
+import type { LyricsSection } from '@/types/lyrics';
+import { expandContractions, stem, phoneticKey, editDistance, maxTyposFor } from '@/utils/fuzzy';
+import { normalizeLineBreaks, parseLyrics, findSectionAt, isChorusSection } from '@/utils/lyrics';
+import { normalizeWord, segmentWord } from '@/utils/normalize';
 
-// Normalize strings for comparison: lowercase, remove newlines, remove formatting characters
-function normalize(str: string): string {
-  return str
-    .toLowerCase()
-    .trim()
-    .replace(/\s+/g, ' ') // Replace multiple whitespace (including newlines) with single space
-    .replace(/[^\w\s]/g, ''); // Remove all non-alphanumeric characters except spaces
+export interface SimilarityOptions {
+  /** Tolerate typos, contractions, plurals and sound-alike words */
+  fuzzy?: boolean;
+  /** Score matches that fall in a chorus or hook higher */
+  boostChorus?: boolean;
 }
 
-// Calculate similarity based on query word overlap
-export function calculateSimilarity(str1: string, str2: string): number {
-  const s1 = normalize(str1);
-  const s2 = normalize(str2);
+export interface SimilarityMatch {
+  /** Similarity score between 0 and 1 */
+  score: number;
+  /** Range of lyric words that produced the score, or null when nothing matched */
+  span: MatchSpan | null;
+  /** Lyrics section the span starts in, when the lyrics have section markers */
+  section: LyricsSection | null;
+}
+
+// A normalized token and the index of the whitespace-separated word it came from
+export interface Token {
+  word: string;
+  index: number;
+}
+
+// A query word found at a lyric token position
+export interface WordHit {
+  queryIndex: number;
+  position: number;
+  weight: number;
+}
+
+// Precomputed comparison keys for a word, so fuzzy checks don't redo stemming per pair
+export interface WordFeatures {
+  word: string;
+  stem: string;
+  phonetic: string;
+}
+
+// Lyrics tokenized once and reusable across queries
+export interface PreparedLyrics {
+  tokens: Token[];
+  /** Tokens joined by single spaces, used for phrase checks */
+  text: string;
+  /** Stemmed tokens joined by single spaces, computed on first fuzzy phrase check */
+  stemmedText?: string;
+  /** [Verse]/[Chorus] sections, whose markers are left out of tokens */
+  sections: LyricsSection[];
+}
 
-  if (!s1 || !s2) {
+// Split text into normalized tokens, remembering which original word each came from
+// Unspaced scripts yield several tokens per whitespace word, all sharing its index
+export function tokenize(str: string, fuzzy: boolean): Token[] {
+  const tokens: Token[] = [];
+
+  str.split(/\s+/).filter(Boolean).forEach((rawWord, index) => {
+    segmentWord(rawWord).forEach((segment) => {
+      const word = normalizeWord(segment);
+      if (!word) {
+        return;
+      }
+      const words = fuzzy ? expandContractions([word]) : [word];
+      words.forEach((w) => tokens.push({ word: w, index }));
+    });
+  });
+
+  return tokens;
+}
+
+/**
+ * Computes the comparison keys for a normalized word
+ * @param word - Normalized token
+ * @returns The word with its stem and phonetic key
+ */
+export function getWordFeatures(word: string): WordFeatures {
+  return {
+    word,
+    stem: stem(word),
+    phonetic: word.length >= 3 ? phoneticKey(word) : '',
+  };
+}
+
+/**
+ * Scores how well a query word matches a lyric word
+ * @param query - Features of the query word
+ * @param lyric - Features of the lyric word
+ * @param fuzzy - Whether approximate matches earn partial credit
+ * @returns Weight between 0 and 1
+ */
+export function scoreWordPair(query: WordFeatures, lyric: WordFeatures, fuzzy: boolean): number {
+  if (query.word === lyric.word) {
+    return 1;
+  }
+  if (!fuzzy) {
     return 0;
   }
 
-  const lyricsWords = new Set(s1.split(/\s+/).filter(Boolean));
-  const queryWords = s2.split(/\s+/).filter(Boolean);
+  if (query.stem === lyric.stem) {
+    return FUZZY_STEM_MATCH_WEIGHT;
+  }
 
-  if (queryWords.length === 0) {
+  if (query.phonetic.length >= 2 && query.phonetic === lyric.phonetic) {
+    return FUZZY_PHONETIC_MATCH_WEIGHT;
+  }
+
+  const maxTypos = maxTyposFor(query.word.length);
+  if (maxTypos === 0) {
     return 0;
   }
 
-  if (s1.includes(s2)) {
-    return EXACT_MATCH_SCORE;
+  const distance = editDistance(query.word, lyric.word, maxTypos);
+  if (distance > maxTypos) {
+    return 0;
   }
+  return FUZZY_TYPO_MATCH_WEIGHT * (1 - distance / Math.max(query.word.length, lyric.word.length));
+}
+
+// Find every lyric position each query word matches, scoring each unique lyric word once
+function findHits(lyricTokens: Token[], queryWords: string[], fuzzy: boolean): WordHit[] {
+  const uniqueLyricWords = Array.from(new Set(lyricTokens.map((t) => t.word))).map(getWordFeatures);
+  const hits: WordHit[] = [];
 
-  let matchingWords = 0;
-  for (const word of queryWords) {
-    if (lyricsWords.has(word)) {
-      matchingWords++;
+  queryWords.forEach((queryWord, queryIndex) => {
+    const queryFeatures = getWordFeatures(queryWord);
+    const weights = new Map<string, number>();
+    uniqueLyricWords.forEach((lyricWord) => {
+      const weight = scoreWordPair(queryFeatures, lyricWord, fuzzy);
+      if (weight > 0) {
+        weights.set(lyricWord.word, weight);
+      }
+    });
+
+    if (weights.size === 0) {
+      return;
     }
-  }
 
-  const ratio = matchingWords / queryWords.length;
+    lyricTokens.forEach((token, position) => {
+      const weight = weights.get(token.word);
+      if (weight) {
+        hits.push({ queryIndex, position, weight });
+      }
+    });
+  });
+
+  return sortHits(hits);
+}
 
-  if (ratio === 1) {
-    return ALL_WORDS_MATCH_SCORE;
+/**
+ * Orders hits by lyric position, then query word, as the chain search expects
+ * @param hits - Unordered hits
+ * @returns The same array, sorted in place
+ */
+export function sortHits(hits: WordHit[]): WordHit[] {
+  return hits.sort((a, b) => a.position - b.position || a.queryIndex - b.queryIndex);
+}
+
+// Bag-of-words overlap score: the best weight each query word reaches anywhere
+function overlapScore(hits: WordHit[], queryLength: number): number {
+  const best = new Array<number>(queryLength).fill(0);
+  hits.forEach((hit) => {
+    best[hit.queryIndex] = Math.max(best[hit.queryIndex], hit.weight);
+  });
+
+  const ratio = best.reduce((sum, weight) => sum + weight, 0) / queryLength;
+
+  // Every word found: exact hits keep the classic score, fuzzy ones scale it by quality
+  if (best.every((weight) => weight > 0)) {
+    return ALL_WORDS_MATCH_SCORE * ratio;
   }
 
   return ratio;
 }
+
+interface PhraseChain {
+  weight: number;
+  adjacent: number;
+  first: number;
+  last: number;
+}
+
+/**
+ * Finds the best chain of hits where query words appear in order and close together
+ * Each step may skip at most PHRASE_MAX_GAP extra lyric words beyond any skipped query words
+ */
+function findBestChain(hits: WordHit[], queryLength: number): PhraseChain | null {
+  const chains: PhraseChain[] = [];
+  const value = (chain: PhraseChain) => chain.weight + chain.adjacent * 0.5;
+  let best: PhraseChain | null = null;
+
+  for (let k = 0; k < hits.length; k++) {
+    const hit = hits[k];
+    let chain: PhraseChain = { weight: hit.weight, adjacent: 0, first: hit.position, last: hit.position };
+
+    for (let j = k - 1; j >= 0; j--) {
+      const prev = hits[j];
+      const gap = hit.position - prev.position - 1;
+
+      // Hits are sorted by position, so nothing further back can be in range
+      if (gap > PHRASE_MAX_GAP + queryLength) {
+        break;
+      }
+
+      const skippedQueryWords = hit.queryIndex - prev.queryIndex - 1;
+      if (gap < 0 || skippedQueryWords < 0 || gap > PHRASE_MAX_GAP + skippedQueryWords) {
+        continue;
+      }
+
+      const candidate: PhraseChain = {
+        weight: chains[j].weight + hit.weight,
+        adjacent: chains[j].adjacent + (gap === 0 && skippedQueryWords === 0 ? 1 : 0),
+        first: chains[j].first,
+        last: hit.position,
+      };
+      if (value(candidate) > value(chain)) {
+        chain = candidate;
+      }
+    }
+
+    chains.push(chain);
+    if (!best || value(chain) > value(best)) {
+      best = chain;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Tokenizes lyrics once so they can be scored against many queries
+ * Section markers are dropped so "[Chorus]" can't match the word "chorus"
+ * @param lyrics - Raw lyrics
+ * @param fuzzy - Whether contractions should be expanded
+ * @returns Prepared lyrics
+ */
+export function prepareLyrics(lyrics: string, fuzzy: boolean): PreparedLyrics {
+  const normalized = normalizeLineBreaks(lyrics);
+  const sections = parseLyrics(normalized);
+  const tokens = tokenize(normalized, fuzzy).filter((token) => findSectionAt(sections, token.index) !== null);
+  return { tokens, text: tokens.map((t) => t.word).join(' '), sections };
+}
+
+// Exact phrases score EXACT_MATCH_SCORE; otherwise the word overlap score is
+// boosted toward it when query words appear in order and close together
+function scorePhrase(
+  lyrics: PreparedLyrics,
+  queryWords: string[],
+  hits: WordHit[],
+  chain: PhraseChain | null,
+  fuzzy: boolean
+): number {
+  // Plain substring checks, so a query cut off mid-word ("ove you") still counts as exact
+  if (lyrics.text.includes(queryWords.join(' '))) {
+    return EXACT_MATCH_SCORE;
+  }
+  // Phrase matches after stemming still count as exact
+  if (fuzzy) {
+    if (lyrics.stemmedText === undefined) {
+      lyrics.stemmedText = lyrics.tokens.map((t) => stem(t.word)).join(' ');
+    }
+    if (lyrics.stemmedText.includes(queryWords.map(stem).join(' '))) {
+      return EXACT_MATCH_SCORE;
+    }
+  }
+
+  const overlap = overlapScore(hits, queryWords.length);
+  if (!chain || queryWords.length === 1) {
+    return overlap;
+  }
+
+  // Reward in-order coverage, and contiguous runs within it
+  const proximity = chain.weight / queryWords.length;
+  const contiguity = chain.adjacent / (queryWords.length - 1);
+  const orderBonus = proximity * (1 + contiguity) / 2;
+
+  return overlap + (EXACT_MATCH_SCORE - overlap) * PHRASE_PROXIMITY_WEIGHT * orderBonus;
+}
+
+/**
+ * Scores prepared lyrics from precomputed word hits
+ * @param lyrics - Prepared lyrics
+ * @param queryWords - Normalized query tokens
+ * @param hits - Hits of the query words in the lyrics, sorted with sortHits
+ * @param options - Similarity options
+ * @returns Score, matched word span and the section it falls in
+ */
+export function scoreHits(
+  lyrics: PreparedLyrics,
+  queryWords: string[],
+  hits: WordHit[],
+  options: SimilarityOptions = {}
+): SimilarityMatch {
+  if (lyrics.tokens.length === 0 || queryWords.length === 0) {
+    return { score: 0, span: null, section: null };
+  }
+
+  // Without hits only a phrase cut off mid-word can still score
+  const chain = hits.length > 0 ? findBestChain(hits, queryWords.length) : null;
+  const span: MatchSpan | null = chain
+    ? { start: lyrics.tokens[chain.first].index, end: lyrics.tokens[chain.last].index + 1 }
+    : null;
+  const section = span ? findSectionAt(lyrics.sections, span.start) : null;
+  const score = scorePhrase(lyrics, queryWords, hits, chain, !!options.fuzzy);
+
+  // The part people remember: close a share of the remaining gap for chorus matches
+  if (options.boostChorus && section && isChorusSection(section)) {
+    return { score: score + (EXACT_MATCH_SCORE - score) * CHORUS_MATCH_BOOST, span, section };
+  }
+
+  return { score, span, section };
+}
+
+/**
+ * Scores lyrics against a query and reports the lyric span behind the score
+ * @param lyrics - Lyrics to search in
+ * @param query - Search query
+ * @param options - Similarity options
+ * @returns Score and matched word span
+ */
+export function scoreMatch(lyrics: string, query: string, options: SimilarityOptions = {}): SimilarityMatch {
+  const fuzzy = !!options.fuzzy;
+  const prepared = prepareLyrics(lyrics, fuzzy);
+  const queryWords = tokenize(query, fuzzy).map((t) => t.word);
+
+  return scoreHits(prepared, queryWords, findHits(prepared.tokens, queryWords, fuzzy), options);
+}
+
+// Calculate similarity based on query word overlap and phrase proximity
+export function calculateSimilarity(str1: string, str2: string, options: SimilarityOptions = {}): number {
+  return scoreMatch(str1, str2, options).score;
+}
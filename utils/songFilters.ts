@@ -0,0 +1,153 @@
+import type { Song } from '@/types/speech';
+import type { SongFilters, SongSortOrder } from '@/types/search';
+import type { SearchQueryField } from '@/types/searchQuery';
+import { getWordSequence, hasWordSequence } from '@/utils/searchQuery';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Splits a song's comma-separated style tags
+ * @param tags - Raw tags string
+ * @returns Lowercase, trimmed, de-duplicated tags
+ */
+export function parseTags(tags: string | undefined): string[] {
+  if (!tags) {
+    return [];
+  }
+  return Array.from(new Set(tags.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+/**
+ * Counts how many songs carry each tag
+ * @param songs - Songs to count over
+ * @returns Tags with their song counts, most common first
+ */
+export function getTagCounts(songs: Song[]): Array<{ tag: string; count: number }> {
+  const counts = new Map<string, number>();
+  songs.forEach((song) => {
+    parseTags(song.tags).forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  });
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+  );
+}
+
+/**
+ * Whether any filter is set
+ * @param filters - Filters to check
+ * @returns True if at least one filter would exclude songs
+ */
+export function hasActiveFilters(filters: SongFilters | undefined): boolean {
+  if (!filters) {
+    return false;
+  }
+  return (
+    (filters.tags?.length ?? 0) > 0 ||
+    !!filters.createdFrom ||
+    !!filters.createdTo ||
+    filters.minDuration !== undefined ||
+    filters.maxDuration !== undefined
+  );
+}
+
+/**
+ * Checks a song against filters
+ * Songs missing a field a filter needs (no date, no duration) are excluded by that filter
+ * @param song - Song to check
+ * @param filters - Filters to apply
+ * @returns True if the song passes every filter
+ */
+export function matchesFilters(song: Song, filters: SongFilters): boolean {
+  if (filters.tags && filters.tags.length > 0) {
+    const songTags = parseTags(song.tags);
+    if (!filters.tags.some((tag) => songTags.includes(tag))) {
+      return false;
+    }
+  }
+
+  if (filters.createdFrom || filters.createdTo) {
+    const created = song.createdAt ? Date.parse(song.createdAt) : NaN;
+    if (Number.isNaN(created)) {
+      return false;
+    }
+    if (filters.createdFrom && created < Date.parse(filters.createdFrom)) {
+      return false;
+    }
+    // The end date is inclusive, so allow anything before the following midnight
+    if (filters.createdTo && created >= Date.parse(filters.createdTo) + DAY_MS) {
+      return false;
+    }
+  }
+
+  if (filters.minDuration !== undefined || filters.maxDuration !== undefined) {
+    if (song.duration === undefined) {
+      return false;
+    }
+    if (filters.minDuration !== undefined && song.duration < filters.minDuration) {
+      return false;
+    }
+    if (filters.maxDuration !== undefined && song.duration > filters.maxDuration) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Checks a song against a field term of a search query
+ * Tag and title values match whole words anywhere in a tag or the title; dates are exclusive,
+ * and undated songs match neither before: nor after:
+ * @param song - Song to check
+ * @param field - Field the term filters on
+ * @param value - The term's value; dates are YYYY-MM-DD
+ * @returns True if the song matches
+ */
+export function matchesQueryField(song: Song, field: SearchQueryField, value: string): boolean {
+  switch (field) {
+    case 'tag': {
+      const needle = getWordSequence(value);
+      return parseTags(song.tags).some((tag) => hasWordSequence(getWordSequence(tag), needle));
+    }
+    case 'title':
+      return hasWordSequence(getWordSequence(song.title), getWordSequence(value));
+    case 'before':
+    case 'after': {
+      const created = song.createdAt ? Date.parse(song.createdAt) : NaN;
+      if (Number.isNaN(created)) {
+        return false;
+      }
+      return field === 'before' ? created < Date.parse(value) : created >= Date.parse(value) + DAY_MS;
+    }
+  }
+}
+
+/**
+ * Sorts songs; every order falls back to the incoming order for ties
+ * @param songs - Songs ranked by score
+ * @param order - Sort order
+ * @returns A new sorted array
+ */
+export function sortSongs(songs: Song[], order: SongSortOrder): Song[] {
+  if (order === 'score') {
+    return songs.slice();
+  }
+
+  const createdAt = (song: Song) => (song.createdAt ? Date.parse(song.createdAt) : NaN);
+
+  return songs
+    .map((song, index) => ({ song, index }))
+    .sort((a, b) => {
+      if (order === 'title') {
+        return a.song.title.localeCompare(b.song.title, undefined, { sensitivity: 'base' }) || a.index - b.index;
+      }
+      const timeA = createdAt(a.song);
+      const timeB = createdAt(b.song);
+      // Undated songs go last in either direction
+      if (Number.isNaN(timeA) || Number.isNaN(timeB)) {
+        return Number(Number.isNaN(timeA)) - Number(Number.isNaN(timeB)) || a.index - b.index;
+      }
+      return (order === 'newest' ? timeB - timeA : timeA - timeB) || a.index - b.index;
+    })
+    .map(({ song }) => song);
+}
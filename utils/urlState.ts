@@ -0,0 +1,73 @@
+import { isValidSunoUsername } from '@/lib/suno';
+import { DEFAULT_SUNO_USERNAME } from '@/constants';
+
+/** App state mirrored in the home page's query string */
+export interface SearchUrlState {
+  /** Artists whose libraries are loaded */
+  usernames: string[];
+  /** Lyrics query, empty when browsing */
+  query: string;
+}
+
+type SearchParamsRecord = Record<string, string | string[] | undefined>;
+
+// Reads every value of a param from either URLSearchParams or Next's searchParams object
+function getAll(params: URLSearchParams | SearchParamsRecord, name: string): string[] | null {
+  if (params instanceof URLSearchParams) {
+    return params.has(name) ? params.getAll(name) : null;
+  }
+  const value = params[name];
+  if (value === undefined) {
+    return null;
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Reads search state from a URL
+ * Usernames may be repeated (?user=a&user=b) or comma-separated; invalid ones are dropped.
+ * Without a user param the default artist is loaded; an empty one (?user=) loads nobody.
+ * @param params - The page's search params
+ * @returns The usernames to load and the query to run
+ */
+export function parseSearchUrlState(params: URLSearchParams | SearchParamsRecord): SearchUrlState {
+  const users = getAll(params, 'user');
+  const usernames = users === null
+    ? [DEFAULT_SUNO_USERNAME]
+    : Array.from(new Set(
+        users
+          .flatMap((value) => value.split(','))
+          .map((username) => username.trim().toLowerCase())
+          .filter(isValidSunoUsername)
+      ));
+
+  return {
+    usernames,
+    query: (getAll(params, 'q')?.[0] ?? '').trim(),
+  };
+}
+
+/**
+ * Builds a shareable URL for a search
+ * The user param is left out when only the default artist is loaded
+ * @param state - Usernames and query
+ * @param pathname - Path to attach the query string to
+ * @returns Path with query string
+ */
+export function buildSearchUrl(state: SearchUrlState, pathname: string = '/'): string {
+  const params = new URLSearchParams();
+  const isDefault = state.usernames.length === 1 && state.usernames[0] === DEFAULT_SUNO_USERNAME;
+
+  if (!isDefault) {
+    if (state.usernames.length === 0) {
+      params.set('user', '');
+    }
+    state.usernames.forEach((username) => params.append('user', username));
+  }
+  if (state.query.trim()) {
+    params.set('q', state.query.trim());
+  }
+
+  const search = params.toString();
+  return search ? `${pathname}?${search}` : pathname;
+}
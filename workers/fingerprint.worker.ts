@@ -0,0 +1,50 @@
+import { createFingerprint, createFingerprintIndex } from '@/utils/fingerprint';
+import type { FingerprintWorkerRequest, FingerprintWorkerResponse } from '@/types/fingerprintWorker';
+
+/**
+ * Fingerprint Web Worker
+ * Owns the landmark hash index so FFTs over whole songs and recordings never
+ * block the main thread.
+ */
+
+const index = createFingerprintIndex();
+
+function respond(message: FingerprintWorkerResponse) {
+  self.postMessage(message);
+}
+
+function respondError(requestId: number, error: unknown, fallback: string) {
+  respond({ type: 'error', requestId, message: error instanceof Error ? error.message : fallback });
+}
+
+self.onmessage = (event: MessageEvent<FingerprintWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'load':
+      message.fingerprints.forEach((fingerprint) => index.add(fingerprint.songId, fingerprint));
+      break;
+
+    case 'fingerprint':
+      try {
+        const fingerprint = createFingerprint(message.samples);
+        index.add(message.songId, fingerprint);
+        respond({ type: 'fingerprinted', requestId: message.requestId, fingerprint });
+      } catch (error) {
+        respondError(message.requestId, error, 'Fingerprinting failed');
+      }
+      break;
+
+    case 'identify':
+      try {
+        respond({ type: 'matches', requestId: message.requestId, matches: index.match(createFingerprint(message.samples)) });
+      } catch (error) {
+        respondError(message.requestId, error, 'Identification failed');
+      }
+      break;
+
+    case 'clear':
+      index.clear();
+      break;
+  }
+};
@@ -0,0 +1,51 @@
+import { createMelody, createMelodyIndex } from '@/utils/melody';
+import type { MelodyWorkerRequest, MelodyWorkerResponse } from '@/types/melodyWorker';
+
+/**
+ * Melody Web Worker
+ * Owns the melody index so pitch tracking whole songs and matching hummed
+ * queries never block the main thread.
+ */
+
+const index = createMelodyIndex();
+
+function respond(message: MelodyWorkerResponse) {
+  self.postMessage(message);
+}
+
+function respondError(requestId: number, error: unknown, fallback: string) {
+  respond({ type: 'error', requestId, message: error instanceof Error ? error.message : fallback });
+}
+
+self.onmessage = (event: MessageEvent<MelodyWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'load':
+      message.melodies.forEach((melody) => index.add(melody.songId, melody));
+      break;
+
+    case 'extract':
+      try {
+        const melody = createMelody(message.samples);
+        index.add(message.songId, melody);
+        respond({ type: 'extracted', requestId: message.requestId, melody });
+      } catch (error) {
+        respondError(message.requestId, error, 'Melody extraction failed');
+      }
+      break;
+
+    case 'match':
+      try {
+        const melody = createMelody(message.samples);
+        respond({ type: 'matches', requestId: message.requestId, noteCount: melody.notes.length, matches: index.match(melody) });
+      } catch (error) {
+        respondError(message.requestId, error, 'Melody matching failed');
+      }
+      break;
+
+    case 'clear':
+      index.clear();
+      break;
+  }
+};
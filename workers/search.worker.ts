@@ -0,0 +1,59 @@
+import { searchService } from '@/services/searchService';
+import { createSearchIndex } from '@/utils/searchIndex';
+import type { Song } from '@/types/speech';
+import type { SearchWorkerOptions, SearchWorkerRequest, SearchWorkerResponse } from '@/types/searchWorker';
+
+/**
+ * Search Web Worker
+ * Owns a copy of the song library and its inverted index so tokenizing and
+ * scoring never block the main thread.
+ */
+
+let songs: Song[] = [];
+const index = createSearchIndex();
+// Only the newest search is worth running; older ones are skipped once it arrives
+let latestRequestId = 0;
+// Searches with an id at or below this were cancelled by the main thread
+let cancelledUpTo = 0;
+
+function respond(message: SearchWorkerResponse) {
+  self.postMessage(message);
+}
+
+function runSearch(requestId: number, query: string, options: SearchWorkerOptions = {}) {
+  if (requestId !== latestRequestId || requestId <= cancelledUpTo) {
+    return;
+  }
+
+  try {
+    const results = searchService.searchSongs(index, query, songs, options);
+    respond({ type: 'results', requestId, results });
+  } catch (error) {
+    respond({
+      type: 'error',
+      requestId,
+      message: error instanceof Error ? error.message : 'Search failed',
+    });
+  }
+}
+
+self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'sync':
+      songs = message.songs;
+      index.sync(songs);
+      break;
+
+    case 'search':
+      latestRequestId = Math.max(latestRequestId, message.requestId);
+      // Yield first so queued sync/cancel/search messages are handled before scoring
+      setTimeout(() => runSearch(message.requestId, message.query, message.options), 0);
+      break;
+
+    case 'cancel':
+      cancelledUpTo = Math.max(cancelledUpTo, message.requestId);
+      break;
+  }
+};
@@ -0,0 +1,67 @@
+import { env, pipeline, type AutomaticSpeechRecognitionPipeline } from '@huggingface/transformers';
+import type { SpeechWorkerRequest, SpeechWorkerResponse } from '@/types/speechWorker';
+import { LOCAL_SPEECH_MODEL, LOCAL_SPEECH_MODEL_DTYPE } from '@/constants';
+
+/**
+ * Offline speech recognition Web Worker
+ * Runs a Whisper model on the CPU through WebAssembly. The model is downloaded
+ * on first use and cached by the browser; requests are handled one at a time.
+ */
+
+// Models come from the Hugging Face Hub, never from this app's own origin
+env.allowLocalModels = false;
+
+let transcriber: Promise<AutomaticSpeechRecognitionPipeline> | null = null;
+let queue: Promise<void> = Promise.resolve();
+
+function getTranscriber(): Promise<AutomaticSpeechRecognitionPipeline> {
+  if (!transcriber) {
+    transcriber = pipeline('automatic-speech-recognition', LOCAL_SPEECH_MODEL, {
+      device: 'wasm',
+      dtype: LOCAL_SPEECH_MODEL_DTYPE,
+    });
+    // Let a later request retry a failed download
+    transcriber.catch(() => {
+      transcriber = null;
+    });
+  }
+  return transcriber;
+}
+
+function respond(message: SpeechWorkerResponse) {
+  self.postMessage(message);
+}
+
+async function transcribe(requestId: number, samples: Float32Array, language: string) {
+  try {
+    const transcribe = await getTranscriber();
+    const output = await transcribe(samples, {
+      // Two-letter codes cover every language in the picker
+      language: language.split('-')[0].toLowerCase(),
+      task: 'transcribe',
+      // Whisper sees 30 seconds at a time; longer recordings are stitched from overlapping windows
+      chunk_length_s: 30,
+      stride_length_s: 5,
+    });
+    respond({ type: 'transcript', requestId, text: output.text.trim() });
+  } catch (error) {
+    respond({ type: 'error', requestId, message: error instanceof Error ? error.message : 'Transcription failed' });
+  }
+}
+
+self.onmessage = (event: MessageEvent<SpeechWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'load':
+      // Start downloading the model while the user is still speaking
+      getTranscriber().catch((error) => {
+        console.error('Failed to load speech model:', error);
+      });
+      break;
+
+    case 'transcribe':
+      queue = queue.then(() => transcribe(message.requestId, message.samples, message.language));
+      break;
+  }
+};